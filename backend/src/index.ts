@@ -7,6 +7,18 @@ import homefeedRoutes from './routes/homefeed';
 import researchRoutes from './routes/research';
 import intelligentResearchRoutes from './routes/intelligent-research';
 import subredditRoutes from './routes/subreddit';
+import alertRoutes from './routes/alerts';
+import webhookRoutes from './routes/webhooks';
+import leadRoutes from './routes/leads';
+import postRoutes from './routes/posts';
+import actionRoutes from './routes/actions';
+import draftRoutes from './routes/drafts';
+import { FeedSyncService } from './services/feedSync';
+import { AlertScheduler } from './services/alertScheduler';
+import { WebhookDispatcher } from './services/webhookDispatcher';
+import { PerformanceTracker } from './services/performanceTracker';
+import { RemovalChecker } from './services/removalChecker';
+import { ActionScheduler } from './services/actionScheduler';
 
 dotenv.config();
 
@@ -25,6 +37,12 @@ app.use('/api/homefeed', homefeedRoutes);
 app.use('/api/research', researchRoutes);
 app.use('/api/intelligent-research', intelligentResearchRoutes);
 app.use('/api/subreddit', subredditRoutes);
+app.use('/api/alerts', alertRoutes);
+app.use('/api/webhooks', webhookRoutes);
+app.use('/api/leads', leadRoutes);
+app.use('/api/posts', postRoutes);
+app.use('/api/actions', actionRoutes);
+app.use('/api/drafts', draftRoutes);
 
 // Health check
 app.get('/health', (req, res) => {
@@ -41,4 +59,17 @@ app.listen(PORT, () => {
   console.log(`Reddit Copilot Backend running on http://localhost:${PORT}`);
   console.log(`Health check: http://localhost:${PORT}/health`);
   console.log(`Reddit auth URL: http://localhost:${PORT}/auth/reddit/url`);
+
+  // Keep the local home feed store fresh in the background
+  FeedSyncService.start();
+  // Run saved searches and notify about new matches
+  AlertScheduler.start();
+  // Send queued webhook deliveries and retry failed ones
+  WebhookDispatcher.start();
+  // Snapshot how copilot posts and comments are doing as they age
+  PerformanceTracker.start();
+  // Compare logged-in and logged-out views of copilot content to catch silent removals
+  RemovalChecker.start();
+  // Send scheduled posts and comments when they're due
+  ActionScheduler.start();
 });
\ No newline at end of file
@@ -1,36 +1,50 @@
 import { Request, Response, NextFunction } from 'express';
-import { PrismaClient } from '@prisma/client';
-
-const prisma = new PrismaClient();
+import { SessionService } from '../services/session';
+import { RedditReauthRequiredError } from '../services/tokenManager';
 
 export interface AuthenticatedRequest extends Request {
   user?: {
     redditId: string;
     username: string;
   };
+  sessionId?: string;
 }
 
 export const authenticateUser = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
-    const redditId = req.headers['x-reddit-id'] as string;
-    
-    if (!redditId) {
-      return res.status(401).json({ error: 'Reddit ID required in x-reddit-id header' });
+    const authorization = req.headers.authorization;
+
+    if (!authorization || !authorization.startsWith('Bearer ')) {
+      return res.status(401).json({ error: 'Session token required in Authorization header' });
     }
 
-    const user = await prisma.user.findUnique({ 
-      where: { redditId },
-      select: { redditId: true, username: true }
-    });
+    const session = await SessionService.verifySession(authorization.slice('Bearer '.length).trim());
 
-    if (!user) {
-      return res.status(401).json({ error: 'User not authenticated' });
+    if (!session) {
+      return res.status(401).json({ error: 'Session expired or revoked' });
     }
 
-    req.user = user;
+    req.user = { redditId: session.redditId, username: session.username };
+    req.sessionId = session.sessionId;
     next();
   } catch (error) {
     console.error('Auth middleware error:', error);
     res.status(500).json({ error: 'Authentication failed' });
   }
+};
+
+/**
+ * Answer 401 with a machine-readable code when Reddit has revoked our access,
+ * so the frontend can send the user back through OAuth. Returns true if handled.
+ */
+export const respondIfReauthRequired = (error: unknown, res: Response): boolean => {
+  if (!(error instanceof RedditReauthRequiredError)) return false;
+
+  res.status(401).json({
+    success: false,
+    error: 'Reddit re-authentication required',
+    code: 'REDDIT_REAUTH_REQUIRED',
+    message: error.message
+  });
+  return true;
 };
\ No newline at end of file
@@ -0,0 +1,571 @@
+import { Router, Response } from 'express';
+import { AuthenticatedRequest, authenticateUser, respondIfReauthRequired } from '../middleware/auth';
+import { RedditService, RedditAction, RedditActionValidationError, REDDIT_ACTION_TYPES } from '../services/reddit';
+import { ActionService, ActionSuggestion, ActionStatus, ACTION_STATUSES } from '../services/actions';
+import { EngagementSuggestion, ENGAGEMENT_SUGGESTION_TYPES } from '../services/openai';
+import {
+  PerformanceService,
+  PerformanceCheckpoint,
+  PerformanceGrouping,
+  PERFORMANCE_CHECKPOINTS,
+  PERFORMANCE_GROUPINGS
+} from '../services/performance';
+import { RemovalChecker } from '../services/removalChecker';
+import {
+  ScheduledActionService,
+  ScheduledActionStateError,
+  ScheduledActionStatus,
+  SCHEDULED_ACTION_STATUSES
+} from '../services/scheduledActions';
+import { isValidTimeZone, zonedTimeToUtc } from '../services/timezone';
+
+const router = Router();
+
+const MAX_CONTENT_LENGTH = 40000;
+
+const MAX_SCHEDULE_AHEAD = 90 * 24 * 60 * 60 * 1000;
+
+/**
+ * Read `runAt` and `timeZone` from a request body. `runAt` is an ISO timestamp, or a
+ * wall-clock time like "2024-03-10T09:00" in `timeZone`.
+ */
+function parseRunAt(body: any): { runAt?: Date; timeZone?: string; errors: string[] } {
+  const { runAt, timeZone } = body;
+  const errors: string[] = [];
+
+  if (timeZone !== undefined && (typeof timeZone !== 'string' || !isValidTimeZone(timeZone))) {
+    errors.push('timeZone must be an IANA time zone like "America/New_York"');
+  }
+  if (typeof runAt !== 'string' || !runAt) {
+    errors.push('runAt is required');
+  }
+  if (errors.length > 0) return { errors };
+
+  const date = timeZone && !/(Z|[+-]\d{2}:?\d{2})$/.test(runAt) ? zonedTimeToUtc(runAt, timeZone) : new Date(runAt);
+  if (!date || isNaN(date.getTime())) {
+    errors.push('runAt must be an ISO date and time');
+  } else if (date.getTime() <= Date.now()) {
+    errors.push('runAt must be in the future');
+  } else if (date.getTime() > Date.now() + MAX_SCHEDULE_AHEAD) {
+    errors.push('runAt must be within 90 days');
+  }
+
+  return errors.length > 0 ? { errors } : { runAt: date, timeZone, errors };
+}
+
+/**
+ * Send the 400 for actions that failed validation; anything else is for the caller to handle
+ */
+function respondIfInvalid(error: unknown, res: Response): boolean {
+  if (!(error instanceof RedditActionValidationError)) return false;
+  res.status(400).json({
+    success: false,
+    error: 'Invalid action',
+    details: error.errors
+  });
+  return true;
+}
+
+/**
+ * POST /api/actions
+ * Execute an approved Reddit action. Edits and deletes only apply to content posted through the copilot.
+ */
+router.post('/', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const redditId = req.user!.redditId;
+    const { suggestion, ...action }: RedditAction & { suggestion?: ActionSuggestion } = req.body;
+
+    // Add unique ID if not provided
+    if (!action.id) {
+      action.id = `action_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+    }
+
+    if (action.type === 'edit' || action.type === 'delete') {
+      const errors = await RedditService.validateAction(redditId, action);
+      if (errors.length > 0) throw new RedditActionValidationError(errors);
+
+      const existing = await ActionService.findByThingId(redditId, action.thingId!);
+      if (!existing) {
+        return res.status(404).json({
+          success: false,
+          error: 'Content not found among your copilot posts'
+        });
+      }
+
+      const updated = action.type === 'edit'
+        ? await ActionService.editAction(redditId, existing.id, action.content)
+        : await ActionService.deleteAction(redditId, existing.id);
+      return res.json({
+        success: true,
+        actionId: action.id,
+        redditId: existing.thingId.slice(3),
+        url: existing.url,
+        message: action.type === 'edit' ? 'Content updated successfully' : 'Content deleted successfully',
+        action: updated
+      });
+    }
+
+    const suggestionErrors = ActionService.validateSuggestion(suggestion);
+    if (suggestionErrors.length > 0) throw new RedditActionValidationError(suggestionErrors);
+
+    const { result, action: recorded } = await ActionService.execute(redditId, action, suggestion || undefined);
+    res.json({ ...result, action: recorded });
+  } catch (error) {
+    if (respondIfInvalid(error, res)) return;
+    console.error('Error executing Reddit action:', error);
+    if (respondIfReauthRequired(error, res)) return;
+    res.status(500).json({
+      success: false,
+      error: 'Failed to execute action',
+      details: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
+
+/**
+ * POST /api/actions/schedule
+ * Queue a post or comment to be sent at `runAt`. Takes the same body as POST /api/actions.
+ */
+router.post('/schedule', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const redditId = req.user!.redditId;
+    const { suggestion, runAt: _runAt, timeZone: _timeZone, ...action }: RedditAction & {
+      suggestion?: ActionSuggestion; runAt?: string; timeZone?: string;
+    } = req.body;
+    const { runAt, timeZone, errors } = parseRunAt(req.body);
+
+    if (action.type === 'edit' || action.type === 'delete') {
+      errors.push('Only posts and comments can be scheduled');
+    }
+    errors.push(...ActionService.validateSuggestion(suggestion));
+    // Subreddit rules are checked again when the action is sent
+    if (errors.length === 0) {
+      errors.push(...await RedditService.validateAction(redditId, action));
+    }
+
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid scheduled action',
+        details: errors
+      });
+    }
+
+    const scheduled = await ScheduledActionService.schedule(redditId, {
+      action,
+      suggestion: suggestion || undefined,
+      runAt: runAt!,
+      timeZone
+    });
+
+    res.status(201).json({ success: true, scheduled });
+  } catch (error) {
+    console.error('Action scheduling error:', error);
+    if (respondIfReauthRequired(error, res)) return;
+    res.status(500).json({
+      success: false,
+      error: 'Failed to schedule action'
+    });
+  }
+});
+
+/**
+ * GET /api/actions/scheduled
+ * Get scheduled actions, soonest first. Defaults to the ones still waiting to be sent.
+ */
+router.get('/scheduled', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const statuses = req.query.status ? String(req.query.status).split(',') : ['scheduled', 'posting'];
+    const unknownStatuses = statuses.filter(status => !SCHEDULED_ACTION_STATUSES.includes(status as ScheduledActionStatus));
+
+    if (unknownStatuses.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown status: ${unknownStatuses.join(', ')}. Valid statuses: ${SCHEDULED_ACTION_STATUSES.join(', ')}`
+      });
+    }
+
+    const scheduled = await ScheduledActionService.list(req.user!.redditId, {
+      statuses: statuses as ScheduledActionStatus[],
+      limit: Math.min(parseInt(req.query.limit as string) || 50, 200)
+    });
+
+    res.json({
+      success: true,
+      scheduled,
+      count: scheduled.length
+    });
+  } catch (error) {
+    console.error('Scheduled actions fetch error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch scheduled actions'
+    });
+  }
+});
+
+/**
+ * PATCH /api/actions/scheduled/:id
+ * Move a scheduled action to a new `runAt`; a failed one is queued again
+ */
+router.patch('/scheduled/:id', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { runAt, timeZone, errors } = parseRunAt(req.body);
+
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid schedule',
+        details: errors
+      });
+    }
+
+    const scheduled = await ScheduledActionService.reschedule(req.user!.redditId, req.params.id, runAt!, timeZone);
+    if (!scheduled) {
+      return res.status(404).json({
+        success: false,
+        error: 'Scheduled action not found'
+      });
+    }
+
+    res.json({ success: true, scheduled });
+  } catch (error) {
+    if (error instanceof ScheduledActionStateError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message
+      });
+    }
+    console.error('Action rescheduling error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to reschedule action'
+    });
+  }
+});
+
+/**
+ * DELETE /api/actions/scheduled/:id
+ * Cancel a scheduled action that hasn't been sent yet
+ */
+router.delete('/scheduled/:id', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const scheduled = await ScheduledActionService.cancel(req.user!.redditId, req.params.id);
+    if (!scheduled) {
+      return res.status(404).json({
+        success: false,
+        error: 'Scheduled action not found'
+      });
+    }
+
+    res.json({ success: true, scheduled });
+  } catch (error) {
+    if (error instanceof ScheduledActionStateError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message
+      });
+    }
+    console.error('Scheduled action cancel error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to cancel scheduled action'
+    });
+  }
+});
+
+/**
+ * GET /api/actions
+ * Get posts and comments made through the copilot, newest first
+ */
+router.get('/', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const actions = await ActionService.listActions(req.user!.redditId, {
+      includeDeleted: req.query.includeDeleted === 'true',
+      limit: Math.min(parseInt(req.query.limit as string) || 25, 100)
+    });
+
+    res.json({
+      success: true,
+      actions,
+      count: actions.length
+    });
+  } catch (error) {
+    console.error('Actions fetch error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch actions'
+    });
+  }
+});
+
+/**
+ * GET /api/actions/history
+ * Get the audit log of everything sent through the copilot, including failed attempts
+ */
+router.get('/history', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { status, type, suggestionType, userEdited, since, until } = req.query as Record<string, string | undefined>;
+    const errors: string[] = [];
+
+    if (status && !ACTION_STATUSES.includes(status as ActionStatus)) {
+      errors.push(`status must be one of: ${ACTION_STATUSES.join(', ')}`);
+    }
+    if (type && !REDDIT_ACTION_TYPES.includes(type as RedditAction['type'])) {
+      errors.push(`type must be one of: ${REDDIT_ACTION_TYPES.join(', ')}`);
+    }
+    if (suggestionType && !ENGAGEMENT_SUGGESTION_TYPES.includes(suggestionType as EngagementSuggestion['type'])) {
+      errors.push(`suggestionType must be one of: ${ENGAGEMENT_SUGGESTION_TYPES.join(', ')}`);
+    }
+    if (userEdited && userEdited !== 'true' && userEdited !== 'false') {
+      errors.push('userEdited must be true or false');
+    }
+    const sinceDate = since ? new Date(since) : undefined;
+    const untilDate = until ? new Date(until) : undefined;
+    if (sinceDate && isNaN(sinceDate.getTime())) errors.push('since must be a date');
+    if (untilDate && isNaN(untilDate.getTime())) errors.push('until must be a date');
+
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid history filter',
+        details: errors
+      });
+    }
+
+    const actions = await ActionService.listHistory(req.user!.redditId, {
+      status: status as ActionStatus | undefined,
+      type,
+      subreddit: req.query.subreddit as string | undefined,
+      suggestionType,
+      userEdited: userEdited === undefined ? undefined : userEdited === 'true',
+      since: sinceDate,
+      until: untilDate,
+      limit: Math.min(parseInt(req.query.limit as string) || 50, 200)
+    });
+
+    res.json({
+      success: true,
+      actions,
+      count: actions.length
+    });
+  } catch (error) {
+    console.error('Action history fetch error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch action history'
+    });
+  }
+});
+
+/**
+ * GET /api/actions/performance
+ * Compare how copilot posts and comments did at one checkpoint, by subreddit or suggestion type
+ */
+router.get('/performance', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const groupBy = (req.query.groupBy as string) || 'subreddit';
+    const checkpoint = (req.query.checkpoint as string) || '24h';
+    const type = req.query.type as string | undefined;
+    const checkpoints = PERFORMANCE_CHECKPOINTS.map(c => c.name);
+    const errors: string[] = [];
+
+    if (!PERFORMANCE_GROUPINGS.includes(groupBy as PerformanceGrouping)) {
+      errors.push(`groupBy must be one of: ${PERFORMANCE_GROUPINGS.join(', ')}`);
+    }
+    if (!checkpoints.includes(checkpoint as PerformanceCheckpoint)) {
+      errors.push(`checkpoint must be one of: ${checkpoints.join(', ')}`);
+    }
+    if (type && !REDDIT_ACTION_TYPES.includes(type as RedditAction['type'])) {
+      errors.push(`type must be one of: ${REDDIT_ACTION_TYPES.join(', ')}`);
+    }
+
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid performance options',
+        details: errors
+      });
+    }
+
+    const groups = await PerformanceService.getStats(req.user!.redditId, {
+      groupBy: groupBy as PerformanceGrouping,
+      checkpoint: checkpoint as PerformanceCheckpoint,
+      type
+    });
+
+    res.json({
+      success: true,
+      groupBy,
+      checkpoint,
+      groups
+    });
+  } catch (error) {
+    console.error('Action performance fetch error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch performance stats'
+    });
+  }
+});
+
+/**
+ * GET /api/actions/removals
+ * Get how much of the user's copilot content was removed or hidden, per subreddit. With
+ * `subreddit`, `warning` says whether to think twice before posting there again.
+ */
+router.get('/removals', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const subreddit = (req.query.subreddit as string | undefined)?.replace(/^r\//i, '');
+    const summaries = await RemovalChecker.getSummaries(req.user!.redditId, subreddit);
+
+    res.json({
+      success: true,
+      subreddits: summaries,
+      warning: subreddit ? summaries[0]?.warning || null : null
+    });
+  } catch (error) {
+    console.error('Removal summary fetch error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch removal summary'
+    });
+  }
+});
+
+/**
+ * POST /api/actions/:id/check-visibility
+ * Check right away whether a post or comment can be seen by other users
+ */
+router.post('/:id/check-visibility', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const redditId = req.user!.redditId;
+    const action = await ActionService.getAction(redditId, req.params.id);
+
+    if (!action) {
+      return res.status(404).json({
+        success: false,
+        error: 'Action not found'
+      });
+    }
+    if (action.status !== 'posted') {
+      return res.status(400).json({
+        success: false,
+        error: 'This action never made it to Reddit'
+      });
+    }
+    if (action.targetId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Edits and deletes have nothing of their own to check; check the original instead'
+      });
+    }
+
+    const visibility = await RemovalChecker.checkAction(redditId, action);
+    if (!visibility) {
+      return res.status(502).json({
+        success: false,
+        error: 'Reddit could not be reached logged out; try again later'
+      });
+    }
+
+    res.json({ success: true, visibility });
+  } catch (error) {
+    console.error('Visibility check error:', error);
+    if (respondIfReauthRequired(error, res)) return;
+    res.status(500).json({
+      success: false,
+      error: 'Failed to check visibility'
+    });
+  }
+});
+
+/**
+ * GET /api/actions/:id/performance
+ * Get the snapshots taken of one post or comment since it went up
+ */
+router.get('/:id/performance', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const timeline = await PerformanceService.getTimeline(req.user!.redditId, req.params.id);
+
+    if (!timeline) {
+      return res.status(404).json({
+        success: false,
+        error: 'Action not found'
+      });
+    }
+
+    res.json({ success: true, ...timeline });
+  } catch (error) {
+    console.error('Action timeline fetch error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch performance timeline'
+    });
+  }
+});
+
+/**
+ * PATCH /api/actions/:id
+ * Edit the text of a self post or comment posted through the copilot
+ */
+router.patch('/:id', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { content } = req.body;
+
+    if (typeof content !== 'string' || !content.trim() || content.length > MAX_CONTENT_LENGTH) {
+      return res.status(400).json({
+        success: false,
+        error: `content is required and must be at most ${MAX_CONTENT_LENGTH} characters`
+      });
+    }
+
+    const action = await ActionService.editAction(req.user!.redditId, req.params.id, content);
+    if (!action) {
+      return res.status(404).json({
+        success: false,
+        error: 'Action not found'
+      });
+    }
+
+    res.json({ success: true, action });
+  } catch (error) {
+    if (respondIfInvalid(error, res)) return;
+    console.error('Action edit error:', error);
+    if (respondIfReauthRequired(error, res)) return;
+    res.status(500).json({
+      success: false,
+      error: 'Failed to edit content',
+      details: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
+
+/**
+ * DELETE /api/actions/:id
+ * Delete a post or comment posted through the copilot from Reddit
+ */
+router.delete('/:id', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const action = await ActionService.deleteAction(req.user!.redditId, req.params.id);
+    if (!action) {
+      return res.status(404).json({
+        success: false,
+        error: 'Action not found'
+      });
+    }
+
+    res.json({ success: true, action });
+  } catch (error) {
+    if (respondIfInvalid(error, res)) return;
+    console.error('Action delete error:', error);
+    if (respondIfReauthRequired(error, res)) return;
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete content',
+      details: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,257 @@
+import { Router } from 'express';
+import { authenticateUser, AuthenticatedRequest, respondIfReauthRequired } from '../middleware/auth';
+import { ContentFilterService } from '../services/contentFilter';
+import { SavedSearchService, SavedSearchInput } from '../services/savedSearches';
+import { AlertScheduler } from '../services/alertScheduler';
+
+const router = Router();
+
+const SUBREDDIT_NAME = /^[A-Za-z0-9_]{2,21}$/;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_SUBREDDITS = 25;
+
+/**
+ * Validate the body of a create/update request for a saved search.
+ * On update every field is optional.
+ */
+function parseSavedSearchBody(body: any, partial: boolean): { input?: Partial<SavedSearchInput>; errors: string[] } {
+  const errors: string[] = [];
+  const input: Partial<SavedSearchInput> = {};
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      errors.push('name is required');
+    } else {
+      input.name = body.name.trim().slice(0, 100);
+    }
+  }
+
+  if (body.filter !== undefined || !partial) {
+    const { filter, errors: filterErrors } = ContentFilterService.validateFilter(body.filter);
+    errors.push(...filterErrors);
+    input.filter = filter;
+  }
+
+  if (body.subreddits !== undefined || !partial) {
+    const subreddits = Array.isArray(body.subreddits)
+      ? body.subreddits.map((name: unknown) => String(name).trim().replace(/^r\//i, ''))
+      : [];
+
+    if (subreddits.length === 0 || subreddits.length > MAX_SUBREDDITS) {
+      errors.push(`subreddits must list between 1 and ${MAX_SUBREDDITS} subreddits`);
+    } else if (subreddits.some((name: string) => !SUBREDDIT_NAME.test(name))) {
+      errors.push('subreddits contains an invalid subreddit name');
+    } else {
+      input.subreddits = Array.from(new Set(subreddits));
+    }
+  }
+
+  if (body.webhookUrl !== undefined && body.webhookUrl !== null && body.webhookUrl !== '') {
+    try {
+      const url = new URL(body.webhookUrl);
+      if (url.protocol !== 'https:' && url.protocol !== 'http:') throw new Error();
+      input.webhookUrl = url.toString();
+    } catch {
+      errors.push('webhookUrl must be an http(s) URL');
+    }
+  } else if (body.webhookUrl !== undefined) {
+    input.webhookUrl = null;
+  }
+
+  if (body.email !== undefined && body.email !== null && body.email !== '') {
+    if (typeof body.email !== 'string' || !EMAIL.test(body.email)) {
+      errors.push('email must be an email address');
+    } else {
+      input.email = body.email;
+    }
+  } else if (body.email !== undefined) {
+    input.email = null;
+  }
+
+  return errors.length > 0 ? { errors } : { input, errors };
+}
+
+/**
+ * GET /api/alerts
+ * Get posts that newly matched the user's saved searches, newest first
+ */
+router.get('/', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const alerts = await SavedSearchService.listAlerts(req.user!.redditId, {
+      unreadOnly: req.query.unread === 'true',
+      limit: Math.min(parseInt(req.query.limit as string) || 50, 200)
+    });
+
+    res.json({
+      success: true,
+      alerts,
+      count: alerts.length
+    });
+  } catch (error) {
+    console.error('Alerts fetch error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch alerts'
+    });
+  }
+});
+
+/**
+ * POST /api/alerts/read
+ * Mark alerts as read; all unread alerts when no `ids` are given
+ */
+router.post('/read', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { ids } = req.body;
+
+    if (ids !== undefined && (!Array.isArray(ids) || ids.some(id => typeof id !== 'string'))) {
+      return res.status(400).json({
+        success: false,
+        error: 'ids must be an array of alert IDs'
+      });
+    }
+
+    const updated = await SavedSearchService.markAlertsRead(req.user!.redditId, ids);
+    res.json({ success: true, updated });
+  } catch (error) {
+    console.error('Alerts update error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update alerts'
+    });
+  }
+});
+
+/**
+ * GET /api/alerts/searches
+ * Get the user's saved searches
+ */
+router.get('/searches', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const searches = await SavedSearchService.listSearches(req.user!.redditId);
+    res.json({ success: true, searches });
+  } catch (error) {
+    console.error('Saved searches fetch error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch saved searches'
+    });
+  }
+});
+
+/**
+ * POST /api/alerts/searches
+ * Save a search: a content filter run over a set of subreddits
+ */
+router.post('/searches', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { input, errors } = parseSavedSearchBody(req.body, false);
+
+    if (!input) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid saved search',
+        details: errors
+      });
+    }
+
+    const search = await SavedSearchService.createSearch(req.user!.redditId, input as SavedSearchInput);
+    res.status(201).json({ success: true, search });
+  } catch (error) {
+    console.error('Saved search create error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to save search'
+    });
+  }
+});
+
+/**
+ * PUT /api/alerts/searches/:id
+ * Update a saved search
+ */
+router.put('/searches/:id', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { input, errors } = parseSavedSearchBody(req.body, true);
+
+    if (!input) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid saved search',
+        details: errors
+      });
+    }
+
+    const search = await SavedSearchService.updateSearch(req.user!.redditId, req.params.id, input);
+
+    if (!search) {
+      return res.status(404).json({
+        success: false,
+        error: 'Saved search not found'
+      });
+    }
+
+    res.json({ success: true, search });
+  } catch (error) {
+    console.error('Saved search update error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update saved search'
+    });
+  }
+});
+
+/**
+ * DELETE /api/alerts/searches/:id
+ * Delete a saved search and its alerts
+ */
+router.delete('/searches/:id', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const deleted = await SavedSearchService.deleteSearch(req.user!.redditId, req.params.id);
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: 'Saved search not found'
+      });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Saved search delete error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete saved search'
+    });
+  }
+});
+
+/**
+ * POST /api/alerts/searches/:id/run
+ * Run a saved search now instead of waiting for the scheduler
+ */
+router.post('/searches/:id/run', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const search = (await SavedSearchService.listSearches(req.user!.redditId))
+      .find(s => s.id === req.params.id);
+
+    if (!search) {
+      return res.status(404).json({
+        success: false,
+        error: 'Saved search not found'
+      });
+    }
+
+    const alerts = await AlertScheduler.runSearch(req.user!.redditId, req.user!.username, search);
+    res.json({ success: true, alerts, count: alerts.length });
+  } catch (error) {
+    console.error('Saved search run error:', error);
+    if (respondIfReauthRequired(error, res)) return;
+    res.status(500).json({
+      success: false,
+      error: 'Failed to run saved search'
+    });
+  }
+});
+
+export default router;
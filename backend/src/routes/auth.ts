@@ -1,12 +1,41 @@
 import { Router, Request, Response } from 'express';
 import { RedditService } from '../services/reddit';
+import { SessionService } from '../services/session';
+import { OAuthStateService, OAUTH_VERIFIER_COOKIE } from '../services/oauthState';
+import { authenticateUser, AuthenticatedRequest } from '../middleware/auth';
 
 const router = Router();
 
+// Issue a single-use state and bind it to this browser with an HttpOnly cookie
+async function startOAuthFlow(res: Response): Promise<string> {
+  const { state, verifier } = await OAuthStateService.issueState();
+
+  res.cookie(OAUTH_VERIFIER_COOKIE, verifier, {
+    httpOnly: true,
+    sameSite: 'lax', // Still sent on Reddit's top-level redirect back to the callback
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: 10 * 60 * 1000,
+    path: '/auth/reddit'
+  });
+
+  return RedditService.getAuthUrl(state);
+}
+
+function readCookie(req: Request, name: string): string | undefined {
+  const header = req.headers.cookie;
+  if (!header) return undefined;
+
+  for (const part of header.split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) return decodeURIComponent(value.join('='));
+  }
+  return undefined;
+}
+
 // Get Reddit OAuth URL
-router.get('/reddit/url', (req: Request, res: Response) => {
+router.get('/reddit/url', async (req: Request, res: Response) => {
   try {
-    const authUrl = RedditService.getAuthUrl();
+    const authUrl = await startOAuthFlow(res);
     res.json({ authUrl });
   } catch (error) {
     console.error('Error generating auth URL:', error);
@@ -14,10 +43,33 @@ router.get('/reddit/url', (req: Request, res: Response) => {
   }
 });
 
+// Redirect the browser straight to Reddit (used by the frontend sign-in button)
+router.get('/reddit/login', async (req: Request, res: Response) => {
+  try {
+    const authUrl = await startOAuthFlow(res);
+    res.redirect(authUrl);
+  } catch (error) {
+    console.error('Error starting Reddit login:', error);
+    res.status(500).json({ error: 'Failed to start Reddit login' });
+  }
+});
+
 // Handle Reddit OAuth callback
 router.get('/reddit/callback', async (req: Request, res: Response) => {
   try {
-    const { code, error } = req.query;
+    const { code, error, state } = req.query;
+
+    // The verifier cookie is single-use whatever the outcome
+    res.clearCookie(OAUTH_VERIFIER_COOKIE, { path: '/auth/reddit' });
+
+    const stateCheck = await OAuthStateService.consumeState(
+      typeof state === 'string' ? state : undefined,
+      readCookie(req, OAUTH_VERIFIER_COOKIE)
+    );
+
+    if (stateCheck !== 'valid') {
+      return res.status(403).json({ error: 'Invalid OAuth state', reason: stateCheck });
+    }
 
     if (error) {
       return res.status(400).json({ error: 'Reddit OAuth error', details: error });
@@ -28,7 +80,7 @@ router.get('/reddit/callback', async (req: Request, res: Response) => {
     }
 
     // Exchange code for tokens
-    const { accessToken, refreshToken } = await RedditService.exchangeCodeForTokens(code);
+    const { accessToken, refreshToken, expiresIn } = await RedditService.exchangeCodeForTokens(code);
     
     // Get user info to save
     const tempReddit = new (await import('snoowrap')).default({
@@ -43,7 +95,10 @@ router.get('/reddit/callback', async (req: Request, res: Response) => {
     const me = await mePromise;
     
     // Save user and tokens
-    await RedditService.saveUserTokens(me.id, me.name, accessToken, refreshToken);
+    await RedditService.saveUserTokens(me.id, me.name, accessToken, refreshToken, expiresIn);
+
+    // Issue an app session so the Reddit ID itself is never used as a credential
+    const session = await SessionService.createSession(me.id);
 
     res.json({ 
       success: true, 
@@ -51,7 +106,8 @@ router.get('/reddit/callback', async (req: Request, res: Response) => {
         redditId: me.id, 
         username: me.name 
       },
-      message: 'Authentication successful. Use the redditId in x-reddit-id header for subsequent requests.'
+      session,
+      message: 'Authentication successful. Send the sessionToken as "Authorization: Bearer <token>" for subsequent requests.'
     });
   } catch (error) {
     console.error('OAuth callback error:', error);
@@ -59,4 +115,37 @@ router.get('/reddit/callback', async (req: Request, res: Response) => {
   }
 });
 
+// Exchange a refresh token for a new session (the old one is revoked)
+router.post('/refresh', async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      return res.status(400).json({ error: 'Refresh token required' });
+    }
+
+    const session = await SessionService.rotateSession(refreshToken);
+
+    if (!session) {
+      return res.status(401).json({ error: 'Refresh token expired or revoked' });
+    }
+
+    res.json({ success: true, session });
+  } catch (error) {
+    console.error('Session refresh error:', error);
+    res.status(500).json({ error: 'Failed to refresh session', details: error.message });
+  }
+});
+
+// Revoke the current session
+router.post('/logout', authenticateUser, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    await SessionService.revokeSession(req.sessionId!);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'Failed to log out', details: error.message });
+  }
+});
+
 export default router;
\ No newline at end of file
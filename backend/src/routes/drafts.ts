@@ -0,0 +1,322 @@
+import { Router, Response } from 'express';
+import { AuthenticatedRequest, authenticateUser, respondIfReauthRequired } from '../middleware/auth';
+import { RedditActionValidationError } from '../services/reddit';
+import { ActionService } from '../services/actions';
+import {
+  DraftService,
+  DraftStateError,
+  DraftStatus,
+  DRAFT_TYPES,
+  DRAFT_STATUSES,
+  DRAFT_REVISION_SOURCES
+} from '../services/drafts';
+import { diffWords } from '../services/textDiff';
+
+const router = Router();
+
+const MAX_CONTENT_LENGTH = 40000;
+const MAX_TITLE_LENGTH = 300;
+
+/**
+ * Check the fields of a draft in a request body. `creating` also requires the fields that
+ * can't change later: type, subreddit and, for comments, what's being replied to.
+ */
+function validateDraft(body: any, creating: boolean): string[] {
+  const errors: string[] = [];
+
+  if (creating) {
+    if (!DRAFT_TYPES.includes(body.type)) {
+      errors.push(`type must be one of: ${DRAFT_TYPES.join(', ')}`);
+    }
+    if (typeof body.subreddit !== 'string' || !body.subreddit.trim()) {
+      errors.push('subreddit is required');
+    }
+    if (body.type === 'comment' && !/^t[13]_[a-z0-9]+$/i.test(body.parentId || '')) {
+      errors.push('Comment drafts need a parentId: the t3_ post or t1_ comment being replied to');
+    }
+    if (body.postId !== undefined && typeof body.postId !== 'string') {
+      errors.push('postId must be a string');
+    }
+  }
+
+  if (typeof body.content !== 'string') {
+    errors.push('content is required');
+  } else if (body.content.length > MAX_CONTENT_LENGTH) {
+    errors.push(`content must be at most ${MAX_CONTENT_LENGTH} characters`);
+  }
+  if (body.title !== undefined && (typeof body.title !== 'string' || body.title.length > MAX_TITLE_LENGTH)) {
+    errors.push(`title must be a string of at most ${MAX_TITLE_LENGTH} characters`);
+  }
+  if (body.source !== undefined && !DRAFT_REVISION_SOURCES.includes(body.source)) {
+    errors.push(`source must be one of: ${DRAFT_REVISION_SOURCES.join(', ')}`);
+  }
+  errors.push(...ActionService.validateSuggestion(body.suggestion));
+
+  return errors;
+}
+
+/**
+ * Send the 409 for drafts that are being or have been published; anything else is for the caller
+ */
+function respondIfLocked(error: unknown, res: Response): boolean {
+  if (!(error instanceof DraftStateError)) return false;
+  res.status(409).json({
+    success: false,
+    error: error.message
+  });
+  return true;
+}
+
+/**
+ * GET /api/drafts
+ * Get drafts, most recently saved first. Defaults to the ones not yet published.
+ */
+router.get('/', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const statuses = req.query.status ? String(req.query.status).split(',') : ['draft', 'publishing'];
+    const unknownStatuses = statuses.filter(status => !DRAFT_STATUSES.includes(status as DraftStatus));
+
+    if (unknownStatuses.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown status: ${unknownStatuses.join(', ')}. Valid statuses: ${DRAFT_STATUSES.join(', ')}`
+      });
+    }
+
+    const drafts = await DraftService.list(req.user!.redditId, {
+      statuses: statuses as DraftStatus[],
+      postId: req.query.postId as string | undefined,
+      subreddit: req.query.subreddit as string | undefined,
+      limit: Math.min(parseInt(req.query.limit as string) || 50, 200)
+    });
+
+    res.json({
+      success: true,
+      drafts,
+      count: drafts.length
+    });
+  } catch (error) {
+    console.error('Drafts fetch error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch drafts'
+    });
+  }
+});
+
+/**
+ * POST /api/drafts
+ * Start a draft post or comment
+ */
+router.post('/', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const errors = validateDraft(req.body, true);
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid draft',
+        details: errors
+      });
+    }
+
+    const { type, subreddit, postId, parentId, title, content, suggestion, source } = req.body;
+    const draft = await DraftService.create(req.user!.redditId, {
+      type,
+      subreddit: subreddit.trim().replace(/^r\//i, ''),
+      postId,
+      parentId: type === 'comment' ? parentId : undefined,
+      title,
+      content,
+      suggestion: suggestion || undefined,
+      source
+    });
+
+    res.status(201).json({ success: true, draft });
+  } catch (error) {
+    console.error('Draft creation error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create draft'
+    });
+  }
+});
+
+/**
+ * GET /api/drafts/:id
+ * Get a draft with its revision history
+ */
+router.get('/:id', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const draft = await DraftService.get(req.user!.redditId, req.params.id);
+    if (!draft) {
+      return res.status(404).json({
+        success: false,
+        error: 'Draft not found'
+      });
+    }
+
+    res.json({ success: true, draft });
+  } catch (error) {
+    console.error('Draft fetch error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch draft'
+    });
+  }
+});
+
+/**
+ * PATCH /api/drafts/:id
+ * Save a draft's text. Autosaves from the same editing session fold into one revision.
+ */
+router.patch('/:id', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const errors = validateDraft(req.body, false);
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid draft',
+        details: errors
+      });
+    }
+
+    const { title, content, source, suggestion } = req.body;
+    const draft = await DraftService.save(req.user!.redditId, req.params.id, { title, content, source, suggestion });
+    if (!draft) {
+      return res.status(404).json({
+        success: false,
+        error: 'Draft not found'
+      });
+    }
+
+    res.json({ success: true, draft });
+  } catch (error) {
+    if (respondIfLocked(error, res)) return;
+    console.error('Draft save error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to save draft'
+    });
+  }
+});
+
+/**
+ * GET /api/drafts/:id/diff
+ * Word-level diff between two revisions, by default the latest one and the one before it
+ */
+router.get('/:id/diff', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const draft = await DraftService.get(req.user!.redditId, req.params.id);
+    if (!draft) {
+      return res.status(404).json({
+        success: false,
+        error: 'Draft not found'
+      });
+    }
+
+    const revisions = draft.revisions!;
+    const find = (id: unknown, fallback: number) => (id ? revisions.find(revision => revision.id === id) : revisions[fallback]);
+    const to = find(req.query.to, revisions.length - 1);
+    const from = find(req.query.from, revisions.indexOf(to!) - 1);
+
+    if ((req.query.to && !to) || (req.query.from && !from)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Revision not found in this draft'
+      });
+    }
+
+    res.json({
+      success: true,
+      from: from || null,
+      to,
+      title: diffWords(from?.title || '', to!.title),
+      content: diffWords(from?.content || '', to!.content)
+    });
+  } catch (error) {
+    console.error('Draft diff error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to diff draft revisions'
+    });
+  }
+});
+
+/**
+ * POST /api/drafts/:id/publish
+ * Post a draft to Reddit the same way POST /api/actions does. Posts can take `flairId` and `flairText`.
+ */
+router.post('/:id/publish', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  const redditId = req.user!.redditId;
+  let claimed = false;
+
+  try {
+    const draft = await DraftService.claim(redditId, req.params.id);
+    if (!draft) {
+      return res.status(404).json({
+        success: false,
+        error: 'Draft not found'
+      });
+    }
+    claimed = true;
+
+    const { flairId, flairText } = req.body || {};
+    const action = {
+      ...DraftService.toRedditAction(draft),
+      ...(draft.type === 'post' && flairId && { flairId, flairText })
+    };
+    const { result, action: recorded } = await ActionService.execute(redditId, action, draft.suggestion || undefined);
+    // It's on Reddit now, so whatever fails next mustn't make the draft publishable again
+    claimed = false;
+
+    await DraftService.release(draft.id, recorded?.id || null);
+    res.json({ ...result, action: recorded, draft: await DraftService.get(redditId, draft.id) });
+  } catch (error) {
+    if (claimed) {
+      await DraftService.release(req.params.id)
+        .catch(releaseError => console.error('Failed to release draft after publish error:', releaseError));
+    }
+    if (respondIfLocked(error, res)) return;
+    if (error instanceof RedditActionValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid draft',
+        details: error.errors
+      });
+    }
+    console.error('Draft publish error:', error);
+    if (respondIfReauthRequired(error, res)) return;
+    res.status(500).json({
+      success: false,
+      error: 'Failed to publish draft',
+      details: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
+
+/**
+ * DELETE /api/drafts/:id
+ * Discard a draft and its revisions
+ */
+router.delete('/:id', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const deleted = await DraftService.delete(req.user!.redditId, req.params.id);
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: 'Draft not found'
+      });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    if (respondIfLocked(error, res)) return;
+    console.error('Draft deletion error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete draft'
+    });
+  }
+});
+
+export default router;
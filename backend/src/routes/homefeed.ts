@@ -1,9 +1,18 @@
 import { Router } from 'express';
-import { RedditService } from '../services/reddit';
+import { RedditService, RedditActionValidationError } from '../services/reddit';
 import { OpenAIService } from '../services/openai';
-import { authenticateUser, AuthenticatedRequest } from '../middleware/auth';
-import { ContentFilterService, FILTER_PRESETS, BUSINESS_CATEGORIES } from '../services/contentFilter';
+import { authenticateUser, AuthenticatedRequest, respondIfReauthRequired } from '../middleware/auth';
+import { Prisma } from '@prisma/client';
+import { ContentFilterService, FILTER_PRESETS, BUSINESS_CATEGORIES, INTENT_SIGNALS } from '../services/contentFilter';
+import { CustomFilterService, CustomFilterInput } from '../services/customFilters';
+import { FeedQueryService, FeedQuerySyntaxError, PostPredicate } from '../services/feedQuery';
 import { getSubredditData } from '../services/subredditData';
+import { RedditReauthRequiredError } from '../services/tokenManager';
+import { FeedSyncService, FeedPage, SUBSCRIPTION_WEIGHTS, SubscriptionWeight } from '../services/feedSync';
+import { WebhookService } from '../services/webhooks';
+import { LeadService } from '../services/leads';
+import { ActionService } from '../services/actions';
+import { DraftService } from '../services/drafts';
 
 const router = Router();
 
@@ -141,76 +150,89 @@ function generateMockPosts(targetSubreddit?: string) {
 
 /**
  * GET /api/homefeed
- * Get home feed posts from user's subscribed subreddits with filtering
+ * Get home feed posts from the locally synced store, newest first, with filtering.
+ * Pass the returned `nextAfter` as `after` to get the next page.
  */
 router.get('/', authenticateUser, async (req: AuthenticatedRequest, res) => {
   try {
     const redditId = req.user!.redditId;
-    const limit = parseInt(req.query.limit as string) || 200;
-    const filterPreset = req.query.filter as string || 'business_opportunities';
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const after = req.query.after as string | undefined;
+    const query = req.query.q as string | undefined;
+    // A query replaces the default preset; an explicit filter still ranks the query's matches
+    const filterPreset = req.query.filter as string || (query ? undefined : 'business_opportunities');
     const subredditFilter = req.query.subreddit as string;
 
-    let rawPosts;
+    let matchesQuery: PostPredicate | null;
     try {
-      // Get raw posts
-      rawPosts = await RedditService.getHomeFeed(redditId, limit * 2); // Get more to have enough after filtering
-      
-      // If no posts returned, throw an error to prevent empty feeds
-      if (!rawPosts || rawPosts.length === 0) {
-        throw new Error('No posts returned from Reddit API');
+      matchesQuery = query ? FeedQueryService.compile(query) : null;
+    } catch (error) {
+      if (error instanceof FeedQuerySyntaxError) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid query',
+          details: error.toJSON()
+        });
+      }
+      throw error;
+    }
+
+    // Built-in presets and the user's own saved filters share one ID space
+    const preset = subredditFilter || !filterPreset ? null : await CustomFilterService.resolvePreset(redditId, filterPreset);
+    // Saved filters can be deleted, so a stale ID is expected; don't pass off an unfiltered feed as filtered
+    if (!subredditFilter && filterPreset && !preset) {
+      return res.status(404).json({
+        success: false,
+        error: 'Filter preset not found'
+      });
+    }
+
+    let page: FeedPage;
+    try {
+      await FeedSyncService.ensureSynced(redditId);
+
+      page = await FeedSyncService.getFeedPage(redditId, {
+        after,
+        limit,
+        subreddit: subredditFilter,
+        select: preset || matchesQuery ? posts => {
+          const matched = matchesQuery ? posts.filter(matchesQuery) : posts;
+          return preset ? ContentFilterService.filterPosts(matched, preset.filter) : matched;
+        } : undefined
+      });
+
+      // Subreddits outside the user's subscriptions aren't synced; fetch them directly (this also stores them)
+      if (subredditFilter && !after && page.posts.length === 0) {
+        console.log(`No stored posts for r/${subredditFilter}, fetching directly...`);
+        const directPosts = await RedditService.getSubredditPosts(redditId, subredditFilter, 'new', limit);
+        page = { posts: directPosts, nextAfter: null, scanned: directPosts.length };
       }
-      
-      console.log(`Successfully fetched ${rawPosts.length} posts from Reddit`);
     } catch (error) {
-      console.error('Failed to fetch from Reddit:', error);
+      console.error('Failed to read home feed:', error);
       
       // Re-throw authentication errors so they can be handled properly
-      if (error.message?.includes('User not found') || error.message?.includes('access_token')) {
+      if (error instanceof RedditReauthRequiredError || error.message?.includes('User not found') || error.message?.includes('access_token')) {
         throw error;
       }
       
       // Only use fallback for network issues, not auth issues
       console.warn('Using fallback mock data due to network issues');
-      rawPosts = generateMockPosts(subredditFilter);
-    }
-    
-    let filteredPosts;
-    
-    if (subredditFilter) {
-      // Filter by specific subreddit - if we already have targeted posts, use them
-      filteredPosts = rawPosts.filter(post => 
-        post.subreddit.toLowerCase().replace('r/', '') === subredditFilter.toLowerCase().replace('r/', '')
-      );
-      
-      // If no posts found for this specific subreddit, try to fetch directly
-      if (filteredPosts.length === 0) {
-        console.log(`No posts found for r/${subredditFilter} in home feed, fetching directly...`);
-        try {
-          const directPosts = await RedditService.getSubredditPosts(redditId, subredditFilter, 'new', 50);
-          filteredPosts = directPosts;
-          console.log(`Fetched ${directPosts.length} posts directly from r/${subredditFilter}`);
-        } catch (error) {
-          console.error(`Failed to fetch direct posts from r/${subredditFilter}:`, error);
-          filteredPosts = generateMockPosts(subredditFilter);
-        }
-      }
-    } else {
-      // Apply content filtering
-      filteredPosts = ContentFilterService.getFilteredFeed(rawPosts, filterPreset);
+      const mockPosts = generateMockPosts(subredditFilter);
+      page = { posts: mockPosts, nextAfter: null, scanned: mockPosts.length };
     }
     
-    // Limit final results
-    const finalPosts = filteredPosts.slice(0, limit);
-    
     res.json({
       success: true,
-      posts: finalPosts,
-      count: finalPosts.length,
-      totalScanned: rawPosts.length,
-      filterApplied: subredditFilter ? `subreddit:${subredditFilter}` : filterPreset
+      posts: page.posts,
+      count: page.posts.length,
+      totalScanned: page.scanned,
+      nextAfter: page.nextAfter,
+      filterApplied: subredditFilter ? `subreddit:${subredditFilter}` : filterPreset,
+      query: query || null
     });
   } catch (error) {
     console.error('Home feed error:', error);
+    if (respondIfReauthRequired(error, res)) return;
     if (error instanceof Error) {
       res.status(500).json({
         success: false,
@@ -246,14 +268,13 @@ router.post('/engagement-suggestions', authenticateUser, async (req: Authenticat
     // Get user profile for context
     const userProfile = await RedditService.getUserProfile(redditId);
     
-    // Get the specific post from home feed
-    const homeFeed = await RedditService.getHomeFeed(redditId, 100);
-    const post = homeFeed.find(p => p.id === postId);
+    // Get the specific post (local store first, then Reddit)
+    const post = await RedditService.getPostById(redditId, postId);
     
     if (!post) {
       return res.status(404).json({
         success: false,
-        error: 'Post not found in home feed'
+        error: 'Post not found'
       });
     }
 
@@ -284,6 +305,7 @@ router.post('/engagement-suggestions', authenticateUser, async (req: Authenticat
     });
   } catch (error) {
     console.error('Engagement suggestions error:', error);
+    if (respondIfReauthRequired(error, res)) return;
     if (error instanceof Error) {
       res.status(500).json({
         success: false,
@@ -307,7 +329,7 @@ router.post('/engagement-suggestions', authenticateUser, async (req: Authenticat
 router.post('/improve-comment', authenticateUser, async (req: AuthenticatedRequest, res) => {
   try {
     const redditId = req.user!.redditId;
-    const { postId, userComment } = req.body;
+    const { postId, userComment, draftId } = req.body;
 
     if (!postId || !userComment) {
       return res.status(400).json({
@@ -318,8 +340,7 @@ router.post('/improve-comment', authenticateUser, async (req: AuthenticatedReque
 
     // Get user profile and post
     const userProfile = await RedditService.getUserProfile(redditId);
-    const homeFeed = await RedditService.getHomeFeed(redditId, 100);
-    const post = homeFeed.find(p => p.id === postId);
+    const post = await RedditService.getPostById(redditId, postId);
 
     if (!post) {
       return res.status(404).json({
@@ -344,10 +365,21 @@ router.post('/improve-comment', authenticateUser, async (req: AuthenticatedReque
       subredditRules
     );
 
+    // Keep both versions in the draft's history so the rewrite can be compared and undone
+    const draft = draftId
+      ? await DraftService.save(redditId, draftId, { content: userComment, source: 'user' })
+        .then(() => DraftService.save(redditId, draftId, { content: improvedComment.content, source: 'ai_refined' }))
+        .catch(error => {
+          console.error('Failed to save refined comment to draft:', error);
+          return null;
+        })
+      : null;
+
     res.json({
       success: true,
       originalComment: userComment,
       improvedComment,
+      draft,
       post: {
         id: post.id,
         title: post.title,
@@ -356,6 +388,7 @@ router.post('/improve-comment', authenticateUser, async (req: AuthenticatedReque
     });
   } catch (error) {
     console.error('Input refinement error:', error);
+    if (respondIfReauthRequired(error, res)) return;
     if (error instanceof Error) {
       res.status(500).json({
         success: false,
@@ -405,12 +438,13 @@ router.get('/subreddit-rules/:subreddit', authenticateUser, async (req: Authenti
 
 /**
  * POST /api/homefeed/comment
- * Post a comment to Reddit using refined suggestion
+ * Post a comment to Reddit using refined suggestion. Replies to the post itself, or to
+ * one of its comments when `parentId` is a t1_ fullname.
  */
 router.post('/comment', authenticateUser, async (req: AuthenticatedRequest, res) => {
   try {
     const redditId = req.user!.redditId;
-    const { postId, content } = req.body;
+    const { postId, parentId, content, suggestion, draftId } = req.body;
 
     if (!postId || !content) {
       return res.status(400).json({
@@ -419,6 +453,27 @@ router.post('/comment', authenticateUser, async (req: AuthenticatedRequest, res)
       });
     }
 
+    const post = RedditService.parseParentId(String(postId));
+    const parent = parentId ? RedditService.parseParentId(String(parentId)) : post;
+
+    if (!post || post.kind !== 'post' || !parent) {
+      return res.status(400).json({
+        success: false,
+        error: 'postId must be a post ID and parentId a post (t3_) or comment (t1_) fullname'
+      });
+    }
+
+    const suggestionErrors = ActionService.validateSuggestion(suggestion);
+    if (suggestionErrors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid comment',
+        details: suggestionErrors
+      });
+    }
+
+    const parentFullname = `${parent.kind === 'comment' ? 't1' : 't3'}_${parent.id}`;
+
     // Create comment action
     const action = {
       id: `comment_${Date.now()}`,
@@ -426,17 +481,43 @@ router.post('/comment', authenticateUser, async (req: AuthenticatedRequest, res)
       title: '',
       content,
       targetSubreddit: '',
-      parentId: postId
+      parentId: parentFullname
     };
 
-    const result = await RedditService.executeAction(redditId, action);
+    const { result, action: recorded } = await ActionService.execute(redditId, action, suggestion || undefined);
+
+    if (draftId) {
+      DraftService.markPublished(redditId, String(draftId), recorded?.id || null)
+        .catch(error => console.error('Failed to mark draft published:', error));
+    }
+
+    WebhookService.emit(redditId, 'comment.posted', {
+      postId: post.id,
+      parentId: parentFullname,
+      commentId: result.redditId,
+      url: result.url,
+      content
+    }).catch(error => console.error('Failed to queue comment.posted webhook:', error));
+    LeadService.linkComment(redditId, post.id, {
+      commentId: result.redditId,
+      url: result.url,
+      content
+    }).catch(error => console.error('Failed to link comment to lead:', error));
 
     res.json({
       success: true,
       result
     });
   } catch (error) {
+    if (error instanceof RedditActionValidationError) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid comment',
+        details: error.errors
+      });
+    }
     console.error('Comment posting error:', error);
+    if (respondIfReauthRequired(error, res)) return;
     if (error instanceof Error) {
       res.status(500).json({
         success: false,
@@ -477,17 +558,22 @@ router.get('/subreddits', authenticateUser, async (req: AuthenticatedRequest, re
       ];
     }
     
+    const subscriptions = await FeedSyncService.getSubscriptions(redditId);
+    const weights = new Map(subscriptions.map(sub => [sub.subreddit, sub.weight]));
+    
     res.json({
       success: true,
       subreddits: subreddits.map(sub => ({
         name: sub.name,
         title: sub.title,
         subscribers: sub.subscribers,
-        description: sub.description
+        description: sub.description,
+        weight: weights.get(sub.name) || 'normal'
       }))
     });
   } catch (error) {
     console.error('Subreddits fetch error:', error);
+    if (respondIfReauthRequired(error, res)) return;
     res.status(500).json({
       success: false,
       error: 'Failed to fetch subreddits'
@@ -495,16 +581,87 @@ router.get('/subreddits', authenticateUser, async (req: AuthenticatedRequest, re
   }
 });
 
+/**
+ * GET /api/homefeed/subscriptions
+ * Get the user's synced subscriptions with their feed weighting
+ */
+router.get('/subscriptions', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const subscriptions = await FeedSyncService.getSubscriptions(req.user!.redditId);
+    
+    res.json({
+      success: true,
+      subscriptions: subscriptions.map(sub => ({
+        subreddit: sub.subreddit,
+        weight: sub.weight,
+        lastSyncedAt: sub.lastSyncedAt
+      })),
+      weights: SUBSCRIPTION_WEIGHTS
+    });
+  } catch (error) {
+    console.error('Subscriptions fetch error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch subscriptions'
+    });
+  }
+});
+
+/**
+ * PUT /api/homefeed/subscriptions/:subreddit
+ * Set how a subscription is weighted: pinned, boosted, normal or muted
+ */
+router.put('/subscriptions/:subreddit', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { weight } = req.body;
+
+    if (!SUBSCRIPTION_WEIGHTS.includes(weight)) {
+      return res.status(400).json({
+        success: false,
+        error: `Weight must be one of: ${SUBSCRIPTION_WEIGHTS.join(', ')}`
+      });
+    }
+
+    const subscription = await FeedSyncService.setWeight(req.user!.redditId, req.params.subreddit, weight as SubscriptionWeight);
+    
+    if (!subscription) {
+      return res.status(404).json({
+        success: false,
+        error: 'Not subscribed to this subreddit'
+      });
+    }
+
+    res.json({
+      success: true,
+      subscription: {
+        subreddit: subscription.subreddit,
+        weight: subscription.weight,
+        lastSyncedAt: subscription.lastSyncedAt
+      }
+    });
+  } catch (error) {
+    console.error('Subscription weight update error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update subscription'
+    });
+  }
+});
+
 /**
  * GET /api/homefeed/filters
  * Get available filter presets
  */
 router.get('/filters', authenticateUser, async (req: AuthenticatedRequest, res) => {
   try {
+    const customPresets = await CustomFilterService.listPresets(req.user!.redditId);
+
     res.json({
       success: true,
       presets: FILTER_PRESETS,
-      categories: BUSINESS_CATEGORIES
+      customPresets,
+      categories: BUSINESS_CATEGORIES,
+      intents: INTENT_SIGNALS
     });
   } catch (error) {
     console.error('Filter presets error:', error);
@@ -515,6 +672,186 @@ router.get('/filters', authenticateUser, async (req: AuthenticatedRequest, res)
   }
 });
 
+/**
+ * Validate the body of a create/update request for a custom filter.
+ * On update every field is optional.
+ */
+function parseCustomFilterBody(body: any, partial: boolean): { input?: Partial<CustomFilterInput>; errors: string[] } {
+  const errors: string[] = [];
+  const input: Partial<CustomFilterInput> = {};
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      errors.push('name is required');
+    } else if (body.name.trim().length > 100) {
+      errors.push('name must be at most 100 characters');
+    } else {
+      input.name = body.name.trim();
+    }
+  }
+
+  if (body.description !== undefined) {
+    if (typeof body.description !== 'string') {
+      errors.push('description must be a string');
+    } else {
+      input.description = body.description.trim();
+    }
+  }
+
+  if (body.filter !== undefined || !partial) {
+    const { filter, errors: filterErrors } = ContentFilterService.validateFilter(body.filter);
+    errors.push(...filterErrors);
+    input.filter = filter;
+  }
+
+  return errors.length > 0 ? { errors } : { input, errors };
+}
+
+function isDuplicateName(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+/**
+ * GET /api/homefeed/filters/custom
+ * Get the user's saved filter presets
+ */
+router.get('/filters/custom', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const presets = await CustomFilterService.listPresets(req.user!.redditId);
+    res.json({ success: true, presets });
+  } catch (error) {
+    console.error('Custom filters fetch error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch custom filters'
+    });
+  }
+});
+
+/**
+ * GET /api/homefeed/filters/custom/:id
+ * Get one saved filter preset
+ */
+router.get('/filters/custom/:id', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const preset = await CustomFilterService.getPreset(req.user!.redditId, req.params.id);
+
+    if (!preset) {
+      return res.status(404).json({
+        success: false,
+        error: 'Custom filter not found'
+      });
+    }
+
+    res.json({ success: true, preset });
+  } catch (error) {
+    console.error('Custom filter fetch error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch custom filter'
+    });
+  }
+});
+
+/**
+ * POST /api/homefeed/filters/custom
+ * Save a new named filter preset
+ */
+router.post('/filters/custom', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { input, errors } = parseCustomFilterBody(req.body, false);
+
+    if (!input) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid custom filter',
+        details: errors
+      });
+    }
+
+    const preset = await CustomFilterService.createPreset(req.user!.redditId, input as CustomFilterInput);
+    res.status(201).json({ success: true, preset });
+  } catch (error) {
+    if (isDuplicateName(error)) {
+      return res.status(409).json({
+        success: false,
+        error: 'A custom filter with this name already exists'
+      });
+    }
+    console.error('Custom filter create error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to save custom filter'
+    });
+  }
+});
+
+/**
+ * PUT /api/homefeed/filters/custom/:id
+ * Update a saved filter preset
+ */
+router.put('/filters/custom/:id', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { input, errors } = parseCustomFilterBody(req.body, true);
+
+    if (!input) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid custom filter',
+        details: errors
+      });
+    }
+
+    const preset = await CustomFilterService.updatePreset(req.user!.redditId, req.params.id, input);
+
+    if (!preset) {
+      return res.status(404).json({
+        success: false,
+        error: 'Custom filter not found'
+      });
+    }
+
+    res.json({ success: true, preset });
+  } catch (error) {
+    if (isDuplicateName(error)) {
+      return res.status(409).json({
+        success: false,
+        error: 'A custom filter with this name already exists'
+      });
+    }
+    console.error('Custom filter update error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update custom filter'
+    });
+  }
+});
+
+/**
+ * DELETE /api/homefeed/filters/custom/:id
+ * Delete a saved filter preset
+ */
+router.delete('/filters/custom/:id', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const deleted = await CustomFilterService.deletePreset(req.user!.redditId, req.params.id);
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: 'Custom filter not found'
+      });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Custom filter delete error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete custom filter'
+    });
+  }
+});
+
 /**
  * POST /api/homefeed/preview-filter
  * Preview posts with a specific filter without saving
@@ -522,18 +859,50 @@ router.get('/filters', authenticateUser, async (req: AuthenticatedRequest, res)
 router.post('/preview-filter', authenticateUser, async (req: AuthenticatedRequest, res) => {
   try {
     const redditId = req.user!.redditId;
-    const { filterPreset, customFilter } = req.body;
+    const { filterPreset, customFilter, q } = req.body;
+
+    let matchesQuery: PostPredicate | null;
+    try {
+      matchesQuery = q ? FeedQueryService.compile(String(q)) : null;
+    } catch (error) {
+      if (error instanceof FeedQuerySyntaxError) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid query',
+          details: error.toJSON()
+        });
+      }
+      throw error;
+    }
 
-    // Get sample posts
-    const rawPosts = await RedditService.getHomeFeed(redditId, 100);
+    // Preset: built-in or saved
+    const preset = !customFilter && filterPreset ? await CustomFilterService.resolvePreset(redditId, filterPreset) : null;
+    if (!customFilter && filterPreset && !preset) {
+      return res.status(404).json({
+        success: false,
+        error: 'Filter preset not found'
+      });
+    }
+
+    // Get sample posts from the synced store
+    await FeedSyncService.ensureSynced(redditId);
+    const { posts: samplePosts } = await FeedSyncService.getFeedPage(redditId, { limit: 100 });
+    const rawPosts = matchesQuery ? samplePosts.filter(matchesQuery) : samplePosts;
     
     let filteredPosts;
     if (customFilter) {
       // Use custom filter
-      filteredPosts = ContentFilterService.filterPosts(rawPosts, customFilter);
+      const { filter, errors } = ContentFilterService.validateFilter(customFilter);
+      if (!filter) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid custom filter',
+          details: errors
+        });
+      }
+      filteredPosts = ContentFilterService.filterPosts(rawPosts, filter);
     } else {
-      // Use preset
-      filteredPosts = ContentFilterService.getFilteredFeed(rawPosts, filterPreset);
+      filteredPosts = preset ? ContentFilterService.filterPosts(rawPosts, preset.filter) : rawPosts;
     }
     
     // Return preview with stats
@@ -541,13 +910,14 @@ router.post('/preview-filter', authenticateUser, async (req: AuthenticatedReques
       success: true,
       preview: filteredPosts.slice(0, 10),
       stats: {
-        totalPosts: rawPosts.length,
+        totalPosts: samplePosts.length,
         filteredPosts: filteredPosts.length,
-        filterEfficiency: Math.round((filteredPosts.length / rawPosts.length) * 100)
+        filterEfficiency: Math.round((filteredPosts.length / samplePosts.length) * 100)
       }
     });
   } catch (error) {
     console.error('Filter preview error:', error);
+    if (respondIfReauthRequired(error, res)) return;
     res.status(500).json({
       success: false,
       error: 'Failed to preview filter'
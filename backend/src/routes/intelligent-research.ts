@@ -3,6 +3,9 @@ import { NLPProcessor, type ParsedResearchInput } from '../services/nlp'
 import { ProblemClusteringEngine, type ProblemCluster } from '../services/clustering'
 import { SolutionDiscovery, type SolutionSearchResult } from '../services/solutions'
 import { RedditService } from '../services/reddit'
+import { RedditClientPool } from '../services/redditClientPool'
+import { authenticateUser, AuthenticatedRequest } from '../middleware/auth'
+import { WebhookService } from '../services/webhooks'
 
 const router = express.Router()
 
@@ -37,7 +40,6 @@ interface ResearchInsights {
 
 // Patient search engine that respects Reddit API rate limits
 class PatientSearchEngine {
-  private static readonly DELAY_BETWEEN_REQUESTS = 1000 // 1 second between requests
   private static readonly MAX_RETRIES = 3
   private static readonly INITIAL_RETRY_DELAY = 2000 // 2 seconds
   
@@ -113,10 +115,9 @@ class PatientSearchEngine {
         // Continue with other searches even if one fails
       }
       
-      // Delay between requests to respect rate limits (except for last request)
+      // Pace against the user's shared Reddit rate-limit budget (except after the last request)
       if (completedSearches < totalSearches) {
-        console.log(`⏳ Waiting ${this.DELAY_BETWEEN_REQUESTS}ms before next request...`)
-        await this.sleep(this.DELAY_BETWEEN_REQUESTS)
+        await RedditClientPool.throttle(redditId)
       }
     }
     
@@ -170,14 +171,11 @@ class PatientSearchEngine {
 }
 
 // Main intelligent research endpoint
-router.post('/', async (req, res) => {
+router.post('/', authenticateUser, async (req: AuthenticatedRequest, res) => {
   const startTime = Date.now()
   
   try {
-    const redditId = req.headers['x-reddit-id'] as string
-    if (!redditId) {
-      return res.status(401).json({ error: 'Reddit ID required' })
-    }
+    const redditId = req.user!.redditId
 
     const { input }: IntelligentResearchRequest = req.body
     
@@ -214,7 +212,7 @@ router.post('/', async (req, res) => {
     })
 
     if (threads.length === 0) {
-      return res.json({
+      const emptyResponse: IntelligentResearchResponse = {
         originalInput: input,
         parsed,
         summary,
@@ -222,7 +220,12 @@ router.post('/', async (req, res) => {
         problemClusters: [],
         insights: generateEmptyInsights(),
         confidence: 0,
-        processingTime: Date.now() - startTime,
+        processingTime: Date.now() - startTime
+      }
+      emitResearchCompleted(redditId, emptyResponse)
+
+      return res.json({
+        ...emptyResponse,
         message: 'No relevant discussions found. Try adjusting your search terms or timeframe.'
       })
     }
@@ -266,6 +269,7 @@ router.post('/', async (req, res) => {
     }
 
     console.log(`Research completed in ${response.processingTime}ms`)
+    emitResearchCompleted(redditId, response)
     
     res.json(response)
 
@@ -279,6 +283,23 @@ router.post('/', async (req, res) => {
   }
 })
 
+// Helper function to notify the user's webhooks about a finished run, without the thread details
+function emitResearchCompleted(redditId: string, response: IntelligentResearchResponse) {
+  WebhookService.emit(redditId, 'research.completed', {
+    input: response.originalInput,
+    summary: response.summary,
+    totalThreadsAnalyzed: response.totalThreadsAnalyzed,
+    confidence: response.confidence,
+    problemClusters: response.problemClusters.map(cluster => ({
+      title: cluster.title,
+      threadCount: cluster.threadCount,
+      opportunityScore: cluster.opportunityScore,
+      marketSizeIndicator: cluster.marketSizeIndicator
+    })),
+    insights: response.insights
+  }).catch(error => console.error('Failed to queue research.completed webhook:', error))
+}
+
 // Helper function to calculate opportunity score for a problem cluster
 function calculateOpportunityScore(cluster: ProblemCluster, solutions: SolutionSearchResult): number {
   let score = 0
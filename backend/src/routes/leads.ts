@@ -0,0 +1,212 @@
+import { Router } from 'express';
+import { authenticateUser, AuthenticatedRequest, respondIfReauthRequired } from '../middleware/auth';
+import { RedditService } from '../services/reddit';
+import { INTENT_SIGNALS } from '../services/contentFilter';
+import { LeadService, LeadStatusError, LeadStatus, LEAD_STATUSES } from '../services/leads';
+
+const router = Router();
+
+const MAX_NOTES_LENGTH = 5000;
+
+/**
+ * GET /api/leads
+ * Get saved leads, most recently updated first, with a count per status
+ */
+router.get('/', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const redditId = req.user!.redditId;
+    const statuses = req.query.status ? String(req.query.status).split(',') : undefined;
+    const intent = req.query.intent as string | undefined;
+    const errors: string[] = [];
+
+    const unknownStatuses = (statuses || []).filter(status => !LEAD_STATUSES.includes(status as LeadStatus));
+    if (unknownStatuses.length > 0) {
+      errors.push(`Unknown status: ${unknownStatuses.join(', ')}. Valid statuses: ${LEAD_STATUSES.join(', ')}`);
+    }
+    if (intent && !(intent in INTENT_SIGNALS)) {
+      errors.push(`Unknown intent "${intent}". Valid intents: ${Object.keys(INTENT_SIGNALS).join(', ')}`);
+    }
+
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid lead filter',
+        details: errors
+      });
+    }
+
+    const [leads, counts] = await Promise.all([
+      LeadService.listLeads(redditId, {
+        statuses: statuses as LeadStatus[] | undefined,
+        subreddit: req.query.subreddit as string | undefined,
+        intent,
+        limit: Math.min(parseInt(req.query.limit as string) || 50, 200)
+      }),
+      LeadService.countByStatus(redditId)
+    ]);
+
+    res.json({
+      success: true,
+      leads,
+      count: leads.length,
+      counts
+    });
+  } catch (error) {
+    console.error('Leads fetch error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch leads'
+    });
+  }
+});
+
+/**
+ * POST /api/leads
+ * Save a post as a lead
+ */
+router.post('/', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const redditId = req.user!.redditId;
+    const { postId } = req.body;
+
+    if (!postId || typeof postId !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'Post ID is required'
+      });
+    }
+
+    const post = await RedditService.getPostById(redditId, postId);
+
+    if (!post) {
+      return res.status(404).json({
+        success: false,
+        error: 'Post not found'
+      });
+    }
+
+    const { lead, created } = await LeadService.createLead(redditId, post);
+
+    if (!created) {
+      return res.status(409).json({
+        success: false,
+        error: 'Post is already saved as a lead',
+        lead
+      });
+    }
+
+    res.status(201).json({ success: true, lead });
+  } catch (error) {
+    console.error('Lead create error:', error);
+    if (respondIfReauthRequired(error, res)) return;
+    res.status(500).json({
+      success: false,
+      error: 'Failed to save lead'
+    });
+  }
+});
+
+/**
+ * GET /api/leads/:id
+ * Get a lead with the comments posted on it
+ */
+router.get('/:id', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const lead = await LeadService.getLead(req.user!.redditId, req.params.id);
+
+    if (!lead) {
+      return res.status(404).json({
+        success: false,
+        error: 'Lead not found'
+      });
+    }
+
+    res.json({ success: true, lead });
+  } catch (error) {
+    console.error('Lead fetch error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch lead'
+    });
+  }
+});
+
+/**
+ * PUT /api/leads/:id
+ * Move a lead through the pipeline and/or update its notes
+ */
+router.put('/:id', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { status, notes } = req.body;
+    const errors: string[] = [];
+
+    if (status !== undefined && !LEAD_STATUSES.includes(status)) {
+      errors.push(`status must be one of: ${LEAD_STATUSES.join(', ')}`);
+    }
+    if (notes !== undefined && typeof notes !== 'string') {
+      errors.push('notes must be a string');
+    }
+
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid lead update',
+        details: errors
+      });
+    }
+
+    const lead = await LeadService.updateLead(req.user!.redditId, req.params.id, {
+      status,
+      notes: notes?.slice(0, MAX_NOTES_LENGTH)
+    });
+
+    if (!lead) {
+      return res.status(404).json({
+        success: false,
+        error: 'Lead not found'
+      });
+    }
+
+    res.json({ success: true, lead });
+  } catch (error) {
+    if (error instanceof LeadStatusError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message,
+        allowed: error.allowed
+      });
+    }
+    console.error('Lead update error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update lead'
+    });
+  }
+});
+
+/**
+ * DELETE /api/leads/:id
+ * Delete a lead
+ */
+router.delete('/:id', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const deleted = await LeadService.deleteLead(req.user!.redditId, req.params.id);
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: 'Lead not found'
+      });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Lead delete error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete lead'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,110 @@
+import { Router } from 'express';
+import { authenticateUser, AuthenticatedRequest, respondIfReauthRequired } from '../middleware/auth';
+import { RedditService } from '../services/reddit';
+import { COMMENT_SORTS, CommentSort } from '../services/commentTree';
+
+const router = Router();
+
+const MAX_DEPTH = 10;
+const MAX_LIMIT = 500;
+// /api/morechildren takes at most this many IDs per request
+const MAX_MORE_CHILDREN = 100;
+
+/**
+ * Read sort and depth from the query string, shared by both comment endpoints
+ */
+function parseCommentOptions(query: any): { sort?: CommentSort; depth?: number; errors: string[] } {
+  const errors: string[] = [];
+  const sort = (query.sort as string) || 'confidence';
+  const depth = query.depth === undefined ? 5 : parseInt(query.depth as string);
+
+  if (!COMMENT_SORTS.includes(sort as CommentSort)) {
+    errors.push(`sort must be one of: ${COMMENT_SORTS.join(', ')}`);
+  }
+  if (!Number.isInteger(depth) || depth < 1 || depth > MAX_DEPTH) {
+    errors.push(`depth must be between 1 and ${MAX_DEPTH}`);
+  }
+
+  return errors.length > 0 ? { errors } : { sort: sort as CommentSort, depth, errors };
+}
+
+/**
+ * GET /api/posts/:id/comments
+ * Get a post's comment tree. Pass `comment` to continue a thread from that comment.
+ */
+router.get('/:id/comments', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { sort, depth, errors } = parseCommentOptions(req.query);
+    const limit = req.query.limit === undefined ? 200 : parseInt(req.query.limit as string);
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      errors.push(`limit must be between 1 and ${MAX_LIMIT}`);
+    }
+
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid comment options',
+        details: errors
+      });
+    }
+
+    const thread = await RedditService.getPostComments(req.user!.redditId, req.params.id, {
+      sort,
+      depth,
+      limit,
+      comment: req.query.comment as string | undefined
+    });
+
+    if (!thread) {
+      return res.status(404).json({
+        success: false,
+        error: 'Post not found'
+      });
+    }
+
+    res.json({ success: true, ...thread });
+  } catch (error) {
+    console.error('Comments fetch error:', error);
+    if (respondIfReauthRequired(error, res)) return;
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch comments'
+    });
+  }
+});
+
+/**
+ * GET /api/posts/:id/comments/more
+ * Load the comments behind a "more" placeholder; `children` is its comma-separated list of IDs
+ */
+router.get('/:id/comments/more', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { sort, depth, errors } = parseCommentOptions(req.query);
+    const children = String(req.query.children || '').split(',').map(id => id.trim()).filter(Boolean);
+
+    if (children.length === 0 || children.length > MAX_MORE_CHILDREN) {
+      errors.push(`children must list between 1 and ${MAX_MORE_CHILDREN} comment IDs`);
+    }
+
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid comment options',
+        details: errors
+      });
+    }
+
+    const thread = await RedditService.getMoreComments(req.user!.redditId, req.params.id, children, { sort, depth });
+    res.json({ success: true, ...thread });
+  } catch (error) {
+    console.error('More comments fetch error:', error);
+    if (respondIfReauthRequired(error, res)) return;
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch comments'
+    });
+  }
+});
+
+export default router;
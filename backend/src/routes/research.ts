@@ -1,6 +1,8 @@
 import express from 'express'
 import { RedditService } from '../services/reddit'
+import { RedditClientPool } from '../services/redditClientPool'
 import { kimiService } from '../services/kimi'
+import { authenticateUser, AuthenticatedRequest } from '../middleware/auth'
 
 const router = express.Router()
 
@@ -23,12 +25,9 @@ interface PainPoint {
 }
 
 // Research pain points for a given niche
-router.post('/', async (req, res) => {
+router.post('/', authenticateUser, async (req: AuthenticatedRequest, res) => {
   try {
-    const redditId = req.headers['x-reddit-id'] as string
-    if (!redditId) {
-      return res.status(401).json({ error: 'Reddit ID required' })
-    }
+    const redditId = req.user!.redditId
 
     const { niche, timeframe }: ResearchRequest = req.body
     
@@ -126,8 +125,8 @@ async function searchPainPoints(redditId: string, subreddits: string[], niche: s
         const posts = await RedditService.searchSubreddit(redditId, subreddit, keyword, timeframe)
         allPosts.push(...posts.slice(0, 10)) // Limit per keyword
         
-        // Rate limiting
-        await new Promise(resolve => setTimeout(resolve, 100))
+        // Rate limiting against the user's shared Reddit budget
+        await RedditClientPool.throttle(redditId)
       }
       
     } catch (error) {
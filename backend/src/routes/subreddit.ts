@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import { RedditService } from '../services/reddit';
-import { authenticateUser, AuthenticatedRequest } from '../middleware/auth';
+import { PostTimingService } from '../services/postTiming';
+import { isValidTimeZone } from '../services/timezone';
+import { authenticateUser, AuthenticatedRequest, respondIfReauthRequired } from '../middleware/auth';
 
 const router = Router();
 
@@ -35,6 +37,7 @@ router.get('/:name', authenticateUser, async (req: AuthenticatedRequest, res) =>
     });
   } catch (error) {
     console.error('Subreddit info error:', error);
+    if (respondIfReauthRequired(error, res)) return;
     if (error instanceof Error) {
       res.status(500).json({
         success: false,
@@ -80,6 +83,7 @@ router.get('/:name/posts', authenticateUser, async (req: AuthenticatedRequest, r
     });
   } catch (error) {
     console.error('Subreddit posts error:', error);
+    if (respondIfReauthRequired(error, res)) return;
     if (error instanceof Error) {
       res.status(500).json({
         success: false,
@@ -98,7 +102,7 @@ router.get('/:name/posts', authenticateUser, async (req: AuthenticatedRequest, r
 
 /**
  * GET /api/subreddit/:name/rules
- * Get rules for a specific subreddit
+ * Get rules for a specific subreddit, with its link flair templates
  */
 router.get('/:name/rules', authenticateUser, async (req: AuthenticatedRequest, res) => {
   try {
@@ -116,10 +120,14 @@ router.get('/:name/rules', authenticateUser, async (req: AuthenticatedRequest, r
 
     res.json({
       success: true,
-      rules: rules.rules
+      rules: rules.rules,
+      flairs: rules.flairs,
+      flairRequired: rules.postRequirements.flairRequired,
+      flairLikelyRequired: rules.postRequirements.flairLikelyRequired
     });
   } catch (error) {
     console.error('Subreddit rules error:', error);
+    if (respondIfReauthRequired(error, res)) return;
     if (error instanceof Error) {
       res.status(500).json({
         success: false,
@@ -136,4 +144,38 @@ router.get('/:name/rules', authenticateUser, async (req: AuthenticatedRequest, r
   }
 });
 
+/**
+ * GET /api/subreddit/:name/timing
+ * When posts in a subreddit get the most score and comments for how many go up, by weekday
+ * and hour in UTC and in the user's time zone, with recommended posting windows
+ */
+router.get('/:name/timing', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { name } = req.params;
+    const timeZone = (req.query.timeZone as string) || 'UTC';
+
+    if (!isValidTimeZone(timeZone)) {
+      return res.status(400).json({
+        success: false,
+        error: 'timeZone must be an IANA time zone like "America/New_York"'
+      });
+    }
+
+    const timing = await PostTimingService.getTiming(req.user!.redditId, name, timeZone);
+
+    res.json({
+      success: true,
+      timing
+    });
+  } catch (error) {
+    console.error('Subreddit timing error:', error);
+    if (respondIfReauthRequired(error, res)) return;
+    res.status(500).json({
+      success: false,
+      error: 'Failed to analyze subreddit posting times',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
 export default router;
\ No newline at end of file
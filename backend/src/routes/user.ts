@@ -1,6 +1,6 @@
 import { Router, Response } from 'express';
-import { AuthenticatedRequest, authenticateUser } from '../middleware/auth';
-import { RedditService, RedditAction } from '../services/reddit';
+import { AuthenticatedRequest, authenticateUser, respondIfReauthRequired } from '../middleware/auth';
+import { RedditService } from '../services/reddit';
 import { OpenAIService } from '../services/openai';
 
 const router = Router();
@@ -16,6 +16,7 @@ router.get('/me', authenticateUser, async (req: AuthenticatedRequest, res: Respo
     res.json(profile);
   } catch (error) {
     console.error('Error fetching user profile:', error);
+    if (respondIfReauthRequired(error, res)) return;
     res.status(500).json({ 
       error: 'Failed to fetch user profile', 
       details: error instanceof Error ? error.message : String(error)
@@ -34,6 +35,7 @@ router.get('/subreddits', authenticateUser, async (req: AuthenticatedRequest, re
     res.json(subreddits);
   } catch (error) {
     console.error('Error fetching user subreddits:', error);
+    if (respondIfReauthRequired(error, res)) return;
     res.status(500).json({ 
       error: 'Failed to fetch user subreddits', 
       details: error instanceof Error ? error.message : String(error)
@@ -87,6 +89,7 @@ router.post('/suggestions', authenticateUser, async (req: AuthenticatedRequest,
     });
   } catch (error) {
     console.error('Error generating suggestions:', error);
+    if (respondIfReauthRequired(error, res)) return;
     res.status(500).json({ 
       error: 'Failed to generate suggestions', 
       details: error instanceof Error ? error.message : String(error)
@@ -94,39 +97,4 @@ router.post('/suggestions', authenticateUser, async (req: AuthenticatedRequest,
   }
 });
 
-// Execute approved Reddit actions
-router.post('/actions', authenticateUser, async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    if (!req.user) {
-      return res.status(401).json({ error: 'User not authenticated' });
-    }
-
-    const action: RedditAction = req.body;
-
-    // Validate required fields
-    if (!action.type || !action.title || !action.content || !action.targetSubreddit) {
-      return res.status(400).json({ 
-        error: 'Missing required fields: type, title, content, targetSubreddit' 
-      });
-    }
-
-    // Add unique ID if not provided
-    if (!action.id) {
-      action.id = `action_${Date.now()}_${Math.random().toString(36).substring(7)}`;
-    }
-
-    // Execute the action on Reddit
-    const result = await RedditService.executeAction(req.user.redditId, action);
-
-    res.json(result);
-  } catch (error) {
-    console.error('Error executing Reddit action:', error);
-    res.status(500).json({ 
-      error: 'Failed to execute action', 
-      details: error instanceof Error ? error.message : String(error)
-    });
-  }
-});
-
-
 export default router;
\ No newline at end of file
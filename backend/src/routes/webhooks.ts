@@ -0,0 +1,262 @@
+import { Router } from 'express';
+import { authenticateUser, AuthenticatedRequest } from '../middleware/auth';
+import { WebhookService, WebhookEndpointInput, WebhookEvent, WEBHOOK_EVENTS } from '../services/webhooks';
+
+const router = Router();
+
+const DELIVERY_STATUSES = ['pending', 'succeeded', 'failed'];
+
+/**
+ * Validate the body of a create/update request for a webhook endpoint.
+ * On update every field is optional.
+ */
+function parseEndpointBody(body: any, partial: boolean): { input?: Partial<WebhookEndpointInput>; errors: string[] } {
+  const errors: string[] = [];
+  const input: Partial<WebhookEndpointInput> = {};
+
+  if (body.url !== undefined || !partial) {
+    try {
+      const url = new URL(body.url);
+      if (url.protocol !== 'https:' && url.protocol !== 'http:') throw new Error();
+      input.url = url.toString();
+    } catch {
+      errors.push('url must be an http(s) URL');
+    }
+  }
+
+  if (body.events !== undefined || !partial) {
+    if (!Array.isArray(body.events) || body.events.length === 0) {
+      errors.push('events must list at least one event');
+    } else {
+      const unknown = body.events.filter((event: unknown) => typeof event !== 'string' || !(event in WEBHOOK_EVENTS));
+      if (unknown.length > 0) {
+        errors.push(`Unknown events: ${unknown.join(', ')}. Valid events: ${Object.keys(WEBHOOK_EVENTS).join(', ')}`);
+      } else {
+        input.events = Array.from(new Set(body.events as WebhookEvent[]));
+      }
+    }
+  }
+
+  if (body.description !== undefined) {
+    if (typeof body.description !== 'string') {
+      errors.push('description must be a string');
+    } else {
+      input.description = body.description.trim().slice(0, 200);
+    }
+  }
+
+  if (body.active !== undefined) {
+    if (typeof body.active !== 'boolean') {
+      errors.push('active must be true or false');
+    } else {
+      input.active = body.active;
+    }
+  }
+
+  return errors.length > 0 ? { errors } : { input, errors };
+}
+
+/**
+ * GET /api/webhooks/events
+ * Get the events endpoints can subscribe to
+ */
+router.get('/events', authenticateUser, (req: AuthenticatedRequest, res) => {
+  res.json({
+    success: true,
+    events: Object.entries(WEBHOOK_EVENTS).map(([name, description]) => ({ name, description }))
+  });
+});
+
+/**
+ * GET /api/webhooks
+ * Get the user's webhook endpoints
+ */
+router.get('/', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const endpoints = await WebhookService.listEndpoints(req.user!.redditId);
+    res.json({ success: true, endpoints });
+  } catch (error) {
+    console.error('Webhook endpoints fetch error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch webhook endpoints'
+    });
+  }
+});
+
+/**
+ * POST /api/webhooks
+ * Register a webhook endpoint. The response holds the signing secret, which isn't shown again.
+ */
+router.post('/', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { input, errors } = parseEndpointBody(req.body, false);
+
+    if (!input) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid webhook endpoint',
+        details: errors
+      });
+    }
+
+    const { endpoint, secret } = await WebhookService.createEndpoint(req.user!.redditId, input as WebhookEndpointInput);
+    res.status(201).json({ success: true, endpoint, secret });
+  } catch (error) {
+    console.error('Webhook endpoint create error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create webhook endpoint'
+    });
+  }
+});
+
+/**
+ * GET /api/webhooks/deliveries
+ * Get the delivery log, newest first
+ */
+router.get('/deliveries', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const status = req.query.status as string | undefined;
+
+    if (status && !DELIVERY_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        error: `status must be one of: ${DELIVERY_STATUSES.join(', ')}`
+      });
+    }
+
+    const deliveries = await WebhookService.listDeliveries(req.user!.redditId, {
+      endpointId: req.query.endpointId as string | undefined,
+      status,
+      limit: Math.min(parseInt(req.query.limit as string) || 50, 200)
+    });
+
+    res.json({
+      success: true,
+      deliveries: deliveries.map(delivery => ({ ...delivery, payload: JSON.parse(delivery.payload) })),
+      count: deliveries.length
+    });
+  } catch (error) {
+    console.error('Webhook deliveries fetch error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch webhook deliveries'
+    });
+  }
+});
+
+/**
+ * POST /api/webhooks/deliveries/:id/replay
+ * Send a logged delivery again
+ */
+router.post('/deliveries/:id/replay', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const delivery = await WebhookService.replayDelivery(req.user!.redditId, req.params.id);
+
+    if (!delivery) {
+      return res.status(404).json({
+        success: false,
+        error: 'Webhook delivery not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      delivery: { ...delivery, payload: JSON.parse(delivery.payload) }
+    });
+  } catch (error) {
+    console.error('Webhook replay error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to replay webhook delivery'
+    });
+  }
+});
+
+/**
+ * PUT /api/webhooks/:id
+ * Update a webhook endpoint
+ */
+router.put('/:id', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const { input, errors } = parseEndpointBody(req.body, true);
+
+    if (!input) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid webhook endpoint',
+        details: errors
+      });
+    }
+
+    const endpoint = await WebhookService.updateEndpoint(req.user!.redditId, req.params.id, input);
+
+    if (!endpoint) {
+      return res.status(404).json({
+        success: false,
+        error: 'Webhook endpoint not found'
+      });
+    }
+
+    res.json({ success: true, endpoint });
+  } catch (error) {
+    console.error('Webhook endpoint update error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update webhook endpoint'
+    });
+  }
+});
+
+/**
+ * POST /api/webhooks/:id/rotate-secret
+ * Replace an endpoint's signing secret; the old one stops working immediately
+ */
+router.post('/:id/rotate-secret', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const secret = await WebhookService.rotateSecret(req.user!.redditId, req.params.id);
+
+    if (!secret) {
+      return res.status(404).json({
+        success: false,
+        error: 'Webhook endpoint not found'
+      });
+    }
+
+    res.json({ success: true, secret });
+  } catch (error) {
+    console.error('Webhook secret rotation error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to rotate webhook secret'
+    });
+  }
+});
+
+/**
+ * DELETE /api/webhooks/:id
+ * Delete a webhook endpoint and its delivery log
+ */
+router.delete('/:id', authenticateUser, async (req: AuthenticatedRequest, res) => {
+  try {
+    const deleted = await WebhookService.deleteEndpoint(req.user!.redditId, req.params.id);
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: 'Webhook endpoint not found'
+      });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Webhook endpoint delete error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete webhook endpoint'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,134 @@
+import { PrismaClient } from '@prisma/client';
+import { RedditActionValidationError } from './reddit';
+import { RedditReauthRequiredError } from './tokenManager';
+import { ActionService } from './actions';
+import { ScheduledActionService, ScheduledAction } from './scheduledActions';
+
+const prisma = new PrismaClient();
+
+const RUN_INTERVAL = 30 * 1000;
+const BATCH_SIZE = 10;
+// Wait before each retry; an action fails for good after the last one
+const RETRY_DELAYS = [60 * 1000, 5 * 60 * 1000, 15 * 60 * 1000, 60 * 60 * 1000];
+
+// Errors raised before Reddit accepted anything, so trying again can't post twice
+const RETRYABLE_ERRORS = /RATELIMIT|doing that too much|ECONNREFUSED|ENOTFOUND|EAI_AGAIN/i;
+
+/**
+ * Sends scheduled posts and comments when they're due. Each action is claimed by moving
+ * it to `posting` before it's sent, and nothing in `posting` is ever sent again: after
+ * a crash those actions are marked failed for the user to check, never retried.
+ */
+export class ActionScheduler {
+  private static timer: NodeJS.Timeout | null = null;
+  private static running = false;
+
+  static start(): void {
+    if (this.timer) return;
+
+    this.recoverInterrupted()
+      .catch(error => console.error('Failed to recover interrupted scheduled actions:', error))
+      .finally(() => {
+        this.timer = setInterval(() => this.runDue(), RUN_INTERVAL);
+        this.runDue();
+      });
+  }
+
+  static async runDue(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const due = await prisma.scheduledAction.findMany({
+        where: { status: 'scheduled', nextAttemptAt: { lte: new Date() } },
+        orderBy: { nextAttemptAt: 'asc' },
+        select: { id: true },
+        take: BATCH_SIZE
+      });
+
+      for (const { id } of due) {
+        const { count } = await prisma.scheduledAction.updateMany({
+          where: { id, status: 'scheduled', nextAttemptAt: { lte: new Date() } },
+          data: { status: 'posting', attempts: { increment: 1 }, lastAttemptAt: new Date() }
+        });
+        // Cancelled or rescheduled since the query
+        if (count === 0) continue;
+
+        await this.attempt(id);
+      }
+    } catch (error) {
+      console.error('Scheduled action run failed:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  static isRetryable(error: unknown): boolean {
+    if (error instanceof RedditActionValidationError) return false;
+    if (error instanceof RedditReauthRequiredError) return true;
+    return RETRYABLE_ERRORS.test(error instanceof Error ? error.message : String(error));
+  }
+
+  static retryDelay(attempts: number): number | null {
+    return RETRY_DELAYS[attempts - 1] ?? null;
+  }
+
+  private static async attempt(id: string): Promise<void> {
+    let redditId: string;
+    let scheduled: ScheduledAction;
+    try {
+      const row = await prisma.scheduledAction.findUniqueOrThrow({
+        where: { id },
+        include: { user: { select: { redditId: true } } }
+      });
+      redditId = row.user.redditId;
+      scheduled = ScheduledActionService.toScheduledAction(row);
+    } catch (error) {
+      // Nothing was sent, so fail it with the real reason rather than leaving it in `posting`
+      await prisma.scheduledAction.updateMany({
+        where: { id, status: 'posting' },
+        data: { status: 'failed', nextAttemptAt: null, error: error instanceof Error ? error.message : String(error) }
+      });
+      return;
+    }
+    const action = { ...scheduled.action, id: `scheduled_${scheduled.id}` };
+
+    try {
+      const { action: recorded } = await ActionService.execute(redditId, action, scheduled.suggestion || undefined);
+      await prisma.scheduledAction.update({
+        where: { id },
+        data: { status: 'posted', nextAttemptAt: null, error: null, actionId: recorded?.id || null }
+      });
+    } catch (error) {
+      const message = error instanceof RedditActionValidationError
+        ? error.errors.join('; ')
+        : error instanceof Error ? error.message : String(error);
+      const delay = this.isRetryable(error) ? this.retryDelay(scheduled.attempts) : null;
+
+      await prisma.scheduledAction.update({
+        where: { id },
+        data: delay === null
+          ? { status: 'failed', nextAttemptAt: null, error: message }
+          : { status: 'scheduled', nextAttemptAt: new Date(Date.now() + delay), error: message }
+      });
+    }
+  }
+
+  /**
+   * Actions left in `posting` by a process that stopped mid-send may or may not be on
+   * Reddit. Fail them with a note instead of risking a second copy.
+   */
+  private static async recoverInterrupted(): Promise<void> {
+    const { count } = await prisma.scheduledAction.updateMany({
+      where: { status: 'posting' },
+      data: {
+        status: 'failed',
+        nextAttemptAt: null,
+        error: 'Interrupted while posting. Check Reddit before rescheduling, it may have gone through.'
+      }
+    });
+    if (count > 0) {
+      console.warn(`Marked ${count} interrupted scheduled action(s) as failed`);
+    }
+  }
+}
@@ -0,0 +1,352 @@
+import { PrismaClient, Action as ActionRow } from '@prisma/client';
+import { RedditService, RedditAction, ActionResult, RedditActionValidationError } from './reddit';
+import { EngagementSuggestion, ENGAGEMENT_SUGGESTION_TYPES } from './openai';
+
+const prisma = new PrismaClient();
+
+export const ACTION_STATUSES = ['posted', 'failed'] as const;
+export type ActionStatus = typeof ACTION_STATUSES[number];
+
+/**
+ * The AI suggestion a post or comment started from
+ */
+export interface ActionSuggestion {
+  content: string;
+  type?: EngagementSuggestion['type'];
+}
+
+export interface Action {
+  id: string;
+  type: RedditAction['type'];
+  status: ActionStatus;
+  thingId: string | null;
+  targetId: string | null;
+  subreddit: string;
+  parentId: string | null;
+  title: string;
+  content: string;
+  originalContent: string | null;
+  url: string;
+  linkUrl: string | null;
+  crosspostOf: string | null;
+  error: string | null;
+  suggestion: string | null;
+  suggestionType: string | null;
+  userEdited: boolean;
+  visibility: string | null;
+  visibilityCheckedAt: Date | null;
+  editable: boolean;
+  editedAt: Date | null;
+  deletedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface ActionListOptions {
+  includeDeleted?: boolean;
+  limit: number;
+}
+
+export interface ActionHistoryOptions {
+  status?: ActionStatus;
+  type?: string;
+  subreddit?: string;
+  suggestionType?: string;
+  userEdited?: boolean;
+  since?: Date;
+  until?: Date;
+  limit: number;
+}
+
+/**
+ * Everything posted through the copilot: an audit log of each attempt, and the posts and
+ * comments that made it to Reddit so they can be edited or deleted later. Edits and deletes
+ * are logged as entries of their own, pointing at what they changed through `targetId`.
+ */
+export class ActionService {
+  /**
+   * Check the `suggestion` a client sent along with an action. Returns the problems found.
+   */
+  static validateSuggestion(suggestion: any): string[] {
+    if (suggestion === undefined || suggestion === null) return [];
+    if (typeof suggestion !== 'object' || typeof suggestion.content !== 'string' || !suggestion.content.trim()) {
+      return ['suggestion.content is required when a suggestion is given'];
+    }
+    if (suggestion.type !== undefined && !ENGAGEMENT_SUGGESTION_TYPES.includes(suggestion.type)) {
+      return [`suggestion.type must be one of: ${ENGAGEMENT_SUGGESTION_TYPES.join(', ')}`];
+    }
+    return [];
+  }
+
+  /**
+   * Post or comment through executeAction and log the attempt, including ones Reddit or
+   * validation rejected. Rethrows the original error after logging it.
+   */
+  static async execute(
+    redditId: string,
+    action: RedditAction,
+    suggestion?: ActionSuggestion
+  ): Promise<{ result: ActionResult; action: Action | null }> {
+    let result: ActionResult;
+    try {
+      result = await RedditService.executeAction(redditId, action);
+    } catch (error) {
+      await this.recordAction(redditId, action, { error: this.describeError(error) }, suggestion)
+        .catch(recordError => console.error('Failed to record failed action:', recordError));
+      throw error;
+    }
+
+    // It's on Reddit either way; failing to log it only costs the user the history entry
+    const recorded = await this.recordAction(redditId, action, { result }, suggestion).catch(error => {
+      console.error('Failed to record action:', error);
+      return null;
+    });
+    return { result, action: recorded };
+  }
+
+  /**
+   * Log a post or comment attempt with its outcome
+   */
+  static async recordAction(
+    redditId: string,
+    action: RedditAction,
+    outcome: { result?: ActionResult; error?: string },
+    suggestion?: ActionSuggestion
+  ): Promise<Action> {
+    const user = await prisma.user.findUnique({ where: { redditId } });
+    if (!user) throw new Error('User not found');
+
+    const { result, error } = outcome;
+    const content = action.type === 'post' || action.type === 'comment' ? String(action.content ?? '') : '';
+    const kind = action.type === 'comment' ? 't1' : 't3';
+    const original = action.type === 'crosspost' && action.crosspostOf ? RedditService.parseParentId(action.crosspostOf) : null;
+    const row = await prisma.action.create({
+      data: {
+        userId: user.id,
+        type: String(action.type),
+        status: result ? 'posted' : 'failed',
+        thingId: result?.redditId ? `${kind}_${result.redditId}` : null,
+        // Comments don't name their subreddit, but their permalink does
+        subreddit: action.targetSubreddit || this.subredditFromUrl(result?.url),
+        parentId: action.type === 'comment' ? action.parentId || null : null,
+        title: String(action.title ?? ''),
+        content,
+        url: result?.url || '',
+        linkUrl: action.type === 'link' ? String(action.url ?? '') || null : null,
+        crosspostOf: original ? `t3_${original.id}` : null,
+        error: error ?? null,
+        suggestion: suggestion?.content ?? null,
+        suggestionType: suggestion?.type ?? null,
+        userEdited: !!suggestion && suggestion.content.trim() !== content.trim()
+      }
+    });
+    return this.toAction(row);
+  }
+
+  /**
+   * Posts and comments that made it to Reddit, newest first
+   */
+  static async listActions(redditId: string, options: ActionListOptions): Promise<Action[]> {
+    const rows = await prisma.action.findMany({
+      where: {
+        user: { redditId },
+        status: 'posted',
+        targetId: null,
+        ...(!options.includeDeleted && { deletedAt: null })
+      },
+      orderBy: { createdAt: 'desc' },
+      take: options.limit
+    });
+    return rows.map(row => this.toAction(row));
+  }
+
+  /**
+   * The audit log: every attempt, posted or failed, newest first
+   */
+  static async listHistory(redditId: string, options: ActionHistoryOptions): Promise<Action[]> {
+    const rows = await prisma.action.findMany({
+      where: {
+        user: { redditId },
+        ...(options.status && { status: options.status }),
+        ...(options.type && { type: options.type }),
+        ...(options.subreddit && { subreddit: options.subreddit }),
+        ...(options.suggestionType && { suggestionType: options.suggestionType }),
+        ...(options.userEdited !== undefined && { userEdited: options.userEdited }),
+        ...((options.since || options.until) && {
+          createdAt: {
+            ...(options.since && { gte: options.since }),
+            ...(options.until && { lt: options.until })
+          }
+        })
+      },
+      orderBy: { createdAt: 'desc' },
+      take: options.limit
+    });
+    return rows.map(row => this.toAction(row));
+  }
+
+  static async getAction(redditId: string, id: string): Promise<Action | null> {
+    const row = await prisma.action.findFirst({ where: { id, user: { redditId } } });
+    return row ? this.toAction(row) : null;
+  }
+
+  static async findByThingId(redditId: string, thingId: string): Promise<Action | null> {
+    const row = await prisma.action.findFirst({ where: { thingId: thingId.trim().toLowerCase(), user: { redditId } } });
+    return row ? this.toAction(row) : null;
+  }
+
+  /**
+   * Replace the text of a post or comment on Reddit. Returns null when the user didn't
+   * post it through the copilot; throws RedditActionValidationError when it can't be edited.
+   * Every attempt is logged, including rejected ones.
+   */
+  static async editAction(redditId: string, id: string, content: string): Promise<Action | null> {
+    const existing = await this.getAction(redditId, id);
+    if (!existing) return null;
+
+    await this.applyChange(redditId, existing, 'edit', content, () => {
+      if (existing.status !== 'posted') return 'This action never made it to Reddit';
+      if (existing.deletedAt) return 'Deleted content can\'t be edited';
+      if (!existing.editable) return `A ${existing.type} has no text to edit; delete it and submit again instead`;
+      return null;
+    });
+
+    const row = await prisma.action.update({
+      where: { id },
+      data: {
+        content,
+        editedAt: new Date(),
+        ...(existing.originalContent === null && { originalContent: existing.content })
+      }
+    });
+    return this.toAction(row);
+  }
+
+  /**
+   * Delete a post or comment on Reddit. Deleting it again is a no-op. Returns null when
+   * the user didn't post it through the copilot. Every attempt is logged, including rejected ones.
+   */
+  static async deleteAction(redditId: string, id: string): Promise<Action | null> {
+    const existing = await this.getAction(redditId, id);
+    if (!existing || existing.deletedAt) return existing;
+
+    await this.applyChange(redditId, existing, 'delete', '', () =>
+      existing.status !== 'posted' ? 'This action never made it to Reddit' : null
+    );
+
+    const row = await prisma.action.update({
+      where: { id },
+      data: { deletedAt: new Date() }
+    });
+    return this.toAction(row);
+  }
+
+  /**
+   * Send an edit or delete to Reddit and log it as its own entry. `check` returns why the
+   * change isn't allowed, if it isn't. Rethrows the original error after logging it.
+   */
+  private static async applyChange(
+    redditId: string,
+    target: Action,
+    type: 'edit' | 'delete',
+    content: string,
+    check: () => string | null
+  ): Promise<void> {
+    try {
+      const problem = target.targetId ? 'Edits and deletes can\'t be changed themselves; change the original instead' : check();
+      if (problem) throw new RedditActionValidationError([problem]);
+
+      await RedditService.executeAction(redditId, this.toRedditAction(target, type, content));
+    } catch (error) {
+      await this.recordChange(redditId, target, type, content, this.describeError(error))
+        .catch(recordError => console.error(`Failed to record failed ${type}:`, recordError));
+      throw error;
+    }
+
+    // It's done on Reddit either way; failing to log it only costs the user the history entry
+    await this.recordChange(redditId, target, type, content, null)
+      .catch(error => console.error(`Failed to record ${type}:`, error));
+  }
+
+  private static async recordChange(
+    redditId: string,
+    target: Action,
+    type: 'edit' | 'delete',
+    content: string,
+    error: string | null
+  ): Promise<Action> {
+    const user = await prisma.user.findUnique({ where: { redditId } });
+    if (!user) throw new Error('User not found');
+
+    const row = await prisma.action.create({
+      data: {
+        userId: user.id,
+        type,
+        status: error ? 'failed' : 'posted',
+        targetId: target.id,
+        subreddit: target.subreddit,
+        parentId: target.parentId,
+        title: target.title,
+        content,
+        url: target.url,
+        error
+      }
+    });
+    return this.toAction(row);
+  }
+
+  private static toRedditAction(action: Action, type: 'edit' | 'delete', content = ''): RedditAction {
+    // Posted actions normally have one; without it there's nothing on Reddit to point at
+    const { thingId } = action;
+    if (!thingId) {
+      throw new RedditActionValidationError([`Reddit didn't report an ID for this ${action.type}, so it can't be changed from here`]);
+    }
+
+    return {
+      id: `${type}_${Date.now()}`,
+      type,
+      title: '',
+      content,
+      targetSubreddit: action.subreddit,
+      thingId
+    };
+  }
+
+  private static describeError(error: unknown): string {
+    return error instanceof RedditActionValidationError
+      ? error.errors.join('; ')
+      : error instanceof Error ? error.message : String(error);
+  }
+
+  private static subredditFromUrl(url?: string): string {
+    return /\/r\/([^/]+)\//.exec(url || '')?.[1] || '';
+  }
+
+  private static toAction(row: ActionRow): Action {
+    return {
+      id: row.id,
+      type: row.type as Action['type'],
+      status: row.status as ActionStatus,
+      thingId: row.thingId,
+      targetId: row.targetId,
+      subreddit: row.subreddit,
+      parentId: row.parentId,
+      title: row.title,
+      content: row.content,
+      originalContent: row.originalContent,
+      url: row.url,
+      linkUrl: row.linkUrl,
+      crosspostOf: row.crosspostOf,
+      error: row.error,
+      suggestion: row.suggestion,
+      suggestionType: row.suggestionType,
+      userEdited: row.userEdited,
+      visibility: row.visibility,
+      visibilityCheckedAt: row.visibilityCheckedAt,
+      // Link posts and crossposts have no self text
+      editable: row.status === 'posted' && (row.type === 'post' || row.type === 'comment'),
+      editedAt: row.editedAt,
+      deletedAt: row.deletedAt,
+      createdAt: row.createdAt
+    };
+  }
+}
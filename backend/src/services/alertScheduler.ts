@@ -0,0 +1,208 @@
+import { PrismaClient, Alert } from '@prisma/client';
+import { RedditService, RedditPost } from './reddit';
+import { RedditClientPool } from './redditClientPool';
+import { RedditReauthRequiredError } from './tokenManager';
+import { PostStore } from './postStore';
+import { ContentFilterService } from './contentFilter';
+import { SavedSearchService, SavedSearch } from './savedSearches';
+import { Notifier, WebhookNotifier, SmtpNotifier, AlertNotification } from './notifiers';
+import { WebhookService } from './webhooks';
+
+const prisma = new PrismaClient();
+
+const RUN_INTERVAL = 5 * 60 * 1000;
+// Newest posts pulled per subreddit per run
+const POSTS_PER_SUBREDDIT = 25;
+// Seen markers older than this can't show up in a listing of the newest posts again
+const SEEN_RETENTION = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Runs every saved search against fresh listings, records posts it hasn't matched before
+ * as alerts, and hands them to the search's notifiers. The first run of a search only
+ * marks existing matches as seen, so creating a search doesn't flood you with old posts.
+ */
+export class AlertScheduler {
+  private static timer: NodeJS.Timeout | null = null;
+  private static running = false;
+  private static notifiers = new Map<string, Notifier>();
+  private static inFlight = new Map<string, Promise<Alert[]>>();
+
+  static start(): void {
+    if (this.timer) return;
+
+    this.registerNotifier(new WebhookNotifier());
+    const smtp = SmtpNotifier.fromEnv();
+    if (smtp) this.registerNotifier(smtp);
+
+    this.timer = setInterval(() => this.runAll(), RUN_INTERVAL);
+    this.runAll();
+  }
+
+  /**
+   * Add or replace the notifier for a channel ('webhook', 'email', ...)
+   */
+  static registerNotifier(notifier: Notifier): void {
+    this.notifiers.set(notifier.channel, notifier);
+  }
+
+  static async runAll(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const rows = await prisma.savedSearch.findMany({
+        where: {
+          user: { sessions: { some: { revokedAt: null, refreshExpiresAt: { gt: new Date() } } } }
+        },
+        include: { user: { select: { redditId: true, username: true } } }
+      });
+
+      for (const row of rows) {
+        try {
+          await this.runSearch(row.user.redditId, row.user.username, SavedSearchService.toSavedSearch(row));
+        } catch (error) {
+          if (error instanceof RedditReauthRequiredError) {
+            console.warn(`Skipping saved search ${row.id}: Reddit re-authentication required`);
+          } else {
+            console.error(`Saved search ${row.id} failed:`, error);
+          }
+        }
+      }
+
+      await prisma.savedSearchSeen.deleteMany({
+        where: { seenAt: { lt: new Date(Date.now() - SEEN_RETENTION) } }
+      });
+    } catch (error) {
+      console.error('Alert run failed:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Run one saved search now unless it's already running, in which case this waits for that
+   * run. Returns the alerts the run created.
+   */
+  static async runSearch(redditId: string, username: string, search: SavedSearch): Promise<Alert[]> {
+    const pending = this.inFlight.get(search.id);
+    if (pending) return pending;
+
+    const run = this.executeSearch(redditId, username, search).finally(() => this.inFlight.delete(search.id));
+    this.inFlight.set(search.id, run);
+    return run;
+  }
+
+  private static async executeSearch(redditId: string, username: string, search: SavedSearch): Promise<Alert[]> {
+    const posts: RedditPost[] = [];
+    for (const subreddit of search.subreddits) {
+      try {
+        await RedditClientPool.throttle(redditId);
+        posts.push(...await RedditService.getNewPostsSince(redditId, subreddit, null, POSTS_PER_SUBREDDIT));
+      } catch (error) {
+        if (error instanceof RedditReauthRequiredError) throw error;
+        console.error(`Saved search ${search.id}: failed to fetch r/${subreddit}:`, error);
+      }
+    }
+    await PostStore.savePosts(posts);
+
+    const matched = ContentFilterService.filterPosts(posts, search.filter);
+    const seen = await prisma.savedSearchSeen.findMany({
+      where: { savedSearchId: search.id, postId: { in: matched.map(post => post.id) } },
+      select: { postId: true }
+    });
+    const seenIds = new Set(seen.map(row => row.postId));
+    const fresh = Array.from(new Map(
+      matched.filter(post => !seenIds.has(post.id)).map(post => [post.id, post])
+    ).values());
+
+    const isFirstRun = !search.lastRunAt;
+    const user = await prisma.user.findUnique({ where: { redditId }, select: { id: true } });
+    if (!user) throw new Error('User not found');
+
+    const results = await prisma.$transaction([
+      prisma.savedSearch.update({ where: { id: search.id }, data: { lastRunAt: new Date() } }),
+      ...fresh.map(post => prisma.savedSearchSeen.create({
+        data: { savedSearchId: search.id, postId: post.id }
+      })),
+      ...(isFirstRun ? [] : fresh.map(post => prisma.alert.create({
+        data: {
+          userId: user.id,
+          savedSearchId: search.id,
+          postId: post.id,
+          title: post.title,
+          subreddit: post.subreddit,
+          permalink: post.permalink,
+          relevanceScore: post.relevanceScore
+        }
+      })))
+    ]);
+
+    // Results are the search update, then the seen markers, then the alerts
+    const created = results.slice(1 + fresh.length) as Alert[];
+    if (created.length > 0) {
+      await this.deliver(search, username, created);
+    }
+    for (const alert of created) {
+      WebhookService.emit(redditId, 'post.matched', {
+        savedSearch: { id: search.id, name: search.name },
+        post: {
+          id: alert.postId,
+          title: alert.title,
+          subreddit: alert.subreddit,
+          url: `https://reddit.com${alert.permalink}`,
+          relevanceScore: alert.relevanceScore
+        }
+      }).catch(error => console.error('Failed to queue post.matched webhook:', error));
+    }
+    return created;
+  }
+
+  /**
+   * Send new alerts through each channel the search has configured and record the outcome
+   */
+  private static async deliver(search: SavedSearch, username: string, alerts: Alert[]): Promise<void> {
+    const notification: AlertNotification = {
+      searchName: search.name,
+      username,
+      alerts: alerts.map(alert => ({
+        postId: alert.postId,
+        title: alert.title,
+        subreddit: alert.subreddit,
+        url: `https://reddit.com${alert.permalink}`,
+        relevanceScore: alert.relevanceScore
+      }))
+    };
+
+    const targets: Array<[string, string | null]> = [['webhook', search.webhookUrl], ['email', search.email]];
+    const errors: string[] = [];
+    let attempted = false;
+
+    for (const [channel, target] of targets) {
+      if (!target) continue;
+
+      const notifier = this.notifiers.get(channel);
+      if (!notifier) {
+        errors.push(`${channel}: no notifier configured`);
+        continue;
+      }
+
+      attempted = true;
+      try {
+        await notifier.send(target, notification);
+      } catch (error) {
+        console.error(`Saved search ${search.id}: ${channel} delivery failed:`, error);
+        errors.push(`${channel}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    if (!attempted && errors.length === 0) return;
+
+    await prisma.alert.updateMany({
+      where: { id: { in: alerts.map(alert => alert.id) } },
+      data: {
+        deliveredAt: errors.length === 0 ? new Date() : null,
+        deliveryError: errors.length > 0 ? errors.join('; ') : null
+      }
+    });
+  }
+}
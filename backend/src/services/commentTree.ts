@@ -0,0 +1,135 @@
+export const COMMENT_SORTS = ['confidence', 'top', 'new', 'controversial', 'old', 'qa'] as const;
+export type CommentSort = typeof COMMENT_SORTS[number];
+
+/**
+ * Replies Reddit left out of a response. With `children` they can be loaded with
+ * getMoreComments; an empty `children` means the thread continues past the depth
+ * limit and has to be fetched again starting at `parentId`.
+ */
+export interface MoreComments {
+  parentId: string;
+  count: number;
+  children: string[];
+}
+
+export interface RedditComment {
+  id: string;
+  parentId: string; // fullname: t3_ for top-level comments, t1_ for replies
+  author: string;
+  body: string;
+  score: number;
+  created: Date;
+  permalink: string;
+  depth: number;
+  isSubmitter: boolean;
+  stickied: boolean;
+  distinguished: string | null;
+  edited: boolean;
+  replies: RedditComment[];
+  more: MoreComments | null;
+}
+
+export interface CommentThread {
+  postId: string;
+  sort: CommentSort;
+  comments: RedditComment[];
+  more: MoreComments | null;
+}
+
+/**
+ * Turns Reddit's comment listings ("t1" and "more" things) into a typed tree
+ */
+export class CommentTree {
+  /**
+   * Build the tree from the comment listing of /comments/:id, where replies come nested
+   */
+  static fromListing(children: any[]): { comments: RedditComment[]; more: MoreComments | null } {
+    const comments: RedditComment[] = [];
+    let more: MoreComments | null = null;
+
+    for (const child of children || []) {
+      if (child.kind === 't1') {
+        const comment = this.toComment(child.data);
+        const nested = child.data.replies?.data?.children;
+        if (nested) {
+          const replies = this.fromListing(nested);
+          comment.replies = replies.comments;
+          comment.more = replies.more;
+        }
+        comments.push(comment);
+      } else if (child.kind === 'more') {
+        more = this.mergeMore(more, this.toMore(child.data));
+      }
+    }
+
+    return { comments, more };
+  }
+
+  /**
+   * Build the tree from the flat list /api/morechildren returns. Things whose parent
+   * isn't in the list are roots.
+   */
+  static fromFlat(things: any[]): { comments: RedditComment[]; more: MoreComments | null } {
+    const byFullname = new Map<string, RedditComment>();
+    for (const thing of things || []) {
+      if (thing.kind === 't1') {
+        byFullname.set(`t1_${thing.data.id}`, this.toComment(thing.data));
+      }
+    }
+
+    const comments: RedditComment[] = [];
+    let more: MoreComments | null = null;
+
+    for (const thing of things || []) {
+      const parent = byFullname.get(thing.data.parent_id);
+      if (thing.kind === 't1') {
+        const comment = byFullname.get(`t1_${thing.data.id}`)!;
+        if (parent) parent.replies.push(comment);
+        else comments.push(comment);
+      } else if (thing.kind === 'more') {
+        const loadMore = this.toMore(thing.data);
+        if (parent) parent.more = this.mergeMore(parent.more, loadMore);
+        else more = this.mergeMore(more, loadMore);
+      }
+    }
+
+    return { comments, more };
+  }
+
+  private static toComment(data: any): RedditComment {
+    return {
+      id: data.id,
+      parentId: data.parent_id,
+      author: data.author,
+      body: data.body,
+      score: data.score,
+      created: new Date(data.created_utc * 1000),
+      permalink: data.permalink,
+      depth: data.depth ?? 0,
+      isSubmitter: !!data.is_submitter,
+      stickied: !!data.stickied,
+      distinguished: data.distinguished || null,
+      edited: !!data.edited,
+      replies: [],
+      more: null
+    };
+  }
+
+  private static toMore(data: any): MoreComments {
+    return {
+      parentId: data.parent_id,
+      count: data.count || 0,
+      children: data.children || []
+    };
+  }
+
+  // Reddit can split one parent's missing replies over several "more" things
+  private static mergeMore(existing: MoreComments | null, next: MoreComments): MoreComments {
+    if (!existing) return next;
+    return {
+      parentId: existing.parentId,
+      count: existing.count + next.count,
+      children: [...existing.children, ...next.children]
+    };
+  }
+}
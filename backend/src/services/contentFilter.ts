@@ -1,4 +1,5 @@
 import { RedditPost } from './reddit';
+import { TextMatcher, CompiledPattern } from './textMatcher';
 
 export interface ContentFilter {
   categories: string[];
@@ -16,6 +17,25 @@ export interface FilterPreset {
   filter: ContentFilter;
 }
 
+/**
+ * Why a post got its relevance score: every rule that added or took away points
+ */
+export interface ScoreBreakdown {
+  total: number; // clamped at 0
+  recency: { bucket: 'day' | 'week' | 'month' | 'older' | 'over_a_year'; points: number };
+  categories: Array<{ category: string; points: number }>;
+  keywords: Array<{ keyword: string; points: number }>;
+  excludes: Array<{ pattern: string; points: number }>;
+  intents: Array<{ intent: string; pattern: string; points: number }>;
+  engagement: number;
+  contentType: number;
+}
+
+export interface ScoredPost extends RedditPost {
+  relevanceScore: number;
+  scoreBreakdown: ScoreBreakdown;
+}
+
 export const BUSINESS_CATEGORIES = {
   ENTREPRENEURSHIP: {
     name: "Entrepreneurship",
@@ -91,12 +111,14 @@ export const EXCLUDE_PATTERNS = [
   
   // Welcome posts and announcements (often old)
   "welcome to", "community subreddit", "essential information", "get started",
-  "about this subreddit", "rules", "guidelines", "moderator", "announcement",
+  "about this subreddit", "rules -\"business rules\"", "guidelines", "moderator", "announcement",
   
   // Art/creative content that's not business-focused  
-  "art", "creative", "design", "runway", "video generation", "ai art"
+  "art", "creative", "design -\"design system\" -\"design systems\"", "runway", "video generation", "ai art"
 ];
 
+const CONTENT_TYPES: ContentFilter['contentTypes'] = ['text', 'image', 'video', 'link'];
+
 export const FILTER_PRESETS: FilterPreset[] = [
   {
     id: "business_opportunities",
@@ -165,70 +187,124 @@ export const FILTER_PRESETS: FilterPreset[] = [
   }
 ];
 
+interface CompiledFilter {
+  keywords: CompiledPattern[];
+  excludeKeywords: CompiledPattern[];
+}
+
+// Filters are compiled the first time they're used; presets are long-lived objects so this happens once each
+const compiledFilters = new WeakMap<ContentFilter, CompiledFilter>();
+
+const compiledIntents = new Map(
+  Object.entries(INTENT_SIGNALS).map(([key, intent]) => [key, TextMatcher.compileAll(intent.patterns)])
+);
+
 export class ContentFilterService {
-  static scorePost(post: RedditPost, filter: ContentFilter): number {
-    let score = 0;
-    
+  private static compileFilter(filter: ContentFilter): CompiledFilter {
+    let compiled = compiledFilters.get(filter);
+    if (!compiled) {
+      compiled = {
+        keywords: TextMatcher.compileAll(filter.keywords),
+        excludeKeywords: TextMatcher.compileAll(filter.excludeKeywords)
+      };
+      compiledFilters.set(filter, compiled);
+    }
+    return compiled;
+  }
+
+  static scorePost(post: RedditPost, filter: ContentFilter): ScoreBreakdown {
     // Time-based scoring: Heavily favor recent posts
     const postAge = Date.now() - post.created.getTime();
     const dayInMs = 24 * 60 * 60 * 1000;
     
-    if (postAge < dayInMs) score += 10; // Less than 1 day old
-    else if (postAge < dayInMs * 7) score += 5; // Less than 1 week old  
-    else if (postAge < dayInMs * 30) score += 2; // Less than 1 month old
-    else if (postAge > dayInMs * 365) score -= 15; // Older than 1 year - heavily penalize
+    let recency: ScoreBreakdown['recency'];
+    if (postAge < dayInMs) recency = { bucket: 'day', points: 10 }; // Less than 1 day old
+    else if (postAge < dayInMs * 7) recency = { bucket: 'week', points: 5 }; // Less than 1 week old  
+    else if (postAge < dayInMs * 30) recency = { bucket: 'month', points: 2 }; // Less than 1 month old
+    else if (postAge > dayInMs * 365) recency = { bucket: 'over_a_year', points: -15 }; // Older than 1 year - heavily penalize
+    else recency = { bucket: 'older', points: 0 };
     
     // Category matching
+    const categories: ScoreBreakdown['categories'] = [];
     const postSubreddit = post.subreddit.toLowerCase();
     for (const categoryKey of filter.categories) {
       const category = BUSINESS_CATEGORIES[categoryKey as keyof typeof BUSINESS_CATEGORIES];
       if (category?.subreddits.some(sub => postSubreddit.includes(sub.toLowerCase()))) {
-        score += 5;
+        categories.push({ category: categoryKey, points: 5 });
       }
     }
     
-    // Keyword matching
-    const content = (post.title + ' ' + post.content).toLowerCase();
-    for (const keyword of filter.keywords) {
-      if (content.includes(keyword.toLowerCase())) {
-        score += 2;
+    const compiled = this.compileFilter(filter);
+    const content = post.title + ' ' + post.content;
+    
+    // Keyword matching; a negation-only keyword ("-crypto") penalizes like an exclude word
+    const keywords: ScoreBreakdown['keywords'] = [];
+    const excludes: ScoreBreakdown['excludes'] = [];
+    for (const keyword of compiled.keywords) {
+      if (keyword.isNegationOnly) {
+        if (keyword.hitsNegation(content)) excludes.push({ pattern: keyword.source, points: -10 });
+      } else if (keyword.matches(content)) {
+        keywords.push({ keyword: keyword.source, points: 2 });
       }
     }
     
     // Exclude keyword penalty
-    for (const excludeKeyword of filter.excludeKeywords) {
-      if (content.includes(excludeKeyword.toLowerCase())) {
-        score -= 10;
+    for (const excludeKeyword of compiled.excludeKeywords) {
+      if (excludeKeyword.matches(content)) {
+        excludes.push({ pattern: excludeKeyword.source, points: -10 });
       }
     }
     
     // Intent signal detection
+    const intents: ScoreBreakdown['intents'] = [];
     for (const intentKey of filter.intentFilters) {
       const intent = INTENT_SIGNALS[intentKey as keyof typeof INTENT_SIGNALS];
-      if (intent?.patterns.some(pattern => content.includes(pattern.toLowerCase()))) {
-        score += intent.score;
+      const pattern = compiledIntents.get(intentKey)?.find(pattern => pattern.matches(content));
+      if (intent && pattern) {
+        intents.push({ intent: intentKey, pattern: pattern.source, points: intent.score });
       }
     }
     
     // Engagement boost
-    if (post.score >= 10) score += 2;
-    if (post.score >= 50) score += 3;
-    if (post.commentCount >= 10) score += 2;
+    let engagement = 0;
+    if (post.score >= 10) engagement += 2;
+    if (post.score >= 50) engagement += 3;
+    if (post.commentCount >= 10) engagement += 2;
     
     // Content type filtering
-    if (filter.contentTypes.includes(post.mediaType)) {
-      score += 1;
-    }
+    const contentType = filter.contentTypes.includes(post.mediaType) ? 1 : 0;
+    
+    const sum = (items: Array<{ points: number }>) => items.reduce((total, item) => total + item.points, 0);
+    const total = recency.points + sum(categories) + sum(keywords) + sum(excludes) + sum(intents) + engagement + contentType;
     
-    return Math.max(0, score);
+    return {
+      total: Math.max(0, total),
+      recency,
+      categories,
+      keywords,
+      excludes,
+      intents,
+      engagement,
+      contentType
+    };
   }
   
-  static filterPosts(posts: RedditPost[], filter: ContentFilter): RedditPost[] {
+  /**
+   * Every intent signal the post shows, regardless of any filter
+   */
+  static detectIntents(post: RedditPost): string[] {
+    const content = post.title + ' ' + post.content;
+    return Array.from(compiledIntents.entries())
+      .filter(([, patterns]) => patterns.some(pattern => pattern.matches(content)))
+      .map(([intentKey]) => intentKey);
+  }
+
+  static filterPosts(posts: RedditPost[], filter: ContentFilter): ScoredPost[] {
     return posts
-      .map(post => ({
-        ...post,
-        relevanceScore: this.scorePost(post, filter)
-      }))
+      .map(post => {
+        const scoreBreakdown = this.scorePost(post, filter);
+        return { ...post, relevanceScore: scoreBreakdown.total, scoreBreakdown };
+      })
       .filter(post => post.relevanceScore >= filter.minScore)
       .sort((a, b) => b.relevanceScore - a.relevanceScore);
   }
@@ -239,4 +315,81 @@ export class ContentFilterService {
     
     return this.filterPosts(posts, preset.filter);
   }
+
+  /**
+   * Check a user-supplied filter definition. Returns the filter with defaults filled in,
+   * or the list of problems found.
+   */
+  static validateFilter(input: any): { filter?: ContentFilter; errors: string[] } {
+    const errors: string[] = [];
+
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      return { errors: ['filter must be an object'] };
+    }
+
+    const stringList = (field: string): string[] => {
+      const value = input[field];
+      if (value === undefined) return [];
+      if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+        errors.push(`${field} must be an array of strings`);
+        return [];
+      }
+      return value.map((item: string) => item.trim()).filter(Boolean);
+    };
+
+    const categories = stringList('categories');
+    const keywords = stringList('keywords');
+    const excludeKeywords = stringList('excludeKeywords');
+    const intentFilters = stringList('intentFilters');
+    const contentTypes = input.contentTypes === undefined ? [...CONTENT_TYPES] : stringList('contentTypes');
+
+    for (const category of categories) {
+      if (!(category in BUSINESS_CATEGORIES)) {
+        errors.push(`Unknown category "${category}". Valid categories: ${Object.keys(BUSINESS_CATEGORIES).join(', ')}`);
+      }
+    }
+
+    for (const pattern of [...keywords, ...excludeKeywords]) {
+      if (TextMatcher.compile(pattern).isEmpty) {
+        errors.push(`"${pattern}" has no words to match`);
+      }
+    }
+
+    for (const excludeKeyword of excludeKeywords) {
+      if (TextMatcher.compile(excludeKeyword).isNegationOnly) {
+        errors.push(`Exclude word "${excludeKeyword}" needs at least one word that isn't negated`);
+      }
+    }
+
+    for (const intent of intentFilters) {
+      if (!(intent in INTENT_SIGNALS)) {
+        errors.push(`Unknown intent "${intent}". Valid intents: ${Object.keys(INTENT_SIGNALS).join(', ')}`);
+      }
+    }
+
+    for (const contentType of contentTypes) {
+      if (!CONTENT_TYPES.includes(contentType as ContentFilter['contentTypes'][number])) {
+        errors.push(`Unknown content type "${contentType}". Valid content types: ${CONTENT_TYPES.join(', ')}`);
+      }
+    }
+
+    const minScore = input.minScore === undefined ? 0 : input.minScore;
+    if (typeof minScore !== 'number' || !Number.isFinite(minScore) || minScore < 0) {
+      errors.push('minScore must be a non-negative number');
+    }
+
+    if (errors.length > 0) return { errors };
+
+    return {
+      filter: {
+        categories,
+        keywords,
+        excludeKeywords,
+        minScore,
+        contentTypes: contentTypes as ContentFilter['contentTypes'],
+        intentFilters
+      },
+      errors
+    };
+  }
 }
\ No newline at end of file
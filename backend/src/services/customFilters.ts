@@ -0,0 +1,80 @@
+import { PrismaClient, CustomFilter } from '@prisma/client';
+import { ContentFilter, FilterPreset, FILTER_PRESETS } from './contentFilter';
+
+const prisma = new PrismaClient();
+
+export interface CustomFilterInput {
+  name: string;
+  description?: string;
+  filter: ContentFilter;
+}
+
+/**
+ * Named filter presets that users define for themselves, stored alongside the built-in FILTER_PRESETS
+ */
+export class CustomFilterService {
+  static async listPresets(redditId: string): Promise<FilterPreset[]> {
+    const rows = await prisma.customFilter.findMany({
+      where: { user: { redditId } },
+      orderBy: { createdAt: 'asc' }
+    });
+    return rows.map(row => this.toPreset(row));
+  }
+
+  static async getPreset(redditId: string, id: string): Promise<FilterPreset | null> {
+    if (!id) return null;
+    const row = await prisma.customFilter.findFirst({ where: { id, user: { redditId } } });
+    return row ? this.toPreset(row) : null;
+  }
+
+  /**
+   * Look up a preset by ID among the built-ins first, then the user's own
+   */
+  static async resolvePreset(redditId: string, id: string): Promise<FilterPreset | null> {
+    return FILTER_PRESETS.find(preset => preset.id === id) || this.getPreset(redditId, id);
+  }
+
+  static async createPreset(redditId: string, input: CustomFilterInput): Promise<FilterPreset> {
+    const user = await prisma.user.findUnique({ where: { redditId } });
+    if (!user) throw new Error('User not found');
+
+    const row = await prisma.customFilter.create({
+      data: {
+        userId: user.id,
+        name: input.name,
+        description: input.description || '',
+        filter: JSON.stringify(input.filter)
+      }
+    });
+    return this.toPreset(row);
+  }
+
+  static async updatePreset(redditId: string, id: string, input: Partial<CustomFilterInput>): Promise<FilterPreset | null> {
+    const existing = await prisma.customFilter.findFirst({ where: { id, user: { redditId } } });
+    if (!existing) return null;
+
+    const row = await prisma.customFilter.update({
+      where: { id },
+      data: {
+        ...(input.name !== undefined && { name: input.name }),
+        ...(input.description !== undefined && { description: input.description }),
+        ...(input.filter !== undefined && { filter: JSON.stringify(input.filter) })
+      }
+    });
+    return this.toPreset(row);
+  }
+
+  static async deletePreset(redditId: string, id: string): Promise<boolean> {
+    const { count } = await prisma.customFilter.deleteMany({ where: { id, user: { redditId } } });
+    return count > 0;
+  }
+
+  private static toPreset(row: CustomFilter): FilterPreset {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      filter: JSON.parse(row.filter)
+    };
+  }
+}
@@ -0,0 +1,269 @@
+import { PrismaClient, Draft as DraftRow, DraftRevision as DraftRevisionRow } from '@prisma/client';
+import { RedditAction } from './reddit';
+import { ActionSuggestion } from './actions';
+
+const prisma = new PrismaClient();
+
+// Autosaves this soon after a user revision was started fold into it instead of adding another
+const REVISION_WINDOW = 5 * 60 * 1000;
+
+export const DRAFT_TYPES = ['post', 'comment'] as const;
+export type DraftType = typeof DRAFT_TYPES[number];
+
+export const DRAFT_STATUSES = ['draft', 'publishing', 'published'] as const;
+export type DraftStatus = typeof DRAFT_STATUSES[number];
+
+// Where a revision's text came from: typed by the user, rewritten by refineUserInput, or an accepted suggestion
+export const DRAFT_REVISION_SOURCES = ['user', 'ai_refined', 'suggestion'] as const;
+export type DraftRevisionSource = typeof DRAFT_REVISION_SOURCES[number];
+
+export interface DraftRevision {
+  id: string;
+  source: DraftRevisionSource;
+  title: string;
+  content: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface Draft {
+  id: string;
+  type: DraftType;
+  subreddit: string;
+  postId: string | null;
+  parentId: string | null;
+  title: string;
+  content: string;
+  suggestion: ActionSuggestion | null;
+  status: DraftStatus;
+  actionId: string | null;
+  revisionCount: number;
+  revisions?: DraftRevision[]; // Oldest first; only loaded for a single draft
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface DraftInput {
+  type: DraftType;
+  subreddit: string;
+  postId?: string;
+  parentId?: string;
+  title?: string;
+  content: string;
+  suggestion?: ActionSuggestion;
+  source?: DraftRevisionSource;
+}
+
+export interface DraftChange {
+  title?: string;
+  content: string;
+  source?: DraftRevisionSource;
+  suggestion?: ActionSuggestion | null;
+}
+
+/**
+ * Thrown when a draft that's being or has been published is changed
+ */
+export class DraftStateError extends Error {
+  constructor(public readonly status: DraftStatus, change: string) {
+    super(`A ${status} draft can't be ${change}`);
+    this.name = 'DraftStateError';
+  }
+}
+
+/**
+ * Posts and comments being written, saved as the user types so they survive closing the
+ * modal or reloading. Every save is kept as a revision so AI rewrites can be compared with
+ * and undone to what the user wrote.
+ */
+export class DraftService {
+  static async create(redditId: string, input: DraftInput): Promise<Draft> {
+    const user = await prisma.user.findUnique({ where: { redditId } });
+    if (!user) throw new Error('User not found');
+
+    const row = await prisma.draft.create({
+      data: {
+        userId: user.id,
+        type: input.type,
+        subreddit: input.subreddit,
+        postId: input.postId || null,
+        parentId: input.parentId || null,
+        title: input.title || '',
+        content: input.content,
+        suggestion: input.suggestion ? JSON.stringify(input.suggestion) : null,
+        revisions: {
+          create: { source: input.source || 'user', title: input.title || '', content: input.content }
+        }
+      },
+      include: { _count: { select: { revisions: true } } }
+    });
+    return this.toDraft(row);
+  }
+
+  static async list(
+    redditId: string,
+    options: { statuses?: DraftStatus[]; postId?: string; subreddit?: string; limit: number }
+  ): Promise<Draft[]> {
+    const rows = await prisma.draft.findMany({
+      where: {
+        user: { redditId },
+        ...(options.statuses && { status: { in: options.statuses } }),
+        ...(options.postId && { postId: options.postId }),
+        ...(options.subreddit && { subreddit: options.subreddit })
+      },
+      include: { _count: { select: { revisions: true } } },
+      orderBy: { updatedAt: 'desc' },
+      take: options.limit
+    });
+    return rows.map(row => this.toDraft(row));
+  }
+
+  /**
+   * A draft with its full revision history
+   */
+  static async get(redditId: string, id: string): Promise<Draft | null> {
+    const row = await prisma.draft.findFirst({
+      where: { id, user: { redditId } },
+      include: {
+        revisions: { orderBy: { createdAt: 'asc' } },
+        _count: { select: { revisions: true } }
+      }
+    });
+    return row ? this.toDraft(row) : null;
+  }
+
+  /**
+   * Save new text. Unchanged text adds nothing, and a user's autosaves fold into their
+   * latest revision for a few minutes so typing doesn't leave a revision per keystroke.
+   */
+  static async save(redditId: string, id: string, change: DraftChange): Promise<Draft | null> {
+    const existing = await prisma.draft.findFirst({
+      where: { id, user: { redditId } },
+      include: { revisions: { orderBy: { createdAt: 'desc' }, take: 1 } }
+    });
+    if (!existing) return null;
+    if (existing.status !== 'draft') throw new DraftStateError(existing.status as DraftStatus, 'edited');
+
+    const source = change.source || 'user';
+    const title = change.title ?? existing.title;
+    const latest = existing.revisions[0];
+    const changed = !latest || latest.content !== change.content || latest.title !== title;
+
+    await prisma.$transaction([
+      ...(changed
+        ? [this.foldsInto(latest, source)
+          ? prisma.draftRevision.update({ where: { id: latest.id }, data: { title, content: change.content } })
+          : prisma.draftRevision.create({ data: { draftId: id, source, title, content: change.content } })]
+        : []),
+      prisma.draft.update({
+        where: { id },
+        data: {
+          title,
+          content: change.content,
+          ...(change.suggestion !== undefined && {
+            suggestion: change.suggestion ? JSON.stringify(change.suggestion) : null
+          })
+        }
+      })
+    ]);
+    return this.get(redditId, id);
+  }
+
+  /**
+   * Whether a save from `source` should update the latest revision rather than add one
+   */
+  static foldsInto(latest: Pick<DraftRevisionRow, 'source' | 'createdAt'> | undefined, source: DraftRevisionSource, now = new Date()): boolean {
+    return !!latest
+      && source === 'user'
+      && latest.source === 'user'
+      && now.getTime() - latest.createdAt.getTime() < REVISION_WINDOW;
+  }
+
+  static async delete(redditId: string, id: string): Promise<boolean> {
+    const existing = await prisma.draft.findFirst({ where: { id, user: { redditId } } });
+    if (!existing) return false;
+    if (existing.status === 'publishing') throw new DraftStateError('publishing', 'deleted');
+
+    await prisma.draft.delete({ where: { id } });
+    return true;
+  }
+
+  /**
+   * Move a draft to `publishing` so it can't be sent twice. Returns null when there's no such draft.
+   */
+  static async claim(redditId: string, id: string): Promise<Draft | null> {
+    const existing = await this.get(redditId, id);
+    if (!existing) return null;
+
+    const { count } = await prisma.draft.updateMany({
+      where: { id, status: 'draft' },
+      data: { status: 'publishing' }
+    });
+    if (count === 0) {
+      throw new DraftStateError((await this.get(redditId, id))!.status, 'published');
+    }
+    return { ...existing, status: 'publishing' };
+  }
+
+  /**
+   * Finish a publish started by claim: published with the logged action, or back to an
+   * editable draft when `actionId` is left out because posting failed
+   */
+  static async release(id: string, actionId?: string | null): Promise<void> {
+    await prisma.draft.update({
+      where: { id },
+      data: actionId === undefined ? { status: 'draft' } : { status: 'published', actionId }
+    });
+  }
+
+  /**
+   * Mark a draft published after it was posted some other way, like the HomeFeed modal
+   */
+  static async markPublished(redditId: string, id: string, actionId: string | null): Promise<void> {
+    await prisma.draft.updateMany({
+      where: { id, user: { redditId }, status: 'draft' },
+      data: { status: 'published', actionId }
+    });
+  }
+
+  static toRedditAction(draft: Draft): RedditAction {
+    return {
+      id: `draft_${draft.id}`,
+      type: draft.type,
+      title: draft.title,
+      content: draft.content,
+      targetSubreddit: draft.subreddit,
+      ...(draft.parentId && { parentId: draft.parentId })
+    };
+  }
+
+  static toDraft(
+    row: DraftRow & { revisions?: DraftRevisionRow[]; _count?: { revisions: number } }
+  ): Draft {
+    return {
+      id: row.id,
+      type: row.type as DraftType,
+      subreddit: row.subreddit,
+      postId: row.postId,
+      parentId: row.parentId,
+      title: row.title,
+      content: row.content,
+      suggestion: row.suggestion ? JSON.parse(row.suggestion) : null,
+      status: row.status as DraftStatus,
+      actionId: row.actionId,
+      revisionCount: row._count?.revisions ?? row.revisions?.length ?? 0,
+      ...(row.revisions && {
+        revisions: row.revisions.map(revision => ({
+          id: revision.id,
+          source: revision.source as DraftRevisionSource,
+          title: revision.title,
+          content: revision.content,
+          createdAt: revision.createdAt,
+          updatedAt: revision.updatedAt
+        }))
+      }),
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt
+    };
+  }
+}
@@ -0,0 +1,376 @@
+import { RedditPost } from './reddit';
+import { BUSINESS_CATEGORIES, INTENT_SIGNALS } from './contentFilter';
+import { TextMatcher } from './textMatcher';
+
+type Operator = ':' | '=' | '>' | '<' | '>=' | '<=';
+
+type TokenType = 'word' | 'quoted' | 'op' | 'lparen' | 'rparen' | 'and' | 'or' | 'not' | 'end';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+type QueryNode =
+  | { type: 'and' | 'or'; left: QueryNode; right: QueryNode }
+  | { type: 'not'; operand: QueryNode }
+  | { type: 'field'; field: string; op: Operator; value: string; position: number }
+  | { type: 'text'; pattern: string; position: number }; // TextMatcher pattern
+
+export type PostPredicate = (post: RedditPost) => boolean;
+
+/**
+ * A query that couldn't be parsed or refers to an unknown field or value.
+ * `position` is the 0-based character offset the problem starts at.
+ */
+export class FeedQuerySyntaxError extends Error {
+  constructor(message: string, readonly position: number, readonly token?: string) {
+    super(message);
+    this.name = 'FeedQuerySyntaxError';
+  }
+
+  toJSON() {
+    return { message: this.message, position: this.position, token: this.token };
+  }
+}
+
+const FIELD_ALIASES: Record<string, string> = {
+  subreddit: 'subreddit',
+  sub: 'subreddit',
+  flair: 'flair',
+  mediatype: 'mediaType',
+  type: 'mediaType',
+  score: 'score',
+  commentcount: 'commentCount',
+  comments: 'commentCount',
+  upvoteratio: 'upvoteRatio',
+  ratio: 'upvoteRatio',
+  isnsfw: 'isNSFW',
+  nsfw: 'isNSFW',
+  created: 'created',
+  age: 'age',
+  intent: 'intent',
+  category: 'category'
+};
+
+const NUMERIC_FIELDS = ['score', 'commentCount', 'upvoteRatio'];
+const STRING_FIELDS = ['subreddit', 'flair', 'mediaType'];
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000
+};
+
+/**
+ * Boolean query language for the home feed, e.g.
+ *
+ *   subreddit:(saas OR startups) AND intent:TOOL_REQUESTS AND score>10 AND NOT flair:Meme AND age<2d
+ *
+ * - `field:value` / `field=value` for equality, `> < >= <=` for numbers, dates and age
+ * - `field:(a OR b)` applies the grouped values to the same field
+ * - AND, OR, NOT (or a leading `-`), parentheses; words next to each other are ANDed
+ * - bare words and "quoted phrases" search title and body like filter keywords
+ */
+export class FeedQueryService {
+  /**
+   * Parse and compile a query to a predicate. Throws FeedQuerySyntaxError.
+   */
+  static compile(query: string): PostPredicate {
+    return this.toPredicate(this.parse(query));
+  }
+
+  private static parse(query: string): QueryNode {
+    return new QueryParser(this.tokenize(query), query).parse();
+  }
+
+  private static tokenize(query: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < query.length) {
+      const char = query[i];
+
+      if (/\s/.test(char)) {
+        i++;
+        continue;
+      }
+
+      if (char === '(' || char === ')') {
+        tokens.push({ type: char === '(' ? 'lparen' : 'rparen', value: char, position: i });
+        i++;
+        continue;
+      }
+
+      const op = /^(>=|<=|[:=<>])/.exec(query.slice(i));
+      if (op) {
+        tokens.push({ type: 'op', value: op[0], position: i });
+        i += op[0].length;
+        continue;
+      }
+
+      if (char === '"') {
+        const close = query.indexOf('"', i + 1);
+        if (close === -1) throw new FeedQuerySyntaxError('Unterminated quoted phrase', i, '"');
+        tokens.push({ type: 'quoted', value: query.slice(i + 1, close), position: i });
+        i = close + 1;
+        continue;
+      }
+
+      // A leading "-" negates the next term, except in a value like score>-5
+      const previous = tokens[tokens.length - 1];
+      if (char === '-' && previous?.type !== 'op' && i + 1 < query.length && !/\s/.test(query[i + 1])) {
+        tokens.push({ type: 'not', value: '-', position: i });
+        i++;
+        continue;
+      }
+
+      const word = /^[^\s()":=<>]+/.exec(query.slice(i))![0];
+      const keyword = word.toUpperCase();
+      const type: TokenType = keyword === 'AND' ? 'and' : keyword === 'OR' ? 'or' : keyword === 'NOT' ? 'not' : 'word';
+      tokens.push({ type, value: word, position: i });
+      i += word.length;
+    }
+
+    tokens.push({ type: 'end', value: '', position: query.length });
+    return tokens;
+  }
+
+  private static toPredicate(node: QueryNode): PostPredicate {
+    switch (node.type) {
+      case 'and': {
+        const left = this.toPredicate(node.left);
+        const right = this.toPredicate(node.right);
+        return post => left(post) && right(post);
+      }
+      case 'or': {
+        const left = this.toPredicate(node.left);
+        const right = this.toPredicate(node.right);
+        return post => left(post) || right(post);
+      }
+      case 'not': {
+        const operand = this.toPredicate(node.operand);
+        return post => !operand(post);
+      }
+      case 'text': {
+        const pattern = TextMatcher.compile(node.pattern);
+        return post => pattern.matches(post.title + ' ' + post.content);
+      }
+      case 'field':
+        return this.fieldPredicate(node);
+    }
+  }
+
+  private static fieldPredicate(node: Extract<QueryNode, { type: 'field' }>): PostPredicate {
+    const { field, op, value, position } = node;
+    const fail = (message: string): never => {
+      throw new FeedQuerySyntaxError(message, position, value);
+    };
+    const requireEquality = () => {
+      if (op !== ':' && op !== '=') fail(`${field} only supports ":" comparisons`);
+    };
+
+    if (STRING_FIELDS.includes(field)) {
+      requireEquality();
+      const wanted = (field === 'subreddit' ? value.replace(/^r\//i, '') : value).toLowerCase();
+      return post => String(post[field as keyof RedditPost] ?? '').toLowerCase() === wanted;
+    }
+
+    if (NUMERIC_FIELDS.includes(field)) {
+      const number = Number(value);
+      if (value === '' || !Number.isFinite(number)) fail(`${field} needs a number, got "${value}"`);
+      return post => this.compare(post[field as keyof RedditPost] as number, op, number);
+    }
+
+    if (field === 'isNSFW') {
+      requireEquality();
+      const flag = ['true', 'yes', '1'].includes(value.toLowerCase())
+        ? true
+        : ['false', 'no', '0'].includes(value.toLowerCase()) ? false : fail(`nsfw needs true or false, got "${value}"`);
+      return post => post.isNSFW === flag;
+    }
+
+    if (field === 'created') {
+      const time = Date.parse(value);
+      if (Number.isNaN(time)) fail(`created needs a date like 2024-01-31, got "${value}"`);
+      return post => this.compare(post.created.getTime(), op, time);
+    }
+
+    if (field === 'age') {
+      const duration = /^(\d+(?:\.\d+)?)([mhdw])$/i.exec(value);
+      if (!duration) fail(`age needs a duration like 30m, 12h, 2d or 1w, got "${value}"`);
+      const ms = Number(duration![1]) * DURATION_UNITS[duration![2].toLowerCase()];
+      return post => this.compare(Date.now() - post.created.getTime(), op, ms);
+    }
+
+    if (field === 'intent') {
+      requireEquality();
+      const key = Object.keys(INTENT_SIGNALS).find(k => k.toLowerCase() === value.toLowerCase());
+      if (!key) fail(`Unknown intent "${value}". Valid intents: ${Object.keys(INTENT_SIGNALS).join(', ')}`);
+      const patterns = TextMatcher.compileAll(INTENT_SIGNALS[key as keyof typeof INTENT_SIGNALS].patterns);
+      return post => {
+        const content = post.title + ' ' + post.content;
+        return patterns.some(pattern => pattern.matches(content));
+      };
+    }
+
+    // category: same subreddit match scorePost uses
+    requireEquality();
+    const key = Object.keys(BUSINESS_CATEGORIES).find(k => k.toLowerCase() === value.toLowerCase());
+    if (!key) fail(`Unknown category "${value}". Valid categories: ${Object.keys(BUSINESS_CATEGORIES).join(', ')}`);
+    const subreddits = BUSINESS_CATEGORIES[key as keyof typeof BUSINESS_CATEGORIES].subreddits.map(sub => sub.toLowerCase());
+    return post => subreddits.some(sub => post.subreddit.toLowerCase().includes(sub));
+  }
+
+  private static compare(actual: number, op: Operator, expected: number): boolean {
+    switch (op) {
+      case '>': return actual > expected;
+      case '<': return actual < expected;
+      case '>=': return actual >= expected;
+      case '<=': return actual <= expected;
+      default: return actual === expected;
+    }
+  }
+}
+
+/**
+ * Recursive-descent parser; precedence from loosest to tightest is OR, AND, NOT
+ */
+class QueryParser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[], private readonly query: string) {}
+
+  parse(): QueryNode {
+    if (this.peek().type === 'end') {
+      throw new FeedQuerySyntaxError('Query is empty', 0);
+    }
+
+    const node = this.parseOr(() => this.parseTerm());
+    const next = this.peek();
+    if (next.type !== 'end') {
+      throw this.unexpected(next);
+    }
+    return node;
+  }
+
+  private parseOr(operand: () => QueryNode): QueryNode {
+    let node = this.parseAnd(operand);
+    while (this.peek().type === 'or') {
+      this.index++;
+      node = { type: 'or', left: node, right: this.parseAnd(operand) };
+    }
+    return node;
+  }
+
+  private parseAnd(operand: () => QueryNode): QueryNode {
+    let node = this.parseNot(operand);
+    for (;;) {
+      const next = this.peek();
+      if (next.type === 'and') {
+        this.index++;
+      } else if (!['word', 'quoted', 'lparen', 'not'].includes(next.type)) {
+        break;
+      }
+      node = { type: 'and', left: node, right: this.parseNot(operand) };
+    }
+    return node;
+  }
+
+  private parseNot(operand: () => QueryNode): QueryNode {
+    if (this.peek().type === 'not') {
+      this.index++;
+      return { type: 'not', operand: this.parseNot(operand) };
+    }
+    return operand();
+  }
+
+  private parseGroup(operand: () => QueryNode): QueryNode {
+    const open = this.tokens[this.index++];
+    const node = this.parseOr(operand);
+    if (this.peek().type !== 'rparen') {
+      throw new FeedQuerySyntaxError('Missing closing parenthesis', open.position, '(');
+    }
+    this.index++;
+    return node;
+  }
+
+  private parseTerm(): QueryNode {
+    const token = this.peek();
+
+    if (token.type === 'lparen') {
+      return this.parseGroup(() => this.parseTerm());
+    }
+
+    if (token.type === 'quoted') {
+      this.index++;
+      return { type: 'text', pattern: `"${token.value}"`, position: token.position };
+    }
+
+    if (token.type !== 'word') {
+      throw this.unexpected(token);
+    }
+
+    this.index++;
+    if (this.peek().type !== 'op') {
+      return { type: 'text', pattern: token.value, position: token.position };
+    }
+
+    const field = FIELD_ALIASES[token.value.toLowerCase()];
+    if (!field) {
+      throw new FeedQuerySyntaxError(
+        `Unknown field "${token.value}". Valid fields: ${Object.keys(FIELD_ALIASES).join(', ')}`,
+        token.position,
+        token.value
+      );
+    }
+
+    const op = this.tokens[this.index++].value as Operator;
+    return this.parseValue(field, op, token.position);
+  }
+
+  /**
+   * The value after `field:`, either a single word or a parenthesized boolean of values
+   */
+  private parseValue(field: string, op: Operator, position: number): QueryNode {
+    const token = this.peek();
+
+    if (token.type === 'lparen') {
+      if (op !== ':' && op !== '=') {
+        throw new FeedQuerySyntaxError(`Grouped values only work with ":"`, token.position, token.value);
+      }
+      return this.parseGroup(() => this.parseValueTerm(field, op, position));
+    }
+
+    return this.parseValueTerm(field, op, position);
+  }
+
+  private parseValueTerm(field: string, op: Operator, position: number): QueryNode {
+    const token = this.peek();
+
+    if (token.type === 'lparen') {
+      return this.parseGroup(() => this.parseValueTerm(field, op, position));
+    }
+
+    if (token.type !== 'word' && token.type !== 'quoted') {
+      const shown = this.query.slice(position, token.position).trim();
+      throw new FeedQuerySyntaxError(`Expected a value after "${shown}"`, token.position, token.value || undefined);
+    }
+
+    this.index++;
+    return { type: 'field', field, op, value: token.value, position: token.position };
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private unexpected(token: Token): FeedQuerySyntaxError {
+    if (token.type === 'end') {
+      return new FeedQuerySyntaxError('Unexpected end of query', token.position);
+    }
+    return new FeedQuerySyntaxError(`Unexpected "${token.value}"`, token.position, token.value);
+  }
+}
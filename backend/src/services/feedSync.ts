@@ -0,0 +1,313 @@
+import { PrismaClient, FeedSubscription } from '@prisma/client';
+import { RedditService, RedditPost } from './reddit';
+import { RedditClientPool } from './redditClientPool';
+import { RedditReauthRequiredError } from './tokenManager';
+import { PostStore } from './postStore';
+import { ScoredPost } from './contentFilter';
+
+const prisma = new PrismaClient();
+
+const SYNC_INTERVAL = 5 * 60 * 1000;
+// Subscriptions pulled per user per cycle; the rest are rotated through on later cycles
+export const SUBREDDITS_PER_SYNC = 6;
+// Slots of each cycle kept for unpinned subscriptions, so a lot of pinned ones can't starve the rest
+export const UNPINNED_SYNC_SLOTS = 2;
+// Boosted subreddits come due for a sync this many times as often as normal ones
+export const BOOSTED_SYNC_FACTOR = 3;
+// Posts pulled the first time we see a subreddit (no cursor yet)
+const INITIAL_FETCH = 25;
+// Posts pulled per subreddit once a cursor exists; a bigger gap is caught up over later cycles
+const INCREMENTAL_FETCH = 100;
+// Reddit returns an empty listing forever if the cursor post is deleted, so restart from scratch
+// when a cursor hasn't moved for this long
+const STALE_CURSOR_AGE = 24 * 60 * 60 * 1000;
+// Subreddits synced and shown for users without subscriptions. Not r/popular: its posts are
+// stored under their own subreddits, so the feed couldn't be limited to them.
+const FALLBACK_SUBREDDITS = ['Entrepreneur', 'startups', 'smallbusiness'];
+
+// Stored posts read per batch when filling a page, and how many batches one page may scan
+const MIN_SCAN_BATCH = 50;
+const MAX_SCAN_BATCHES = 5;
+
+export const SUBSCRIPTION_WEIGHTS = ['pinned', 'boosted', 'normal', 'muted'] as const;
+export type SubscriptionWeight = typeof SUBSCRIPTION_WEIGHTS[number];
+
+// Added to a post's relevance when ordering a filtered page. Muted subreddits are left out of the feed entirely.
+const WEIGHT_BONUS: Record<SubscriptionWeight, number> = {
+  pinned: 10,
+  boosted: 5,
+  normal: 0,
+  muted: 0
+};
+
+export interface FeedPageOptions {
+  after?: string;
+  limit: number;
+  subreddit?: string;
+  // Filters (and may reorder) a batch of posts; posts it drops are skipped
+  select?: (posts: RedditPost[]) => RedditPost[];
+}
+
+export interface FeedPage {
+  posts: RedditPost[];
+  nextAfter: string | null;
+  scanned: number;
+}
+
+/**
+ * Keeps the local post store up to date with each active user's subscriptions, pulling
+ * only posts newer than a per-subreddit cursor, and serves the home feed from that store.
+ */
+export class FeedSyncService {
+  private static timer: NodeJS.Timeout | null = null;
+  private static running = false;
+  private static inFlight = new Map<string, Promise<void>>();
+
+  static start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.syncAll(), SYNC_INTERVAL);
+    this.syncAll();
+  }
+
+  /**
+   * Sync every user with a live session, one at a time
+   */
+  static async syncAll(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const users = await prisma.user.findMany({
+        where: {
+          sessions: { some: { revokedAt: null, refreshExpiresAt: { gt: new Date() } } }
+        },
+        select: { redditId: true }
+      });
+
+      for (const user of users) {
+        try {
+          await this.syncUser(user.redditId);
+        } catch (error) {
+          if (error instanceof RedditReauthRequiredError) {
+            console.warn(`Skipping feed sync for ${user.redditId}: Reddit re-authentication required`);
+          } else {
+            console.error(`Feed sync failed for ${user.redditId}:`, error);
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Feed sync cycle failed:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Sync a user's feed now unless a sync is already running for them
+   */
+  static async syncUser(redditId: string): Promise<void> {
+    const pending = this.inFlight.get(redditId);
+    if (pending) return pending;
+
+    const sync = this.runSync(redditId).finally(() => this.inFlight.delete(redditId));
+    this.inFlight.set(redditId, sync);
+    return sync;
+  }
+
+  /**
+   * Make sure a user has been synced at least once, so their first page load isn't empty
+   */
+  static async ensureSynced(redditId: string): Promise<void> {
+    const user = await prisma.user.findUnique({ where: { redditId }, select: { feedSyncedAt: true } });
+    if (!user) throw new Error('User not found');
+    if (!user.feedSyncedAt) await this.syncUser(redditId);
+  }
+
+  /**
+   * Read one page of the feed from the store, newest first. Each page covers a contiguous
+   * stretch of the store; `select` decides which of those posts are shown and in what order.
+   */
+  static async getFeedPage(redditId: string, options: FeedPageOptions): Promise<FeedPage> {
+    const subscriptions = await this.getSubscriptions(redditId);
+    const weights = new Map(subscriptions.map(sub => [sub.subreddit, sub.weight as SubscriptionWeight]));
+
+    // The store is shared by every user, so a page is always limited to some subreddits.
+    // An explicit subreddit filter overrides muting.
+    let subreddits: string[];
+    if (options.subreddit) {
+      subreddits = [this.resolveSubredditName(subscriptions, options.subreddit)];
+    } else if (subscriptions.length > 0) {
+      subreddits = subscriptions.filter(sub => sub.weight !== 'muted').map(sub => sub.subreddit);
+    } else {
+      subreddits = FALLBACK_SUBREDDITS;
+    }
+
+    const batchSize = Math.max(options.limit, MIN_SCAN_BATCH);
+    const select = options.select || (posts => posts);
+    const picked: RedditPost[] = [];
+    let cursor = options.after;
+    let scanned = 0;
+    let exhausted = false;
+
+    for (let batch = 0; batch < MAX_SCAN_BATCHES && picked.length < options.limit; batch++) {
+      const posts = await PostStore.listRecent({
+        subreddits,
+        after: cursor,
+        take: batchSize
+      });
+
+      const kept = new Set(select(posts).map(post => post.id));
+      let consumed = 0;
+      for (const post of posts) {
+        consumed++;
+        cursor = post.id;
+        if (kept.has(post.id)) picked.push(post);
+        if (picked.length === options.limit) break;
+      }
+      scanned += consumed;
+
+      if (posts.length < batchSize && consumed === posts.length) {
+        exhausted = true;
+        break;
+      }
+    }
+
+    return {
+      posts: options.select ? this.orderByWeight(select(picked), weights) : picked,
+      nextAfter: exhausted ? null : cursor || null,
+      scanned
+    };
+  }
+
+  static async getSubscriptions(redditId: string): Promise<FeedSubscription[]> {
+    return prisma.feedSubscription.findMany({
+      where: { user: { redditId } },
+      orderBy: { subreddit: 'asc' }
+    });
+  }
+
+  /**
+   * Set how a subscription is weighted in the feed. Returns null if the user isn't subscribed to it.
+   */
+  static async setWeight(redditId: string, subreddit: string, weight: SubscriptionWeight): Promise<FeedSubscription | null> {
+    const subscriptions = await this.getSubscriptions(redditId);
+    const wanted = subreddit.replace(/^r\//i, '').toLowerCase();
+    const subscription = subscriptions.find(sub => sub.subreddit.toLowerCase() === wanted);
+    if (!subscription) return null;
+
+    return prisma.feedSubscription.update({
+      where: { id: subscription.id },
+      data: { weight }
+    });
+  }
+
+  private static async runSync(redditId: string): Promise<void> {
+    const user = await prisma.user.findUnique({ where: { redditId } });
+    if (!user) throw new Error('User not found');
+
+    const subreddits = await RedditService.getUserSubreddits(redditId);
+    const names = subreddits.map(sub => sub.name);
+
+    await prisma.$transaction([
+      prisma.feedSubscription.deleteMany({ where: { userId: user.id, subreddit: { notIn: names } } }),
+      ...names.map(subreddit =>
+        prisma.feedSubscription.upsert({
+          where: { userId_subreddit: { userId: user.id, subreddit } },
+          update: {},
+          create: { userId: user.id, subreddit }
+        })
+      )
+    ]);
+
+    if (names.length === 0) {
+      for (const subreddit of FALLBACK_SUBREDDITS) {
+        await RedditClientPool.throttle(redditId);
+        const posts = await RedditService.getNewPostsSince(redditId, subreddit, null, INITIAL_FETCH);
+        await PostStore.savePosts(posts);
+      }
+    }
+
+    const subscriptions = await prisma.feedSubscription.findMany({ where: { userId: user.id } });
+    const toSync = this.pickForSync(subscriptions);
+
+    for (const subscription of toSync) {
+      try {
+        await RedditClientPool.throttle(redditId);
+        await this.syncSubreddit(redditId, subscription);
+      } catch (error) {
+        if (error instanceof RedditReauthRequiredError) throw error;
+        console.error(`Failed to sync r/${subscription.subreddit}:`, error);
+      }
+    }
+
+    await prisma.user.update({ where: { id: user.id }, data: { feedSyncedAt: new Date() } });
+  }
+
+  private static async syncSubreddit(redditId: string, subscription: FeedSubscription): Promise<void> {
+    const { beforeCursor } = subscription;
+    const posts = await RedditService.getNewPostsSince(
+      redditId,
+      subscription.subreddit,
+      beforeCursor,
+      beforeCursor ? INCREMENTAL_FETCH : INITIAL_FETCH
+    );
+    await PostStore.savePosts(posts);
+
+    const now = new Date();
+    if (posts.length > 0) {
+      await prisma.feedSubscription.update({
+        where: { id: subscription.id },
+        data: { beforeCursor: `t3_${posts[0].id}`, cursorAdvancedAt: now, lastSyncedAt: now }
+      });
+      return;
+    }
+
+    const stale = beforeCursor && (!subscription.cursorAdvancedAt ||
+      now.getTime() - subscription.cursorAdvancedAt.getTime() > STALE_CURSOR_AGE);
+
+    await prisma.feedSubscription.update({
+      where: { id: subscription.id },
+      data: { lastSyncedAt: now, ...(stale && { beforeCursor: null, cursorAdvancedAt: null }) }
+    });
+  }
+
+  /**
+   * Choose this cycle's subreddits: pinned ones first, leaving a couple of slots for the rest,
+   * each group taking whichever have waited longest since their last sync. Boosted ones count
+   * their wait as longer. Muted ones are never synced.
+   */
+  static pickForSync(subscriptions: FeedSubscription[]): FeedSubscription[] {
+    const now = Date.now();
+    const overdue = (sub: FeedSubscription) => {
+      if (!sub.lastSyncedAt) return Number.MAX_SAFE_INTEGER;
+      const waited = now - sub.lastSyncedAt.getTime();
+      return sub.weight === 'boosted' ? waited * BOOSTED_SYNC_FACTOR : waited;
+    };
+
+    const byOverdue = subscriptions.filter(sub => sub.weight !== 'muted').sort((a, b) => overdue(b) - overdue(a));
+    const pinned = byOverdue.filter(sub => sub.weight === 'pinned');
+    const unpinned = byOverdue.filter(sub => sub.weight !== 'pinned');
+
+    const pinnedSlots = Math.min(pinned.length, SUBREDDITS_PER_SYNC - Math.min(unpinned.length, UNPINNED_SYNC_SLOTS));
+    return [...pinned.slice(0, pinnedSlots), ...unpinned.slice(0, SUBREDDITS_PER_SYNC - pinnedSlots)];
+  }
+
+  /**
+   * Order a filtered page by relevance plus the bonus of each post's subreddit weight
+   */
+  static orderByWeight(posts: RedditPost[], weights: Map<string, SubscriptionWeight>): RedditPost[] {
+    const weighted = (post: RedditPost) =>
+      ((post as ScoredPost).relevanceScore || 0) + WEIGHT_BONUS[weights.get(post.subreddit) || 'normal'];
+
+    return [...posts].sort((a, b) => weighted(b) - weighted(a));
+  }
+
+  /**
+   * Match a subreddit name from the query string to the casing Reddit (and the store) uses
+   */
+  private static resolveSubredditName(subscriptions: FeedSubscription[], subreddit: string): string {
+    const name = subreddit.replace(/^r\//i, '');
+    const match = subscriptions.find(sub => sub.subreddit.toLowerCase() === name.toLowerCase());
+    return match ? match.subreddit : name;
+  }
+}
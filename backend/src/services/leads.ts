@@ -0,0 +1,209 @@
+import { PrismaClient, Prisma, Lead as LeadRow, LeadComment } from '@prisma/client';
+import { RedditPost } from './reddit';
+import { ContentFilterService } from './contentFilter';
+
+const prisma = new PrismaClient();
+
+export const LEAD_STATUSES = ['new', 'contacted', 'replied', 'won', 'lost'] as const;
+export type LeadStatus = typeof LEAD_STATUSES[number];
+
+// Leads move down the pipeline; a won deal can still fall through and a lost lead can be reopened
+export const LEAD_TRANSITIONS: Record<LeadStatus, LeadStatus[]> = {
+  new: ['contacted', 'lost'],
+  contacted: ['replied', 'won', 'lost'],
+  replied: ['won', 'lost'],
+  won: ['lost'],
+  lost: ['new']
+};
+
+export interface Lead {
+  id: string;
+  postId: string;
+  title: string;
+  author: string;
+  subreddit: string;
+  url: string;
+  intents: string[];
+  status: LeadStatus;
+  notes: string;
+  comments: Array<Pick<LeadComment, 'commentId' | 'url' | 'content' | 'createdAt'>>;
+  statusChangedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface LeadListOptions {
+  statuses?: LeadStatus[];
+  subreddit?: string;
+  intent?: string;
+  limit: number;
+}
+
+export class LeadStatusError extends Error {
+  constructor(public readonly from: LeadStatus, public readonly to: LeadStatus) {
+    super(`A ${from} lead can't be moved to ${to}`);
+    this.name = 'LeadStatusError';
+  }
+
+  get allowed(): LeadStatus[] {
+    return LEAD_TRANSITIONS[this.from];
+  }
+}
+
+type LeadWithComments = LeadRow & { comments: LeadComment[] };
+
+const withComments = { comments: { orderBy: { createdAt: 'asc' as const } } };
+
+/**
+ * Posts saved as sales leads, their place in the pipeline and the comments we posted on them
+ */
+export class LeadService {
+  static async listLeads(redditId: string, options: LeadListOptions): Promise<Lead[]> {
+    const rows = await prisma.lead.findMany({
+      where: {
+        user: { redditId },
+        ...(options.statuses && { status: { in: options.statuses } }),
+        ...(options.subreddit && { subreddit: options.subreddit }),
+        // intents is a JSON array of keys, so a quoted key only matches a whole entry
+        ...(options.intent && { intents: { contains: JSON.stringify(options.intent) } })
+      },
+      include: withComments,
+      orderBy: { updatedAt: 'desc' },
+      take: options.limit
+    });
+    return rows.map(row => this.toLead(row));
+  }
+
+  static async countByStatus(redditId: string): Promise<Record<LeadStatus, number>> {
+    const groups = await prisma.lead.groupBy({
+      by: ['status'],
+      where: { user: { redditId } },
+      _count: { _all: true }
+    });
+
+    const counts = Object.fromEntries(LEAD_STATUSES.map(status => [status, 0])) as Record<LeadStatus, number>;
+    for (const group of groups) {
+      counts[group.status as LeadStatus] = group._count._all;
+    }
+    return counts;
+  }
+
+  static async getLead(redditId: string, id: string): Promise<Lead | null> {
+    const row = await prisma.lead.findFirst({ where: { id, user: { redditId } }, include: withComments });
+    return row ? this.toLead(row) : null;
+  }
+
+  /**
+   * Save a post as a lead. A post can only be saved once; saving it again returns the
+   * existing lead with `created: false`.
+   */
+  static async createLead(redditId: string, post: RedditPost): Promise<{ lead: Lead; created: boolean }> {
+    const user = await prisma.user.findUnique({ where: { redditId } });
+    if (!user) throw new Error('User not found');
+
+    try {
+      const row = await prisma.lead.create({
+        data: {
+          userId: user.id,
+          postId: post.id,
+          title: post.title,
+          author: post.author,
+          subreddit: post.subreddit,
+          permalink: post.permalink,
+          intents: JSON.stringify(ContentFilterService.detectIntents(post))
+        },
+        include: withComments
+      });
+      return { lead: this.toLead(row), created: true };
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) throw error;
+
+      const existing = await prisma.lead.findUniqueOrThrow({
+        where: { userId_postId: { userId: user.id, postId: post.id } },
+        include: withComments
+      });
+      return { lead: this.toLead(existing), created: false };
+    }
+  }
+
+  /**
+   * Update a lead's status and notes. Throws LeadStatusError for a move the pipeline doesn't allow.
+   */
+  static async updateLead(redditId: string, id: string, input: { status?: LeadStatus; notes?: string }): Promise<Lead | null> {
+    const existing = await prisma.lead.findFirst({ where: { id, user: { redditId } } });
+    if (!existing) return null;
+
+    const from = existing.status as LeadStatus;
+    const statusChanged = input.status !== undefined && input.status !== from;
+    if (statusChanged && !LEAD_TRANSITIONS[from].includes(input.status!)) {
+      throw new LeadStatusError(from, input.status!);
+    }
+
+    const row = await prisma.lead.update({
+      where: { id },
+      data: {
+        ...(statusChanged && { status: input.status, statusChangedAt: new Date() }),
+        ...(input.notes !== undefined && { notes: input.notes })
+      },
+      include: withComments
+    });
+    return this.toLead(row);
+  }
+
+  static async deleteLead(redditId: string, id: string): Promise<boolean> {
+    const { count } = await prisma.lead.deleteMany({ where: { id, user: { redditId } } });
+    return count > 0;
+  }
+
+  /**
+   * Record a comment we posted on a post that is saved as a lead. A new lead moves to
+   * contacted. Does nothing when the post isn't a lead.
+   */
+  static async linkComment(
+    redditId: string,
+    postId: string,
+    comment: { commentId: string; url: string; content: string }
+  ): Promise<Lead | null> {
+    const lead = await prisma.lead.findFirst({ where: { postId, user: { redditId } } });
+    if (!lead) return null;
+
+    const row = await prisma.lead.update({
+      where: { id: lead.id },
+      data: {
+        comments: {
+          upsert: {
+            where: { leadId_commentId: { leadId: lead.id, commentId: comment.commentId } },
+            create: comment,
+            update: { url: comment.url, content: comment.content }
+          }
+        },
+        ...(lead.status === 'new' && { status: 'contacted', statusChangedAt: new Date() })
+      },
+      include: withComments
+    });
+    return this.toLead(row);
+  }
+
+  private static toLead(row: LeadWithComments): Lead {
+    return {
+      id: row.id,
+      postId: row.postId,
+      title: row.title,
+      author: row.author,
+      subreddit: row.subreddit,
+      url: `https://reddit.com${row.permalink}`,
+      intents: JSON.parse(row.intents),
+      status: row.status as LeadStatus,
+      notes: row.notes,
+      comments: row.comments.map(comment => ({
+        commentId: comment.commentId,
+        url: comment.url,
+        content: comment.content,
+        createdAt: comment.createdAt
+      })),
+      statusChangedAt: row.statusChangedAt,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt
+    };
+  }
+}
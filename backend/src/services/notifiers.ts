@@ -0,0 +1,102 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { assertPublicUrl } from './outboundUrl';
+
+export interface AlertNotification {
+  searchName: string;
+  username: string;
+  alerts: Array<{
+    postId: string;
+    title: string;
+    subreddit: string;
+    url: string;
+    relevanceScore: number;
+  }>;
+}
+
+/**
+ * A way of delivering alerts. `target` is whatever the channel addresses: a URL for
+ * webhooks, an email address for SMTP. Implementations throw when delivery fails.
+ */
+export interface Notifier {
+  readonly channel: string;
+  send(target: string, notification: AlertNotification): Promise<void>;
+}
+
+const WEBHOOK_TIMEOUT = 10 * 1000;
+
+export class WebhookNotifier implements Notifier {
+  readonly channel = 'webhook';
+
+  constructor(private readonly timeoutMs: number = WEBHOOK_TIMEOUT) {}
+
+  async send(url: string, notification: AlertNotification): Promise<void> {
+    await assertPublicUrl(url);
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'RedditCopilot/1.0.0'
+      },
+      body: JSON.stringify({ event: 'saved_search.matched', ...notification }),
+      // A redirect could point anywhere, including addresses assertPublicUrl refuses
+      redirect: 'manual',
+      signal: AbortSignal.timeout(this.timeoutMs)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook responded with ${response.status}`);
+    }
+  }
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure?: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
+export class SmtpNotifier implements Notifier {
+  readonly channel = 'email';
+  private transporter: Transporter;
+
+  constructor(private readonly options: SmtpOptions) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure ?? options.port === 465,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined
+    });
+  }
+
+  /**
+   * Configured from SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS and SMTP_FROM; null when SMTP_HOST is unset
+   */
+  static fromEnv(): SmtpNotifier | null {
+    if (!process.env.SMTP_HOST) return null;
+
+    return new SmtpNotifier({
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || '587'),
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+      from: process.env.SMTP_FROM || 'Reddit Copilot <alerts@localhost>'
+    });
+  }
+
+  async send(to: string, notification: AlertNotification): Promise<void> {
+    const count = notification.alerts.length;
+    const lines = notification.alerts.map(alert =>
+      `- [r/${alert.subreddit}] ${alert.title}\n  ${alert.url}`
+    );
+
+    await this.transporter.sendMail({
+      from: this.options.from,
+      to,
+      subject: `${count} new post${count === 1 ? '' : 's'} for "${notification.searchName}"`,
+      text: `Hi u/${notification.username},\n\nNew posts matched your saved search "${notification.searchName}":\n\n${lines.join('\n')}\n`
+    });
+  }
+}
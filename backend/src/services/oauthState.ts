@@ -0,0 +1,75 @@
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+const STATE_TTL = 10 * 60 * 1000; // 10 minutes to complete the Reddit consent screen
+
+export const OAUTH_VERIFIER_COOKIE = 'reddit_oauth_verifier';
+
+export interface IssuedState {
+  state: string;
+  verifier: string; // Kept by the initiating browser in a cookie, never sent to Reddit
+  expiresAt: Date;
+}
+
+export type StateCheckResult = 'valid' | 'missing' | 'unknown' | 'expired' | 'reused' | 'browser_mismatch';
+
+export class OAuthStateService {
+  /**
+   * Issue a single-use state bound to a browser verifier.
+   * Only the verifier's hash is stored, so the state alone cannot complete a flow.
+   */
+  static async issueState(): Promise<IssuedState> {
+    const state = crypto.randomBytes(24).toString('base64url');
+    const verifier = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + STATE_TTL);
+
+    // Opportunistic cleanup so abandoned flows don't pile up
+    await prisma.oAuthState.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+
+    await prisma.oAuthState.create({
+      data: {
+        state,
+        verifierHash: this.hashVerifier(verifier),
+        expiresAt
+      }
+    });
+
+    return { state, verifier, expiresAt };
+  }
+
+  /**
+   * Verify a callback's state against the initiating browser's verifier and mark it used
+   */
+  static async consumeState(state: string | undefined, verifier: string | undefined): Promise<StateCheckResult> {
+    if (!state) return 'missing';
+
+    const issued = await prisma.oAuthState.findUnique({ where: { state } });
+    if (!issued) return 'unknown';
+    if (issued.usedAt) return 'reused';
+    if (issued.expiresAt.getTime() <= Date.now()) return 'expired';
+
+    if (!verifier || !this.verifierMatches(verifier, issued.verifierHash)) {
+      return 'browser_mismatch';
+    }
+
+    // Conditional update so two callbacks racing on the same state can't both win
+    const claimed = await prisma.oAuthState.updateMany({
+      where: { state, usedAt: null },
+      data: { usedAt: new Date() }
+    });
+
+    return claimed.count === 1 ? 'valid' : 'reused';
+  }
+
+  private static hashVerifier(verifier: string): string {
+    return crypto.createHash('sha256').update(verifier).digest('hex');
+  }
+
+  private static verifierMatches(verifier: string, expectedHash: string): boolean {
+    const actual = Buffer.from(this.hashVerifier(verifier), 'hex');
+    const expected = Buffer.from(expectedHash, 'hex');
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+  }
+}
@@ -63,10 +63,12 @@ export interface Suggestion {
   estimatedEngagement: string;
 }
 
+export const ENGAGEMENT_SUGGESTION_TYPES = ['thoughtful_comment', 'question', 'experience_share', 'helpful_advice'] as const;
+
 export interface EngagementSuggestion {
   id: string;
   postId: string;
-  type: 'thoughtful_comment' | 'question' | 'experience_share' | 'helpful_advice';
+  type: typeof ENGAGEMENT_SUGGESTION_TYPES[number];
   content: string;
   reasoning: string;
   confidence: number;
@@ -0,0 +1,81 @@
+import dns from 'dns/promises';
+import net from 'net';
+
+/**
+ * Checks for URLs the server is asked to call on a user's behalf (alert and event webhooks),
+ * so they can't be pointed at the server itself, the cloud metadata endpoint or the private network.
+ */
+
+const blocked = new net.BlockList();
+// "This network", private, carrier-grade NAT, loopback, link-local, benchmarking and multicast/reserved ranges
+blocked.addSubnet('0.0.0.0', 8, 'ipv4');
+blocked.addSubnet('10.0.0.0', 8, 'ipv4');
+blocked.addSubnet('100.64.0.0', 10, 'ipv4');
+blocked.addSubnet('127.0.0.0', 8, 'ipv4');
+blocked.addSubnet('169.254.0.0', 16, 'ipv4');
+blocked.addSubnet('172.16.0.0', 12, 'ipv4');
+blocked.addSubnet('192.0.0.0', 24, 'ipv4');
+blocked.addSubnet('192.168.0.0', 16, 'ipv4');
+blocked.addSubnet('198.18.0.0', 15, 'ipv4');
+blocked.addSubnet('224.0.0.0', 3, 'ipv4');
+// Unspecified, loopback, unique local, link-local and multicast
+blocked.addAddress('::', 'ipv6');
+blocked.addAddress('::1', 'ipv6');
+blocked.addSubnet('fc00::', 7, 'ipv6');
+blocked.addSubnet('fe80::', 10, 'ipv6');
+blocked.addSubnet('ff00::', 8, 'ipv6');
+
+export class BlockedUrlError extends Error {
+  constructor(url: string, reason: string) {
+    super(`Refusing to call ${url}: ${reason}`);
+    this.name = 'BlockedUrlError';
+  }
+}
+
+export function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:127.0.0.1) reaches the IPv4 address
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return isPrivateAddress(mapped[1]);
+
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return blocked.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Hosts from OUTBOUND_ALLOWED_HOSTS (comma separated) skip the address check, e.g. a
+ * receiver on localhost during development
+ */
+function allowedHosts(): string[] {
+  return (process.env.OUTBOUND_ALLOWED_HOSTS || '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Resolve a URL's host and throw BlockedUrlError unless it's http(s) and every address it
+ * resolves to is public. Call right before the request, not when the URL is saved, since DNS
+ * can change in between. Callers should also not follow redirects.
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  const parsed = new URL(url);
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    throw new BlockedUrlError(url, 'only http(s) URLs can be called');
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (allowedHosts().includes(host)) return;
+
+  let addresses: Array<{ address: string }>;
+  try {
+    addresses = await dns.lookup(host, { all: true, verbatim: true });
+  } catch {
+    throw new BlockedUrlError(url, `could not resolve ${host}`);
+  }
+
+  const internal = addresses.find(({ address }) => isPrivateAddress(address));
+  if (internal) {
+    throw new BlockedUrlError(url, `${host} resolves to the internal address ${internal.address}`);
+  }
+}
@@ -0,0 +1,136 @@
+import { PrismaClient, ActionSnapshot } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+const HOUR = 60 * 60 * 1000;
+
+// How long after posting each snapshot is taken
+export const PERFORMANCE_CHECKPOINTS = [
+  { name: '1h', after: HOUR },
+  { name: '6h', after: 6 * HOUR },
+  { name: '24h', after: 24 * HOUR },
+  { name: '7d', after: 7 * 24 * HOUR }
+] as const;
+export type PerformanceCheckpoint = typeof PERFORMANCE_CHECKPOINTS[number]['name'];
+
+export const PERFORMANCE_GROUPINGS = ['subreddit', 'suggestionType'] as const;
+export type PerformanceGrouping = typeof PERFORMANCE_GROUPINGS[number];
+
+export type RemovalStatus = 'removed' | 'deleted';
+
+export interface PerformanceTimeline {
+  actionId: string;
+  thingId: string | null;
+  createdAt: Date;
+  snapshots: Array<Pick<ActionSnapshot, 'checkpoint' | 'score' | 'replyCount' | 'removalStatus' | 'takenAt'>>;
+}
+
+export interface PerformanceGroup {
+  key: string; // Subreddit or suggestion type; "none" for actions that didn't start from a suggestion
+  count: number;
+  averageScore: number;
+  averageReplies: number;
+  removed: number;
+  removalRate: number;
+}
+
+/**
+ * How posts and comments made through the copilot did after they went up, from the
+ * snapshots PerformanceTracker takes at each checkpoint
+ */
+export class PerformanceService {
+  /**
+   * The latest checkpoint an action has reached that hasn't been recorded yet. Checkpoints
+   * passed while the tracker wasn't running are skipped rather than filled in late.
+   */
+  static dueCheckpoint(createdAt: Date, taken: string[], now = new Date()): PerformanceCheckpoint | null {
+    const age = now.getTime() - createdAt.getTime();
+    const reached = PERFORMANCE_CHECKPOINTS.filter(checkpoint => checkpoint.after <= age);
+    const latest = reached[reached.length - 1];
+    if (!latest || taken.includes(latest.name)) return null;
+    return latest.name;
+  }
+
+  /**
+   * Read whether a post or comment is still up from its Reddit data
+   */
+  static removalStatus(thing: any): RemovalStatus | null {
+    const category = thing.removed_by_category;
+    if (category === 'deleted' || category === 'author') return 'deleted';
+    if (category) return 'removed';
+
+    const text = thing.body ?? thing.selftext;
+    if (text === '[removed]' || thing.removed) return 'removed';
+    if (text === '[deleted]' || thing.author === '[deleted]') return 'deleted';
+    return null;
+  }
+
+  static async recordSnapshot(
+    actionId: string,
+    checkpoint: PerformanceCheckpoint,
+    values: { score: number; replyCount: number; removalStatus: RemovalStatus | null }
+  ): Promise<void> {
+    await prisma.actionSnapshot.upsert({
+      where: { actionId_checkpoint: { actionId, checkpoint } },
+      create: { actionId, checkpoint, ...values },
+      update: {}
+    });
+  }
+
+  static async getTimeline(redditId: string, actionId: string): Promise<PerformanceTimeline | null> {
+    const action = await prisma.action.findFirst({
+      where: { id: actionId, user: { redditId } },
+      include: { snapshots: { orderBy: { takenAt: 'asc' } } }
+    });
+    if (!action) return null;
+
+    return {
+      actionId: action.id,
+      thingId: action.thingId,
+      createdAt: action.createdAt,
+      snapshots: action.snapshots.map(({ checkpoint, score, replyCount, removalStatus, takenAt }) => ({
+        checkpoint, score, replyCount, removalStatus, takenAt
+      }))
+    };
+  }
+
+  /**
+   * Average score, replies and removals at one checkpoint, grouped by subreddit or by the
+   * type of AI suggestion the text started from. Comparing at a fixed checkpoint keeps
+   * week-old comments from outscoring ones posted this morning.
+   */
+  static async getStats(
+    redditId: string,
+    options: { groupBy: PerformanceGrouping; checkpoint: PerformanceCheckpoint; type?: string }
+  ): Promise<PerformanceGroup[]> {
+    const snapshots = await prisma.actionSnapshot.findMany({
+      where: {
+        checkpoint: options.checkpoint,
+        action: { user: { redditId }, ...(options.type && { type: options.type }) }
+      },
+      include: { action: { select: { subreddit: true, suggestionType: true } } }
+    });
+
+    const groups = new Map<string, ActionSnapshot[]>();
+    for (const snapshot of snapshots) {
+      const key = (options.groupBy === 'subreddit' ? snapshot.action.subreddit : snapshot.action.suggestionType) || 'none';
+      groups.set(key, [...(groups.get(key) || []), snapshot]);
+    }
+
+    return Array.from(groups, ([key, group]) => {
+      const removed = group.filter(snapshot => snapshot.removalStatus === 'removed').length;
+      return {
+        key,
+        count: group.length,
+        averageScore: this.average(group.map(snapshot => snapshot.score)),
+        averageReplies: this.average(group.map(snapshot => snapshot.replyCount)),
+        removed,
+        removalRate: Math.round((removed / group.length) * 100) / 100
+      };
+    }).sort((a, b) => b.count - a.count);
+  }
+
+  private static average(values: number[]): number {
+    return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+  }
+}
@@ -0,0 +1,107 @@
+import { PrismaClient, Action } from '@prisma/client';
+import { RedditService } from './reddit';
+import { RedditReauthRequiredError } from './tokenManager';
+import { PerformanceService, PerformanceCheckpoint, PERFORMANCE_CHECKPOINTS } from './performance';
+
+const prisma = new PrismaClient();
+
+const RUN_INTERVAL = 10 * 60 * 1000;
+// Actions stay tracked a day past the last checkpoint, so a late run still gets the 7d snapshot
+const TRACKING_WINDOW = PERFORMANCE_CHECKPOINTS[PERFORMANCE_CHECKPOINTS.length - 1].after + 24 * 60 * 60 * 1000;
+
+type DueAction = Action & { checkpoint: PerformanceCheckpoint };
+
+/**
+ * Revisits posts and comments made through the copilot as they pass each checkpoint and
+ * records their score, replies and whether they're still up
+ */
+export class PerformanceTracker {
+  private static timer: NodeJS.Timeout | null = null;
+  private static running = false;
+
+  static start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.runAll(), RUN_INTERVAL);
+    this.runAll();
+  }
+
+  static async runAll(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const now = new Date();
+      const rows = await prisma.action.findMany({
+        where: {
+          status: 'posted',
+          thingId: { not: null },
+          deletedAt: null,
+          createdAt: {
+            gte: new Date(now.getTime() - TRACKING_WINDOW),
+            lte: new Date(now.getTime() - PERFORMANCE_CHECKPOINTS[0].after)
+          }
+        },
+        include: {
+          snapshots: { select: { checkpoint: true } },
+          user: { select: { redditId: true } }
+        }
+      });
+
+      const dueByUser = new Map<string, DueAction[]>();
+      for (const { snapshots, user, ...action } of rows) {
+        const checkpoint = PerformanceService.dueCheckpoint(action.createdAt, snapshots.map(s => s.checkpoint), now);
+        if (!checkpoint) continue;
+        dueByUser.set(user.redditId, [...(dueByUser.get(user.redditId) || []), { ...action, checkpoint }]);
+      }
+
+      for (const [redditId, actions] of dueByUser) {
+        try {
+          await this.trackUser(redditId, actions);
+        } catch (error) {
+          if (error instanceof RedditReauthRequiredError) {
+            console.warn(`Skipping performance tracking for ${redditId}: Reddit re-authentication required`);
+          } else {
+            console.error(`Performance tracking for ${redditId} failed:`, error);
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Performance tracking run failed:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private static async trackUser(redditId: string, actions: DueAction[]): Promise<void> {
+    const things = await RedditService.getThings(redditId, actions.map(action => action.thingId!));
+    const byFullname = new Map(things.map(thing => [thing.name, thing]));
+
+    for (const action of actions) {
+      const thing = byFullname.get(action.thingId!);
+      if (!thing) {
+        // Reddit doesn't return things that are gone for good
+        await PerformanceService.recordSnapshot(action.id, action.checkpoint, { score: 0, replyCount: 0, removalStatus: 'deleted' });
+        continue;
+      }
+
+      await PerformanceService.recordSnapshot(action.id, action.checkpoint, {
+        score: thing.score ?? 0,
+        replyCount: thing.name.startsWith('t1_') ? await this.countReplies(redditId, thing) : thing.num_comments ?? 0,
+        removalStatus: PerformanceService.removalStatus(thing)
+      });
+    }
+  }
+
+  // Comments from /api/info don't carry their replies, so load the comment's own thread
+  private static async countReplies(redditId: string, comment: any): Promise<number> {
+    const thread = await RedditService.getPostComments(redditId, comment.link_id, {
+      sort: 'new',
+      depth: 2,
+      limit: 100,
+      comment: comment.id
+    });
+    const focused = thread?.comments[0];
+    if (!focused) return 0;
+    return focused.replies.length + (focused.more?.count || 0);
+  }
+}
@@ -0,0 +1,86 @@
+import { PrismaClient, Post } from '@prisma/client';
+import { RedditPost } from './reddit';
+
+const prisma = new PrismaClient();
+
+/**
+ * Local copy of every post we have formatted from Reddit, so looking a post up
+ * by ID doesn't mean re-pulling the whole home feed.
+ */
+export class PostStore {
+  static async savePosts(posts: RedditPost[]): Promise<void> {
+    if (posts.length === 0) return;
+
+    // Listings often contain the same post twice (new + hot)
+    const uniquePosts = Array.from(new Map(posts.map(post => [post.id, post])).values());
+
+    await prisma.$transaction(
+      uniquePosts.map(post => {
+        const data = this.toRow(post);
+        return prisma.post.upsert({
+          where: { id: post.id },
+          update: data,
+          create: { id: post.id, ...data }
+        });
+      })
+    );
+  }
+
+  static async getPost(postId: string): Promise<RedditPost | null> {
+    const row = await prisma.post.findUnique({ where: { id: postId } });
+    return row ? this.toRedditPost(row) : null;
+  }
+
+  /**
+   * Newest-first page of stored posts from some subreddits.
+   * `after` is the ID of the last post of the previous page.
+   */
+  static async listRecent(options: { subreddits: string[]; after?: string; take: number }): Promise<RedditPost[]> {
+    const rows = await prisma.post.findMany({
+      where: { subreddit: { in: options.subreddits } },
+      orderBy: [{ created: 'desc' }, { id: 'desc' }],
+      take: options.take,
+      ...(options.after && { cursor: { id: options.after }, skip: 1 })
+    });
+    return rows.map(row => this.toRedditPost(row));
+  }
+
+  static toRedditPost(row: Post): RedditPost {
+    return {
+      id: row.id,
+      title: row.title,
+      content: row.content,
+      author: row.author,
+      subreddit: row.subreddit,
+      score: row.score,
+      commentCount: row.commentCount,
+      created: row.created,
+      url: row.url,
+      permalink: row.permalink,
+      mediaType: row.mediaType as RedditPost['mediaType'],
+      mediaUrl: row.mediaUrl ?? undefined,
+      flair: row.flair ?? undefined,
+      isNSFW: row.isNSFW,
+      upvoteRatio: row.upvoteRatio
+    };
+  }
+
+  private static toRow(post: RedditPost) {
+    return {
+      title: post.title,
+      content: post.content,
+      author: post.author,
+      subreddit: post.subreddit,
+      score: post.score ?? 0,
+      commentCount: post.commentCount ?? 0,
+      created: post.created,
+      url: post.url,
+      permalink: post.permalink,
+      mediaType: post.mediaType,
+      mediaUrl: post.mediaUrl ?? null,
+      flair: post.flair ?? null,
+      isNSFW: !!post.isNSFW,
+      upvoteRatio: post.upvoteRatio ?? 0
+    };
+  }
+}
@@ -0,0 +1,212 @@
+import { RedditService, RedditPost } from './reddit';
+import { zonedParts } from './timezone';
+
+const HOUR = 60 * 60 * 1000;
+
+// Reddit returns at most 100 posts per listing request
+const SAMPLE_SIZE = 100;
+// Scores and comment counts of younger posts haven't settled, so they only count toward volume
+const MIN_AGE = 3 * HOUR;
+// Most comments arrive in a post's first day, so velocity is measured over at most 24 hours
+const VELOCITY_WINDOW = 24 * HOUR;
+// Thinly sampled buckets are pulled toward the subreddit average, as if they held this many average posts
+const PRIOR_POSTS = 3;
+const WINDOW_HOURS = 3;
+const MIN_WINDOW_POSTS = 5;
+const MAX_RECOMMENDATIONS = 3;
+
+export type TimingSample = Pick<RedditPost, 'id' | 'score' | 'commentCount' | 'created'>;
+
+export interface TimingBucket {
+  key: number; // Weekday (0 is Sunday) or hour of the day
+  posts: number; // Posts in the newest sample, which is what volume is measured on
+  sampled: number; // Posts old enough to have settled, from both samples
+  medianScore: number;
+  medianCommentsPerHour: number;
+  volumeIndex: number; // 1 is an even share of the subreddit's posts
+  scoreIndex: number; // 1 is the subreddit average
+  velocityIndex: number;
+  opportunity: number; // Engagement against competition; above 1 beats posting at a random time
+}
+
+export interface TimingBreakdown {
+  byWeekday: TimingBucket[];
+  byHour: TimingBucket[];
+}
+
+export interface PostingWindow extends Omit<TimingBucket, 'key'> {
+  startHour: number;
+  endHour: number; // Exclusive, and wraps past midnight when smaller than startHour
+}
+
+export interface SubredditTiming {
+  subreddit: string;
+  timeZone: string;
+  sampleSize: number;
+  utc: TimingBreakdown;
+  local: TimingBreakdown; // In timeZone
+  bestWeekdays: number[]; // In timeZone, best first
+  windows: PostingWindow[]; // In timeZone, best first
+}
+
+interface Measured {
+  post: TimingSample;
+  recent: boolean; // From the newest sample rather than the top one
+  settled: boolean;
+  logScore: number;
+  logVelocity: number;
+}
+
+interface Averages {
+  logScore: number;
+  logVelocity: number;
+  posts: number; // Size of the newest sample
+}
+
+/**
+ * When posts in a subreddit do well. Recent and top posts are bucketed by when they went up,
+ * and each bucket's score and comment velocity are compared with how many posts it gets.
+ */
+export class PostTimingService {
+  static async getTiming(redditId: string, subreddit: string, timeZone: string): Promise<SubredditTiming> {
+    const [recent, top] = await Promise.all([
+      RedditService.getSubredditPosts(redditId, subreddit, 'new', SAMPLE_SIZE),
+      RedditService.getSubredditPosts(redditId, subreddit, 'top', SAMPLE_SIZE)
+    ]);
+    return { subreddit, ...this.analyze(recent, top, timeZone) };
+  }
+
+  /**
+   * Top posts skew toward whatever did well, so volume only comes from the newest posts.
+   * Engagement is compared as geometric means, so one viral post can't make a slot look good.
+   */
+  static analyze(
+    recent: TimingSample[],
+    top: TimingSample[],
+    timeZone: string,
+    now = new Date()
+  ): Omit<SubredditTiming, 'subreddit'> {
+    const recentIds = new Set(recent.map(post => post.id));
+    const measured = [
+      ...recent.map(post => this.measure(post, true, now)),
+      ...top.filter(post => !recentIds.has(post.id)).map(post => this.measure(post, false, now))
+    ];
+    const settled = measured.filter(item => item.settled);
+    const average = {
+      logScore: mean(settled.map(item => item.logScore)),
+      logVelocity: mean(settled.map(item => item.logVelocity)),
+      posts: recent.length
+    };
+
+    const breakdown = (zone: string): TimingBreakdown => {
+      const parts = measured.map(item => ({ item, ...zonedParts(item.post.created, zone) }));
+      const bucket = (size: number, keyOf: (part: typeof parts[number]) => number) =>
+        Array.from({ length: size }, (_, key) => ({
+          key,
+          ...this.summarize(parts.filter(part => keyOf(part) === key).map(part => part.item), 1 / size, average)
+        }));
+
+      return {
+        byWeekday: bucket(7, part => part.weekday),
+        byHour: bucket(24, part => part.hour)
+      };
+    };
+    const local = breakdown(timeZone);
+
+    return {
+      timeZone,
+      sampleSize: measured.length,
+      utc: breakdown('UTC'),
+      local,
+      bestWeekdays: this.best(local.byWeekday).slice(0, MAX_RECOMMENDATIONS).map(bucket => bucket.key),
+      windows: this.windows(measured, timeZone, average)
+    };
+  }
+
+  /**
+   * The best non-overlapping spans of WINDOW_HOURS hours in a zone
+   */
+  private static windows(measured: Measured[], timeZone: string, average: Averages): PostingWindow[] {
+    const hours = measured.map(item => zonedParts(item.post.created, timeZone).hour);
+    const candidates = Array.from({ length: 24 }, (_, startHour) => {
+      const inWindow = measured.filter((_, i) => (hours[i] - startHour + 24) % 24 < WINDOW_HOURS);
+      return {
+        startHour,
+        endHour: (startHour + WINDOW_HOURS) % 24,
+        ...this.summarize(inWindow, WINDOW_HOURS / 24, average)
+      };
+    });
+
+    const picked: PostingWindow[] = [];
+    for (const candidate of this.best(candidates)) {
+      const overlaps = picked.some(window => {
+        const apart = Math.abs(window.startHour - candidate.startHour);
+        return Math.min(apart, 24 - apart) < WINDOW_HOURS;
+      });
+      if (!overlaps) picked.push(candidate);
+      if (picked.length === MAX_RECOMMENDATIONS) break;
+    }
+    return picked;
+  }
+
+  private static best<T extends { sampled: number; opportunity: number }>(buckets: T[]): T[] {
+    return buckets
+      .filter(bucket => bucket.sampled >= MIN_WINDOW_POSTS && bucket.opportunity > 1)
+      .sort((a, b) => b.opportunity - a.opportunity);
+  }
+
+  private static summarize(items: Measured[], share: number, average: Averages): Omit<TimingBucket, 'key'> {
+    const settled = items.filter(item => item.settled);
+    const posts = items.filter(item => item.recent).length;
+    const expected = average.posts * share;
+
+    const scoreIndex = shrunkIndex(settled.map(item => item.logScore), average.logScore);
+    const velocityIndex = shrunkIndex(settled.map(item => item.logVelocity), average.logVelocity);
+    // Smoothed so a quiet hour with one post doesn't look like an empty one
+    const volumeIndex = (posts + 1) / (expected + 1);
+
+    return {
+      posts,
+      sampled: settled.length,
+      medianScore: median(settled.map(item => item.post.score)),
+      medianCommentsPerHour: round(median(settled.map(item => Math.expm1(item.logVelocity)))),
+      volumeIndex: round(volumeIndex),
+      scoreIndex: round(scoreIndex),
+      velocityIndex: round(velocityIndex),
+      opportunity: round((scoreIndex + velocityIndex) / 2 / Math.sqrt(volumeIndex))
+    };
+  }
+
+  private static measure(post: TimingSample, recent: boolean, now: Date): Measured {
+    const age = now.getTime() - new Date(post.created).getTime();
+    const hours = Math.min(Math.max(age, HOUR), VELOCITY_WINDOW) / HOUR;
+    return {
+      post: { ...post, created: new Date(post.created) },
+      recent,
+      settled: age >= MIN_AGE,
+      logScore: Math.log1p(Math.max(post.score, 0)),
+      logVelocity: Math.log1p(post.commentCount / hours)
+    };
+  }
+}
+
+// How a bucket's geometric mean compares with the subreddit's, shrunk toward 1 for small buckets
+function shrunkIndex(logs: number[], averageLog: number): number {
+  const total = logs.reduce((sum, value) => sum + value, 0);
+  return Math.exp((total + PRIOR_POSTS * averageLog) / (logs.length + PRIOR_POSTS) - averageLog);
+}
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -1,6 +1,9 @@
 import snoowrap from 'snoowrap';
 import { PrismaClient } from '@prisma/client';
 import CryptoJS from 'crypto-js';
+import { RedditClientPool } from './redditClientPool';
+import { PostStore } from './postStore';
+import { CommentTree, CommentThread, CommentSort } from './commentTree';
 
 const prisma = new PrismaClient();
 
@@ -55,6 +58,7 @@ export interface SubredditFlair {
   allowable_content?: string;
   max_emojis?: number;
   mod_only?: boolean;
+  text_editable?: boolean;
   css_class?: string;
 }
 
@@ -74,6 +78,8 @@ export interface SubredditRules {
     minBodyLength?: number;
     maxBodyLength?: number;
     flairRequired?: boolean;
+    // Guessed from the rules and templates when Reddit couldn't say whether flair is required; a warning only
+    flairLikelyRequired?: boolean;
     allowedDomains?: string[];
     restrictedWords?: string[];
   };
@@ -123,28 +129,30 @@ export class RedditService {
       default: return 'week';
     }
   }
-  private static encryptToken(token: string): string {
+  static encryptToken(token: string): string {
     const key = process.env.ENCRYPTION_KEY;
     if (!key) throw new Error('ENCRYPTION_KEY not set');
     return CryptoJS.AES.encrypt(token, key).toString();
   }
 
-  private static decryptToken(encryptedToken: string): string {
+  static decryptToken(encryptedToken: string): string {
     const key = process.env.ENCRYPTION_KEY;
     if (!key) throw new Error('ENCRYPTION_KEY not set');
     const bytes = CryptoJS.AES.decrypt(encryptedToken, key);
     return bytes.toString(CryptoJS.enc.Utf8);
   }
 
-  static getAuthUrl(): string {
+  /**
+   * Build the Reddit consent URL for a state issued by OAuthStateService
+   */
+  static getAuthUrl(state: string): string {
     const clientId = process.env.REDDIT_CLIENT_ID;
     const redirectUri = process.env.REDDIT_REDIRECT_URI;
-    const state = Math.random().toString(36).substring(7);
     
-    return `https://www.reddit.com/api/v1/authorize?client_id=${clientId}&response_type=code&state=${state}&redirect_uri=${encodeURIComponent(redirectUri!)}&duration=permanent&scope=identity,read,history,mysubreddits,submit`;
+    return `https://www.reddit.com/api/v1/authorize?client_id=${clientId}&response_type=code&state=${encodeURIComponent(state)}&redirect_uri=${encodeURIComponent(redirectUri!)}&duration=permanent&scope=identity,read,history,mysubreddits,submit`;
   }
 
-  static async exchangeCodeForTokens(code: string): Promise<{ accessToken: string; refreshToken?: string }> {
+  static async exchangeCodeForTokens(code: string): Promise<{ accessToken: string; refreshToken?: string; expiresIn?: number }> {
     const r = new snoowrap({
       userAgent: 'RedditCopilot/1.0.0',
       clientId: process.env.REDDIT_CLIENT_ID!,
@@ -176,16 +184,18 @@ export class RedditService {
 
       return {
         accessToken: data.access_token,
-        refreshToken: data.refresh_token
+        refreshToken: data.refresh_token,
+        expiresIn: data.expires_in
       };
     } catch (error) {
       throw new Error(`Failed to exchange code for tokens: ${error}`);
     }
   }
 
-  static async saveUserTokens(redditId: string, username: string, accessToken: string, refreshToken?: string): Promise<void> {
+  static async saveUserTokens(redditId: string, username: string, accessToken: string, refreshToken?: string, expiresIn?: number): Promise<void> {
     const encryptedAccessToken = this.encryptToken(accessToken);
     const encryptedRefreshToken = refreshToken ? this.encryptToken(refreshToken) : null;
+    const tokenExpiresAt = expiresIn ? new Date(Date.now() + expiresIn * 1000) : null;
 
     await prisma.user.upsert({
       where: { redditId },
@@ -193,31 +203,26 @@ export class RedditService {
         username,
         accessToken: encryptedAccessToken,
         refreshToken: encryptedRefreshToken,
+        tokenExpiresAt,
         updatedAt: new Date()
       },
       create: {
         redditId,
         username,
         accessToken: encryptedAccessToken,
-        refreshToken: encryptedRefreshToken
+        refreshToken: encryptedRefreshToken,
+        tokenExpiresAt
       }
     });
   }
 
+  /**
+   * Get the user's pooled snoowrap client. Clients are built without a refresh token on
+   * purpose: RedditTokenManager refreshes ahead of expiry and persists the result, whereas
+   * snoowrap would refresh in memory and lose the new token.
+   */
   static async getRedditClient(redditId: string): Promise<snoowrap> {
-    const user = await prisma.user.findUnique({ where: { redditId } });
-    if (!user) throw new Error('User not found');
-
-    const accessToken = this.decryptToken(user.accessToken);
-    const refreshToken = user.refreshToken ? this.decryptToken(user.refreshToken) : undefined;
-
-    return new snoowrap({
-      userAgent: 'RedditCopilot/1.0.0',
-      accessToken,
-      refreshToken,
-      clientId: process.env.REDDIT_CLIENT_ID!,
-      clientSecret: process.env.REDDIT_CLIENT_SECRET!
-    });
+    return RedditClientPool.acquire(redditId);
   }
 
   static async getUserProfile(redditId: string): Promise<RedditProfile> {
@@ -275,159 +280,21 @@ export class RedditService {
   }
 
   /**
-   * Get home feed posts from user's subscribed subreddits
+   * Get the newest posts from a subreddit, only those newer than the `before` fullname when given.
+   * Returned newest first; nothing is cached here, the caller decides what to store.
    */
-  static async getHomeFeed(redditId: string, limit: number = 200): Promise<RedditPost[]> {
-    console.log(`Starting getHomeFeed for redditId: ${redditId}, limit: ${limit}`);
-    
-    try {
-      const reddit = await this.getRedditClient(redditId);
-      console.log('Reddit client obtained successfully');
-      
-      // Get user's subscribed subreddits
-      const subreddits = await this.getUserSubreddits(redditId);
-      console.log(`Found ${subreddits.length} subscribed subreddits`);
-      
-      if (subreddits.length === 0) {
-        console.warn('User has no subscribed subreddits, using fallback approach');
-        return await this.getFallbackPosts(reddit, limit);
-      }
-      
-      // Maximum Reddit API efficiency approach
-      const allPosts: RedditPost[] = [];
-      
-      // BALANCED APPROACH: Fetch from more subreddits but with delays
-      const topSubs = subreddits.slice(0, 6); // Increased for more content variety
-      console.log(`Fetching from top ${topSubs.length} subreddits:`, topSubs.map(s => s.name).join(', '));
-      
-      // Sequential fetching with better error handling
-      for (let i = 0; i < topSubs.length; i++) {
-        const sub = topSubs[i];
-        try {
-          // Add delay between requests to prevent rate limiting
-          if (i > 0) {
-            await new Promise(resolve => setTimeout(resolve, 800)); // Slightly faster but safe
-          }
-          
-          console.log(`Fetching posts from r/${sub.name}...`);
-          
-          // Get posts from this subreddit with retry logic
-          const subPosts = await this.getSubredditPostsWithRetry(reddit, sub.name, 25);
-          const formattedPosts = subPosts.map((post: any) => this.formatRedditPost(post));
-          allPosts.push(...formattedPosts);
-          
-          console.log(`Successfully fetched ${formattedPosts.length} posts from r/${sub.name}`);
-        } catch (error) {
-          console.error(`Failed to fetch posts from r/${sub.name}:`, error);
-          // Continue with other subreddits instead of failing completely
-        }
-      }
-      
-      console.log(`Total posts fetched from subscribed subreddits: ${allPosts.length}`);
-      
-      // Add popular business/tech subreddits if we don't have enough content
-      if (allPosts.length < limit / 2) {
-        console.log('Adding posts from popular business/tech subreddits...');
-        await this.addPopularSubredditPosts(reddit, allPosts);
-      }
+  static async getNewPostsSince(redditId: string, subredditName: string, before: string | null, limit: number = 100): Promise<RedditPost[]> {
+    const reddit = await this.getRedditClient(redditId);
 
-      // Remove duplicates based on post ID
-      const uniquePosts = Array.from(
-        new Map(allPosts.map(post => [post.id, post])).values()
-      );
-      
-      console.log(`After deduplication: ${uniquePosts.length} unique posts`);
-      
-      // Sort by creation time (newest first) and limit results
-      const finalPosts = uniquePosts
-        .sort((a, b) => b.created.getTime() - a.created.getTime())
-        .slice(0, limit);
-      
-      console.log(`Returning ${finalPosts.length} posts`);
-      return finalPosts;
-        
+    try {
+      // @ts-ignore: Snoowrap types are complex
+      const posts = await reddit.getSubreddit(subredditName).getNew({ limit, ...(before && { before }) });
+      return posts.map((post: any) => this.formatRedditPost(post));
     } catch (error) {
-      console.error('Error in getHomeFeed:', error);
-      throw new Error(`Failed to fetch home feed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
-
-  /**
-   * Get posts from a single subreddit with retry logic
-   */
-  private static async getSubredditPostsWithRetry(reddit: any, subredditName: string, limit: number, retries: number = 2): Promise<any[]> {
-    for (let attempt = 0; attempt <= retries; attempt++) {
-      try {
-        // Mix of new and hot posts for better content variety
-        const [newPosts, hotPosts] = await Promise.all([
-          reddit.getSubreddit(subredditName).getNew({ limit: Math.ceil(limit * 0.7) }),
-          reddit.getSubreddit(subredditName).getHot({ limit: Math.ceil(limit * 0.3) })
-        ]);
-        
-        return [...newPosts, ...hotPosts];
-      } catch (error) {
-        console.error(`Attempt ${attempt + 1} failed for r/${subredditName}:`, error);
-        
-        if (attempt === retries) {
-          throw error;
-        }
-        
-        // Exponential backoff
-        await new Promise(resolve => setTimeout(resolve, 1000 * (attempt + 1)));
-      }
-    }
-    
-    return [];
-  }
-
-  /**
-   * Add posts from popular business/tech subreddits to fill content gaps
-   */
-  private static async addPopularSubredditPosts(reddit: any, allPosts: RedditPost[]): Promise<void> {
-    const businessSubs = ['entrepreneur', 'startups', 'SaaS', 'business', 'webdev', 'programming'];
-    
-    for (let i = 0; i < Math.min(businessSubs.length, 3); i++) {
-      try {
-        await new Promise(resolve => setTimeout(resolve, 600));
-        const businessSub = businessSubs[i];
-        
-        console.log(`Adding posts from popular subreddit r/${businessSub}...`);
-        
-        const subPosts = await this.getSubredditPostsWithRetry(reddit, businessSub, 15);
-        const formattedPosts = subPosts.map((post: any) => this.formatRedditPost(post));
-        allPosts.push(...formattedPosts);
-        
-        console.log(`Added ${formattedPosts.length} posts from r/${businessSub}`);
-      } catch (error) {
-        console.error(`Failed to fetch posts from popular subreddit r/${businessSubs[i]}:`, error);
-      }
+      throw new Error(`Failed to fetch new posts from r/${subredditName}: ${error}`);
     }
   }
 
-  /**
-   * Fallback method when user has no subscribed subreddits
-   */
-  private static async getFallbackPosts(reddit: any, limit: number): Promise<RedditPost[]> {
-    const defaultSubs = ['popular', 'all'];
-    const allPosts: RedditPost[] = [];
-    
-    for (const subName of defaultSubs) {
-      try {
-        console.log(`Fetching from r/${subName} as fallback...`);
-        
-        const posts = await reddit.getSubreddit(subName).getHot({ limit: Math.ceil(limit / 2) });
-        const formattedPosts = posts.map((post: any) => this.formatRedditPost(post));
-        allPosts.push(...formattedPosts);
-        
-        if (allPosts.length >= limit) break;
-      } catch (error) {
-        console.error(`Failed to fetch fallback posts from r/${subName}:`, error);
-      }
-    }
-    
-    return allPosts.slice(0, limit);
-  }
-
   /**
    * Get detailed subreddit information
    */
@@ -487,7 +354,7 @@ export class RedditService {
           break;
       }
 
-      return posts.map((post: any) => this.formatRedditPost(post));
+      return this.formatAndCachePosts(posts);
     } catch (error) {
       console.error(`Error fetching posts from r/${subredditName}:`, error);
       throw error;
@@ -501,29 +368,35 @@ export class RedditService {
     const reddit = await this.getRedditClient(redditId);
     
     try {
+      // Fetched up front: on a lazy object, settings like submission_type are pending promises
       // @ts-ignore: Snoowrap types are complex
-      const sub = await reddit.getSubreddit(subreddit);
-      const [rules, flairTemplates] = await Promise.all([
+      const sub = await reddit.getSubreddit(subreddit).fetch();
+      const [rules, flairTemplates, requirements] = await Promise.all([
         sub.getRules(),
-        sub.getLinkFlairTemplates().catch(() => [])
+        sub.getLinkFlairTemplates().catch(() => []),
+        this.oauthGet(redditId, `/api/v1/${encodeURIComponent(subreddit)}/post_requirements`, new URLSearchParams())
+          .catch(() => null)
       ]);
       
       // Parse subreddit settings for post requirements
       const postRequirements = {
         flairRequired: false,
+        flairLikelyRequired: false,
         minBodyLength: undefined as number | undefined,
         maxBodyLength: undefined as number | undefined,
         restrictedWords: [] as string[]
       };
       
-      // Check if flair is required by examining subreddit rules
+      // Only Reddit's own answer makes flair required; when that lookup fails, guess from the rules
       const hasFlairRule = Array.isArray(rules) && rules.some((rule: any) => 
         rule.description?.toLowerCase().includes('flair') ||
         rule.short_name?.toLowerCase().includes('flair')
       );
       
-      if (hasFlairRule || flairTemplates.length > 0) {
-        postRequirements.flairRequired = true;
+      if (typeof requirements?.is_flair_required === 'boolean') {
+        postRequirements.flairRequired = requirements.is_flair_required;
+      } else {
+        postRequirements.flairLikelyRequired = hasFlairRule || flairTemplates.length > 0;
       }
       
       return {
@@ -541,7 +414,8 @@ export class RedditService {
           type: flair.type || 'text',
           allowable_content: flair.allowable_content,
           max_emojis: flair.max_emojis,
-          mod_only: flair.mod_only,
+          mod_only: flair.mod_only ?? flair.flair_mod_only,
+          text_editable: flair.text_editable ?? flair.flair_text_editable,
           css_class: flair.css_class
         })),
         postRequirements
@@ -551,6 +425,133 @@ export class RedditService {
     }
   }
 
+  /**
+   * Get a single post, from the local post store if we've seen it before, otherwise from Reddit.
+   * Cached copies can lag behind on score and comment count.
+   */
+  static async getPostById(redditId: string, postId: string): Promise<RedditPost | null> {
+    const id = postId.replace(/^t3_/, '');
+
+    const cached = await PostStore.getPost(id);
+    if (cached) return cached;
+
+    const reddit = await this.getRedditClient(redditId);
+
+    try {
+      // @ts-ignore: Snoowrap types are complex
+      const submission = await reddit.getSubmission(id).fetch();
+      const post = this.formatRedditPost(submission);
+      await PostStore.savePosts([post]);
+      return post;
+    } catch (error) {
+      if (error.statusCode === 404) return null;
+      throw new Error(`Failed to fetch post ${id}: ${error}`);
+    }
+  }
+
+  /**
+   * Get a post's comment tree. `comment` starts the tree at that comment instead of the
+   * top level, which is how threads that continue past `depth` are loaded.
+   * Returns null when the post doesn't exist.
+   */
+  static async getPostComments(
+    redditId: string,
+    postId: string,
+    options: { sort: CommentSort; depth: number; limit: number; comment?: string }
+  ): Promise<CommentThread | null> {
+    const id = postId.replace(/^t3_/, '');
+    const params = new URLSearchParams({
+      sort: options.sort,
+      depth: String(options.depth),
+      limit: String(options.limit),
+      raw_json: '1'
+    });
+    if (options.comment) params.set('comment', options.comment.replace(/^t1_/, ''));
+
+    const listing = await this.oauthGet(redditId, `/comments/${id}`, params);
+    if (!listing) return null;
+
+    // The response is [post listing, comment listing]
+    return { postId: id, sort: options.sort, ...CommentTree.fromListing(listing[1]?.data?.children) };
+  }
+
+  /**
+   * Load comments that a "more" placeholder stood in for, as a tree of their own
+   */
+  static async getMoreComments(
+    redditId: string,
+    postId: string,
+    children: string[],
+    options: { sort: CommentSort; depth: number }
+  ): Promise<CommentThread> {
+    const id = postId.replace(/^t3_/, '');
+    const params = new URLSearchParams({
+      api_type: 'json',
+      link_id: `t3_${id}`,
+      children: children.join(','),
+      sort: options.sort,
+      depth: String(options.depth),
+      limit_children: 'false',
+      raw_json: '1'
+    });
+
+    const result = await this.oauthGet(redditId, '/api/morechildren', params);
+    return { postId: id, sort: options.sort, ...CommentTree.fromFlat(result?.json?.data?.things) };
+  }
+
+  /**
+   * Look up posts and comments by fullname, as the raw Reddit data. Things Reddit no longer
+   * knows about are left out.
+   */
+  static async getThings(redditId: string, fullnames: string[]): Promise<any[]> {
+    const things: any[] = [];
+    // /api/info takes at most 100 fullnames per request
+    for (let i = 0; i < fullnames.length; i += 100) {
+      const params = new URLSearchParams({ id: fullnames.slice(i, i + 100).join(','), raw_json: '1' });
+      const listing = await this.oauthGet(redditId, '/api/info', params);
+      things.push(...(listing?.data?.children || []).map((child: any) => child.data));
+    }
+    return things;
+  }
+
+  /**
+   * GET a Reddit API path with the user's pooled access token, counting the request
+   * against their rate-limit budget. Resolves null on 404.
+   */
+  private static async oauthGet(redditId: string, path: string, params: URLSearchParams): Promise<any | null> {
+    const accessToken = await RedditClientPool.getAccessToken(redditId);
+    const response = await fetch(`https://oauth.reddit.com${path}?${params}`, {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'User-Agent': 'RedditCopilot/1.0.0'
+      }
+    });
+    RedditClientPool.recordRateLimit(redditId, response.headers);
+
+    if (response.status === 404) return null;
+    if (response.status === 401) {
+      // Drop the pooled client so the next request starts from a fresh token
+      RedditClientPool.invalidate(redditId);
+    }
+    if (!response.ok) {
+      throw new Error(`Reddit responded with ${response.status} for ${path}`);
+    }
+    return response.json();
+  }
+
+  /**
+   * Format a listing and remember the posts in the local store without holding up the caller
+   */
+  private static formatAndCachePosts(posts: any[]): RedditPost[] {
+    const formattedPosts = posts.map((post: any) => this.formatRedditPost(post));
+
+    PostStore.savePosts(formattedPosts).catch(error => {
+      console.error('Failed to cache posts:', error);
+    });
+
+    return formattedPosts;
+  }
+
   /**
    * Format Reddit post data into our interface
    */
@@ -585,17 +586,112 @@ export class RedditService {
   }
 
   /**
-   * Execute a Reddit action (post, comment, etc.)
+   * Check an action before it's sent: the fields its type needs, and for submissions,
+   * whether the target subreddit accepts that kind of post. Returns the problems found.
+   */
+  static async validateAction(redditId: string, action: RedditAction): Promise<string[]> {
+    const errors: string[] = [];
+
+    if (!REDDIT_ACTION_TYPES.includes(action.type)) {
+      return [`type must be one of: ${REDDIT_ACTION_TYPES.join(', ')}`];
+    }
+
+    for (const flag of ['nsfw', 'spoiler', 'sendReplies'] as const) {
+      if (action[flag] !== undefined && typeof action[flag] !== 'boolean') {
+        errors.push(`${flag} must be true or false`);
+      }
+    }
+
+    if (action.type === 'comment') {
+      if (!action.content?.trim()) errors.push('content is required');
+      if (!action.parentId || !this.parseParentId(action.parentId)) {
+        errors.push('parentId must be a post (t3_) or comment (t1_) fullname');
+      }
+      return errors;
+    }
+
+    if (action.type === 'edit' || action.type === 'delete') {
+      if (action.type === 'edit' && !action.content?.trim()) errors.push('content is required');
+      if (typeof action.thingId !== 'string' || !/^t[13]_[a-z0-9]+$/i.test(action.thingId.trim())) {
+        errors.push('thingId must be a post (t3_) or comment (t1_) fullname');
+      }
+      return errors;
+    }
+
+    if (!action.targetSubreddit?.trim()) errors.push('targetSubreddit is required');
+    if (!action.title?.trim()) errors.push('title is required');
+    else if (action.title.length > 300) errors.push('title must be at most 300 characters');
+
+    if (action.type === 'link') {
+      try {
+        const url = new URL(action.url);
+        if (url.protocol !== 'https:' && url.protocol !== 'http:') throw new Error();
+      } catch {
+        errors.push('url must be an http(s) URL');
+      }
+    }
+
+    if (action.type === 'crosspost') {
+      const original = action.crosspostOf ? this.parseParentId(action.crosspostOf) : null;
+      if (!original || original.kind !== 'post') errors.push('crosspostOf must be a post ID or t3_ fullname');
+    }
+
+    if (errors.length > 0) return errors;
+
+    // Crossposts are link submissions as far as submission_type goes
+    const { submissionType, flairs, postRequirements } = await this.getSubredditRules(redditId, action.targetSubreddit);
+    if (submissionType === 'self' && action.type !== 'post') {
+      errors.push(`r/${action.targetSubreddit} only allows text posts`);
+    } else if (submissionType === 'link' && action.type === 'post') {
+      errors.push(`r/${action.targetSubreddit} only allows link posts`);
+    }
+
+    // Posts without a required flair, or with one only moderators may set, get removed after the fact
+    const flair = action.flairId ? flairs.find(template => template.id === action.flairId) : undefined;
+    if (action.flairId && !flair) {
+      errors.push(`r/${action.targetSubreddit} has no flair template "${action.flairId}"`);
+    } else if (flair?.mod_only) {
+      errors.push(`Flair "${flair.text}" can only be set by r/${action.targetSubreddit} moderators`);
+    } else if (!flair && postRequirements?.flairRequired) {
+      const choices = flairs.filter(template => !template.mod_only).map(template => template.text);
+      errors.push(`r/${action.targetSubreddit} requires post flair${choices.length > 0 ? `. Choose one of: ${choices.join(', ')}` : ''}`);
+    }
+
+    if (action.flairText !== undefined) {
+      if (!flair?.text_editable) {
+        errors.push('flairText can only be set with a flair template whose text is editable');
+      } else if (typeof action.flairText !== 'string' || action.flairText.length > 64) {
+        errors.push('flairText must be at most 64 characters');
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Execute a Reddit action (post, comment, etc.). Throws RedditActionValidationError
+   * without contacting Reddit's submit endpoints when validateAction finds problems.
    */
   static async executeAction(redditId: string, action: RedditAction): Promise<ActionResult> {
+    const errors = await this.validateAction(redditId, action);
+    if (errors.length > 0) {
+      throw new RedditActionValidationError(errors);
+    }
+
     const reddit = await this.getRedditClient(redditId);
     
     try {
       switch (action.type) {
         case 'post':
+        case 'link':
+        case 'crosspost':
           return await this.createPost(reddit, action);
         case 'comment':
           return await this.createComment(reddit, action);
+        case 'edit':
+          return await this.editContent(reddit, action);
+        case 'delete':
+          return await this.deleteContent(reddit, action);
         default:
           throw new Error(`Unsupported action type: ${action.type}`);
       }
@@ -605,11 +701,27 @@ export class RedditService {
   }
 
   private static async createPost(reddit: any, action: RedditAction): Promise<ActionResult> {
-    // @ts-ignore: Snoowrap types are complex
-    const submission = await reddit.getSubreddit(action.targetSubreddit).submitSelfpost({
+    const options = {
       title: action.title,
-      text: action.content
-    });
+      sendReplies: action.sendReplies ?? true,
+      nsfw: action.nsfw ?? false,
+      spoiler: action.spoiler ?? false,
+      flairId: action.flairId,
+      flairText: action.flairText
+    };
+    const subreddit = reddit.getSubreddit(action.targetSubreddit);
+
+    let submission;
+    if (action.type === 'link') {
+      submission = await subreddit.submitLink({ ...options, url: action.url });
+    } else if (action.type === 'crosspost') {
+      submission = await subreddit.submitCrosspost({
+        ...options,
+        originalPost: `t3_${this.parseParentId(action.crosspostOf).id}`
+      });
+    } else {
+      submission = await subreddit.submitSelfpost({ ...options, text: action.content });
+    }
 
     // Wait for the submission to be fully loaded
     await submission.fetch();
@@ -623,13 +735,21 @@ export class RedditService {
     };
   }
 
-  private static async createComment(reddit: any, action: RedditAction): Promise<ActionResult> {
-    if (!action.parentId) {
-      throw new Error('Comment action requires parentId');
-    }
+  /**
+   * Work out what a comment replies to: a `t1_` fullname is a comment, a `t3_` fullname or
+   * a bare ID is a post. Returns null for anything else.
+   */
+  static parseParentId(parentId: string): { kind: 'post' | 'comment'; id: string } | null {
+    const match = /^(?:(t1|t3)_)?([a-z0-9]+)$/i.exec(parentId.trim());
+    if (!match) return null;
+    return { kind: match[1]?.toLowerCase() === 't1' ? 'comment' : 'post', id: match[2].toLowerCase() };
+  }
 
+  private static async createComment(reddit: any, action: RedditAction): Promise<ActionResult> {
+    const parent = this.parseParentId(action.parentId);
+    const target = parent.kind === 'comment' ? reddit.getComment(parent.id) : reddit.getSubmission(parent.id);
     // @ts-ignore: Snoowrap types are complex
-    const comment = await reddit.getSubmission(action.parentId).reply(action.content);
+    const comment = await target.reply(action.content);
 
     return {
       success: true,
@@ -639,15 +759,63 @@ export class RedditService {
       message: 'Comment created successfully'
     };
   }
+
+  // Reddit only lets the author edit or delete, and only self posts have text to edit
+  private static getThing(reddit: any, thingId: string): any {
+    const thing = this.parseParentId(thingId);
+    return thing.kind === 'comment' ? reddit.getComment(thing.id) : reddit.getSubmission(thing.id);
+  }
+
+  private static async editContent(reddit: any, action: RedditAction): Promise<ActionResult> {
+    await this.getThing(reddit, action.thingId).edit(action.content);
+
+    return {
+      success: true,
+      actionId: action.id,
+      redditId: this.parseParentId(action.thingId).id,
+      message: 'Content updated successfully'
+    };
+  }
+
+  private static async deleteContent(reddit: any, action: RedditAction): Promise<ActionResult> {
+    await this.getThing(reddit, action.thingId).delete();
+
+    return {
+      success: true,
+      actionId: action.id,
+      redditId: this.parseParentId(action.thingId).id,
+      message: 'Content deleted successfully'
+    };
+  }
 }
 
+export const REDDIT_ACTION_TYPES = ['post', 'link', 'crosspost', 'comment', 'edit', 'delete'] as const;
+
 export interface RedditAction {
   id: string;
-  type: 'post' | 'comment';
+  type: typeof REDDIT_ACTION_TYPES[number]; // post is a text (self) post; image posts are links to the image
   title: string;
-  content: string;
+  content: string; // Self text for posts, body for comments, new text for edits; unused for links and crossposts
   targetSubreddit: string;
-  parentId?: string; // For comments
+  parentId?: string; // For comments: t3_ post or t1_ comment fullname (bare IDs are posts)
+  thingId?: string; // For edit and delete: t3_ post or t1_ comment fullname of our own content
+  url?: string; // For links
+  crosspostOf?: string; // For crossposts: the post to share, as an ID or t3_ fullname
+  nsfw?: boolean;
+  spoiler?: boolean;
+  sendReplies?: boolean; // Inbox replies to the submission; defaults to true
+  flairId?: string; // Link flair template ID from getSubredditRules
+  flairText?: string; // Custom text, for templates whose text is editable
+}
+
+/**
+ * An action that failed validation and was never sent to Reddit
+ */
+export class RedditActionValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid action: ${errors.join('; ')}`);
+    this.name = 'RedditActionValidationError';
+  }
 }
 
 export interface ActionResult {
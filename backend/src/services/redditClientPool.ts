@@ -0,0 +1,154 @@
+import snoowrap from 'snoowrap';
+import { RedditTokenManager } from './tokenManager';
+
+// Rebuild a pooled client this long before its access token expires
+const TOKEN_MARGIN = 5 * 60 * 1000;
+// Tokens saved before expiry tracking have no known expiry; re-check them this often
+const UNKNOWN_EXPIRY_TTL = 10 * 60 * 1000;
+// Drop clients nobody has used for a while
+const IDLE_TTL = 30 * 60 * 1000;
+
+// Below this many remaining requests we start spacing calls out over the rest of the window
+const PACING_THRESHOLD = 100;
+// Requests kept in reserve for interactive calls (posting, profile) while background loops wait
+const RESERVED_REQUESTS = 5;
+
+interface PooledClient {
+  client: snoowrap;
+  accessToken: string;
+  validUntil: number;
+  lastUsed: number;
+}
+
+export interface RateLimitBudget {
+  remaining: number | null;
+  resetAt: number | null; // epoch ms
+}
+
+/**
+ * One snoowrap client per user, reused across requests. Because every caller shares
+ * the same instance, the x-ratelimit-* counters snoowrap records on it form a single
+ * per-user budget that all Reddit-heavy loops throttle against.
+ */
+export class RedditClientPool {
+  private static clients = new Map<string, PooledClient>();
+  private static pending = new Map<string, Promise<PooledClient>>();
+
+  static async acquire(redditId: string): Promise<snoowrap> {
+    return (await this.getEntry(redditId)).client;
+  }
+
+  /**
+   * Access token of the pooled client, for the few calls made with fetch instead of snoowrap
+   */
+  static async getAccessToken(redditId: string): Promise<string> {
+    return (await this.getEntry(redditId)).accessToken;
+  }
+
+  /**
+   * Wait until the user's rate-limit budget allows another request.
+   * Replaces fixed sleeps: free while the budget is healthy, paced as it runs low,
+   * and blocked until the window resets once only the reserve is left.
+   */
+  static async throttle(redditId: string): Promise<void> {
+    const delay = this.getThrottleDelay(this.getBudget(redditId));
+    if (delay > 0) {
+      console.log(`Rate limit budget low for ${redditId}, waiting ${delay}ms`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+
+  static getBudget(redditId: string): RateLimitBudget {
+    const entry = this.clients.get(redditId);
+    if (!entry || entry.client.ratelimitRemaining == null) {
+      return { remaining: null, resetAt: null };
+    }
+    return {
+      remaining: entry.client.ratelimitRemaining,
+      resetAt: entry.client.ratelimitExpiration
+    };
+  }
+
+  /**
+   * Record rate-limit headers from a request made outside snoowrap so it counts against the same budget
+   */
+  static recordRateLimit(redditId: string, headers: Headers): void {
+    const entry = this.clients.get(redditId);
+    const remaining = headers.get('x-ratelimit-remaining');
+    const reset = headers.get('x-ratelimit-reset');
+    if (!entry || remaining === null || reset === null) return;
+
+    entry.client.ratelimitRemaining = Number(remaining);
+    entry.client.ratelimitExpiration = Date.now() + Number(reset) * 1000;
+  }
+
+  static invalidate(redditId: string): void {
+    this.clients.delete(redditId);
+  }
+
+  private static getThrottleDelay(budget: RateLimitBudget): number {
+    if (budget.remaining === null || budget.resetAt === null) return 0;
+
+    const untilReset = budget.resetAt - Date.now();
+    if (untilReset <= 0 || budget.remaining > PACING_THRESHOLD) return 0;
+
+    if (budget.remaining <= RESERVED_REQUESTS) return untilReset;
+
+    // Spread what's left evenly over the rest of the window
+    return Math.ceil(untilReset / (budget.remaining - RESERVED_REQUESTS));
+  }
+
+  private static async getEntry(redditId: string): Promise<PooledClient> {
+    this.evictIdle();
+
+    const entry = this.clients.get(redditId);
+    if (entry && entry.validUntil > Date.now()) {
+      entry.lastUsed = Date.now();
+      return entry;
+    }
+
+    // Concurrent first requests for a user share one construction
+    const pending = this.pending.get(redditId);
+    if (pending) return pending;
+
+    const build = this.buildEntry(redditId, entry)
+      .finally(() => this.pending.delete(redditId));
+    this.pending.set(redditId, build);
+    return build;
+  }
+
+  private static async buildEntry(redditId: string, previous?: PooledClient): Promise<PooledClient> {
+    const { accessToken, expiresAt } = await RedditTokenManager.getAccessToken(redditId);
+
+    const client = new snoowrap({
+      userAgent: 'RedditCopilot/1.0.0',
+      accessToken,
+      clientId: process.env.REDDIT_CLIENT_ID!,
+      clientSecret: process.env.REDDIT_CLIENT_SECRET!
+    });
+    // Queue instead of throwing if the budget is exhausted by a call that skipped throttle()
+    client.config({ continueAfterRatelimitError: true });
+
+    // Carry the budget over when only the token was rotated; it is per user, not per token
+    if (previous) {
+      client.ratelimitRemaining = previous.client.ratelimitRemaining;
+      client.ratelimitExpiration = previous.client.ratelimitExpiration;
+    }
+
+    const entry: PooledClient = {
+      client,
+      accessToken,
+      validUntil: expiresAt ? expiresAt.getTime() - TOKEN_MARGIN : Date.now() + UNKNOWN_EXPIRY_TTL,
+      lastUsed: Date.now()
+    };
+    this.clients.set(redditId, entry);
+    return entry;
+  }
+
+  private static evictIdle(): void {
+    const cutoff = Date.now() - IDLE_TTL;
+    for (const [redditId, entry] of this.clients) {
+      if (entry.lastUsed < cutoff) this.clients.delete(redditId);
+    }
+  }
+}
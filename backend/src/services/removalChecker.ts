@@ -0,0 +1,200 @@
+import { PrismaClient, Action } from '@prisma/client';
+import { RedditService } from './reddit';
+import { RedditReauthRequiredError } from './tokenManager';
+import { PerformanceService } from './performance';
+
+const prisma = new PrismaClient();
+
+const RUN_INTERVAL = 15 * 60 * 1000;
+// Logged-out requests share a small rate limit, so each run checks a few items, spaced out
+const CHECKS_PER_RUN = 20;
+const ANONYMOUS_REQUEST_GAP = 2000;
+// A run checks items one at a time, so one slow page mustn't hold up the rest
+const ANONYMOUS_REQUEST_TIMEOUT = 15 * 1000;
+// Items are rechecked this often while they're young enough to be removed
+const RECHECK_AFTER = 6 * 60 * 60 * 1000;
+const CHECK_WINDOW = 7 * 24 * 60 * 60 * 1000;
+// Subreddit summaries look at this many of the most recent checked items
+const SUMMARY_SIZE = 10;
+
+export const VISIBILITY_STATUSES = ['visible', 'removed', 'invisible', 'deleted'] as const;
+export type Visibility = typeof VISIBILITY_STATUSES[number];
+
+// Removed and invisible content counts against a subreddit; deleting your own doesn't
+const FLAGGED: Visibility[] = ['removed', 'invisible'];
+
+export interface SubredditRemovalSummary {
+  subreddit: string;
+  checked: number;
+  flagged: number;
+  streak: number; // How many of the most recent checked items in a row were removed or invisible
+  lastFlaggedAt: Date | null;
+  warning: string | null;
+}
+
+/**
+ * Finds copilot posts and comments that other people can't see. Your own logged-in view of
+ * a silently removed comment looks normal, so each item is also fetched logged out and the
+ * two views are compared.
+ */
+export class RemovalChecker {
+  private static timer: NodeJS.Timeout | null = null;
+  private static running = false;
+
+  static start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.runAll(), RUN_INTERVAL);
+    this.runAll();
+  }
+
+  static async runAll(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const now = Date.now();
+      const rows = await prisma.action.findMany({
+        where: {
+          status: 'posted',
+          thingId: { not: null },
+          deletedAt: null,
+          createdAt: { gte: new Date(now - CHECK_WINDOW) },
+          // Removed and deleted are final; invisible content sometimes gets approved
+          OR: [{ visibility: null }, { visibility: { in: ['visible', 'invisible'] } }],
+          AND: [{
+            OR: [{ visibilityCheckedAt: null }, { visibilityCheckedAt: { lt: new Date(now - RECHECK_AFTER) } }]
+          }]
+        },
+        include: { user: { select: { redditId: true } } },
+        orderBy: { visibilityCheckedAt: { sort: 'asc', nulls: 'first' } },
+        take: CHECKS_PER_RUN
+      });
+
+      for (const { user, ...action } of rows) {
+        try {
+          await this.checkAction(user.redditId, action);
+        } catch (error) {
+          if (error instanceof RedditReauthRequiredError) {
+            console.warn(`Skipping removal check of ${action.id}: Reddit re-authentication required`);
+          } else {
+            console.error(`Removal check of ${action.id} failed:`, error);
+          }
+        }
+        await new Promise(resolve => setTimeout(resolve, ANONYMOUS_REQUEST_GAP));
+      }
+    } catch (error) {
+      console.error('Removal check run failed:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Compare the logged-in and logged-out views of one item and store the outcome. Returns
+   * null without storing anything when the logged-out view couldn't be loaded.
+   */
+  static async checkAction(redditId: string, action: Pick<Action, 'id' | 'thingId' | 'url'>): Promise<Visibility | null> {
+    const [[authenticated], anonymous] = await Promise.all([
+      RedditService.getThings(redditId, [action.thingId!]),
+      this.fetchAnonymous(action.url, action.thingId!)
+    ]);
+    if (anonymous === undefined) return null;
+
+    const visibility = this.classify(authenticated, anonymous);
+    await prisma.action.update({
+      where: { id: action.id },
+      data: { visibility, visibilityCheckedAt: new Date() }
+    });
+    return visibility;
+  }
+
+  /**
+   * Work out visibility from the logged-in view of an item and the logged-out one (null
+   * when the item wasn't there at all)
+   */
+  static classify(authenticated: any, anonymous: any | null): Visibility {
+    const own = authenticated ? PerformanceService.removalStatus(authenticated) : 'deleted';
+    if (own) return own;
+    if (!anonymous) return 'invisible';
+    return PerformanceService.removalStatus(anonymous) === 'removed' ? 'removed' : 'visible';
+  }
+
+  /**
+   * Recent outcomes in each subreddit the user posted to, or just one, with a warning when
+   * the latest items there were removed or hidden
+   */
+  static async getSummaries(redditId: string, subreddit?: string): Promise<SubredditRemovalSummary[]> {
+    const rows = await prisma.action.findMany({
+      where: {
+        user: { redditId },
+        visibility: { in: ['visible', 'removed', 'invisible'] }
+      },
+      select: { subreddit: true, type: true, visibility: true, createdAt: true },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    const bySubreddit = new Map<string, typeof rows>();
+    for (const row of rows) {
+      // Subreddit names are case-insensitive and we store them as typed
+      const key = row.subreddit.toLowerCase();
+      if (subreddit && key !== subreddit.toLowerCase()) continue;
+      const recent = bySubreddit.get(key) || [];
+      if (recent.length < SUMMARY_SIZE) bySubreddit.set(key, [...recent, row]);
+    }
+
+    return Array.from(bySubreddit.values(), recent => {
+      const flagged = recent.filter(row => FLAGGED.includes(row.visibility as Visibility));
+      const firstVisible = recent.findIndex(row => !FLAGGED.includes(row.visibility as Visibility));
+      const streak = firstVisible === -1 ? recent.length : firstVisible;
+
+      return {
+        subreddit: recent[0].subreddit,
+        checked: recent.length,
+        flagged: flagged.length,
+        streak,
+        lastFlaggedAt: flagged[0]?.createdAt || null,
+        warning: this.warning(recent[0].subreddit, recent.slice(0, streak))
+      };
+    }).sort((a, b) => b.streak - a.streak || b.flagged - a.flagged);
+  }
+
+  private static warning(subreddit: string, streak: Array<{ type: string; visibility: string | null }>): string | null {
+    if (streak.length === 0) return null;
+
+    const types = new Set(streak.map(row => (row.type === 'comment' ? 'comment' : 'post')));
+    const subject = streak.length === 1
+      ? `Your last ${Array.from(types)[0]} in r/${subreddit} was`
+      : `Your last ${streak.length} ${types.size === 1 ? `${Array.from(types)[0]}s` : 'posts and comments'} in r/${subreddit} were`;
+
+    if (streak.every(row => row.visibility === 'invisible')) {
+      return `${subject} hidden from other users. Your account may be shadowbanned or caught in the spam filter there.`;
+    }
+    return `${subject} removed.`;
+  }
+
+  /**
+   * Load an item's permalink logged out. Resolves null when the item isn't there and
+   * undefined when the page couldn't be loaded at all (private subreddit, rate limit, timeout).
+   */
+  private static async fetchAnonymous(url: string, thingId: string): Promise<any | null | undefined> {
+    const permalink = url.replace(/^https:\/\/(www\.)?reddit\.com/, '').replace(/\/$/, '');
+    let listings: any[];
+    try {
+      const response = await fetch(`https://www.reddit.com${permalink}/.json?raw_json=1&limit=1&depth=1`, {
+        headers: { 'User-Agent': 'RedditCopilot/1.0.0' },
+        signal: AbortSignal.timeout(ANONYMOUS_REQUEST_TIMEOUT)
+      });
+      if (response.status === 404) return null;
+      if (!response.ok) return undefined;
+
+      listings = await response.json() as any[];
+    } catch (error) {
+      if (error?.name === 'TimeoutError' || error?.name === 'AbortError') return undefined;
+      throw error;
+    }
+
+    const [postListing, commentListing] = listings;
+    const listing = thingId.startsWith('t1_') ? commentListing : postListing;
+    return listing?.data?.children?.find((child: any) => child.data?.name === thingId)?.data || null;
+  }
+}
@@ -0,0 +1,120 @@
+import { PrismaClient, SavedSearch as SavedSearchRow, Alert } from '@prisma/client';
+import { ContentFilter } from './contentFilter';
+
+const prisma = new PrismaClient();
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  filter: ContentFilter;
+  subreddits: string[];
+  webhookUrl: string | null;
+  email: string | null;
+  lastRunAt: Date | null;
+  createdAt: Date;
+}
+
+export interface SavedSearchInput {
+  name: string;
+  filter: ContentFilter;
+  subreddits: string[];
+  webhookUrl?: string | null;
+  email?: string | null;
+}
+
+/**
+ * Per-user saved searches (a content filter over a set of subreddits) and the alerts they raise
+ */
+export class SavedSearchService {
+  static async listSearches(redditId: string): Promise<SavedSearch[]> {
+    const rows = await prisma.savedSearch.findMany({
+      where: { user: { redditId } },
+      orderBy: { createdAt: 'asc' }
+    });
+    return rows.map(row => this.toSavedSearch(row));
+  }
+
+  static async createSearch(redditId: string, input: SavedSearchInput): Promise<SavedSearch> {
+    const user = await prisma.user.findUnique({ where: { redditId } });
+    if (!user) throw new Error('User not found');
+
+    const row = await prisma.savedSearch.create({
+      data: {
+        userId: user.id,
+        name: input.name,
+        filter: JSON.stringify(input.filter),
+        subreddits: JSON.stringify(input.subreddits),
+        webhookUrl: input.webhookUrl || null,
+        email: input.email || null
+      }
+    });
+    return this.toSavedSearch(row);
+  }
+
+  /**
+   * Changing what a search matches makes its next run a first run again, so posts that only
+   * match the new criteria are marked seen instead of arriving as a burst of old alerts.
+   */
+  static async updateSearch(redditId: string, id: string, input: Partial<SavedSearchInput>): Promise<SavedSearch | null> {
+    const existing = await prisma.savedSearch.findFirst({ where: { id, user: { redditId } } });
+    if (!existing) return null;
+
+    const criteriaChanged =
+      (input.filter !== undefined && JSON.stringify(input.filter) !== existing.filter) ||
+      (input.subreddits !== undefined && JSON.stringify(input.subreddits) !== existing.subreddits);
+
+    const row = await prisma.savedSearch.update({
+      where: { id },
+      data: {
+        ...(criteriaChanged && { lastRunAt: null }),
+        ...(input.name !== undefined && { name: input.name }),
+        ...(input.filter !== undefined && { filter: JSON.stringify(input.filter) }),
+        ...(input.subreddits !== undefined && { subreddits: JSON.stringify(input.subreddits) }),
+        ...(input.webhookUrl !== undefined && { webhookUrl: input.webhookUrl || null }),
+        ...(input.email !== undefined && { email: input.email || null })
+      }
+    });
+    return this.toSavedSearch(row);
+  }
+
+  static async deleteSearch(redditId: string, id: string): Promise<boolean> {
+    const { count } = await prisma.savedSearch.deleteMany({ where: { id, user: { redditId } } });
+    return count > 0;
+  }
+
+  static async listAlerts(redditId: string, options: { unreadOnly?: boolean; limit: number }): Promise<Alert[]> {
+    return prisma.alert.findMany({
+      where: {
+        user: { redditId },
+        ...(options.unreadOnly && { readAt: null })
+      },
+      orderBy: { createdAt: 'desc' },
+      take: options.limit
+    });
+  }
+
+  static async markAlertsRead(redditId: string, ids?: string[]): Promise<number> {
+    const { count } = await prisma.alert.updateMany({
+      where: {
+        user: { redditId },
+        readAt: null,
+        ...(ids && { id: { in: ids } })
+      },
+      data: { readAt: new Date() }
+    });
+    return count;
+  }
+
+  static toSavedSearch(row: SavedSearchRow): SavedSearch {
+    return {
+      id: row.id,
+      name: row.name,
+      filter: JSON.parse(row.filter),
+      subreddits: JSON.parse(row.subreddits),
+      webhookUrl: row.webhookUrl,
+      email: row.email,
+      lastRunAt: row.lastRunAt,
+      createdAt: row.createdAt
+    };
+  }
+}
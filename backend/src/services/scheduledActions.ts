@@ -0,0 +1,141 @@
+import { PrismaClient, ScheduledAction as ScheduledActionRow } from '@prisma/client';
+import { RedditAction } from './reddit';
+import { ActionSuggestion } from './actions';
+
+const prisma = new PrismaClient();
+
+export const SCHEDULED_ACTION_STATUSES = ['scheduled', 'posting', 'posted', 'failed', 'cancelled'] as const;
+export type ScheduledActionStatus = typeof SCHEDULED_ACTION_STATUSES[number];
+
+export interface ScheduledAction {
+  id: string;
+  action: RedditAction;
+  suggestion: ActionSuggestion | null;
+  runAt: Date;
+  timeZone: string | null;
+  status: ScheduledActionStatus;
+  attempts: number;
+  nextAttemptAt: Date | null;
+  lastAttemptAt: Date | null;
+  error: string | null;
+  actionId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Thrown when a scheduled action has moved past the point where it can be changed
+ */
+export class ScheduledActionStateError extends Error {
+  constructor(public readonly status: ScheduledActionStatus, change: string) {
+    super(`A ${status} action can't be ${change}`);
+    this.name = 'ScheduledActionStateError';
+  }
+}
+
+/**
+ * Posts and comments queued to go out later. ActionScheduler sends them when they're due.
+ */
+export class ScheduledActionService {
+  static async schedule(
+    redditId: string,
+    input: { action: RedditAction; suggestion?: ActionSuggestion; runAt: Date; timeZone?: string }
+  ): Promise<ScheduledAction> {
+    const user = await prisma.user.findUnique({ where: { redditId } });
+    if (!user) throw new Error('User not found');
+
+    const row = await prisma.scheduledAction.create({
+      data: {
+        userId: user.id,
+        action: JSON.stringify(input.action),
+        suggestion: input.suggestion ? JSON.stringify(input.suggestion) : null,
+        type: input.action.type,
+        subreddit: input.action.targetSubreddit || '',
+        runAt: input.runAt,
+        timeZone: input.timeZone || null,
+        nextAttemptAt: input.runAt
+      }
+    });
+    return this.toScheduledAction(row);
+  }
+
+  static async list(
+    redditId: string,
+    options: { statuses?: ScheduledActionStatus[]; limit: number }
+  ): Promise<ScheduledAction[]> {
+    const rows = await prisma.scheduledAction.findMany({
+      where: {
+        user: { redditId },
+        ...(options.statuses && { status: { in: options.statuses } })
+      },
+      orderBy: { runAt: 'asc' },
+      take: options.limit
+    });
+    return rows.map(row => this.toScheduledAction(row));
+  }
+
+  static async get(redditId: string, id: string): Promise<ScheduledAction | null> {
+    const row = await prisma.scheduledAction.findFirst({ where: { id, user: { redditId } } });
+    return row ? this.toScheduledAction(row) : null;
+  }
+
+  /**
+   * Cancel an action that hasn't been sent yet
+   */
+  static async cancel(redditId: string, id: string): Promise<ScheduledAction | null> {
+    const existing = await this.get(redditId, id);
+    if (!existing) return null;
+
+    // Only move it if the scheduler hasn't claimed it in the meantime
+    const { count } = await prisma.scheduledAction.updateMany({
+      where: { id, status: 'scheduled' },
+      data: { status: 'cancelled', nextAttemptAt: null }
+    });
+    if (count === 0) {
+      throw new ScheduledActionStateError((await this.get(redditId, id))!.status, 'cancelled');
+    }
+    return this.get(redditId, id);
+  }
+
+  /**
+   * Move an action to a new time. Failed actions can be rescheduled to try again.
+   */
+  static async reschedule(redditId: string, id: string, runAt: Date, timeZone?: string): Promise<ScheduledAction | null> {
+    const existing = await this.get(redditId, id);
+    if (!existing) return null;
+
+    const { count } = await prisma.scheduledAction.updateMany({
+      where: { id, status: { in: ['scheduled', 'failed'] } },
+      data: {
+        runAt,
+        ...(timeZone !== undefined && { timeZone: timeZone || null }),
+        status: 'scheduled',
+        nextAttemptAt: runAt,
+        attempts: 0,
+        error: null
+      }
+    });
+    if (count === 0) {
+      throw new ScheduledActionStateError((await this.get(redditId, id))!.status, 'rescheduled');
+    }
+    return this.get(redditId, id);
+  }
+
+  static toScheduledAction(row: ScheduledActionRow): ScheduledAction {
+    return {
+      id: row.id,
+      action: JSON.parse(row.action),
+      suggestion: row.suggestion ? JSON.parse(row.suggestion) : null,
+      runAt: row.runAt,
+      timeZone: row.timeZone,
+      status: row.status as ScheduledActionStatus,
+      attempts: row.attempts,
+      nextAttemptAt: row.nextAttemptAt,
+      lastAttemptAt: row.lastAttemptAt,
+      error: row.error,
+      actionId: row.actionId,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt
+    };
+  }
+}
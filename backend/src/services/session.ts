@@ -0,0 +1,121 @@
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+const SESSION_TTL = 24 * 60 * 60 * 1000; // 24 hours
+const REFRESH_TTL = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+export interface SessionTokens {
+  sessionToken: string;
+  refreshToken: string;
+  expiresAt: Date;
+  refreshExpiresAt: Date;
+}
+
+export interface SessionUser {
+  sessionId: string;
+  redditId: string;
+  username: string;
+}
+
+export class SessionService {
+  /**
+   * Issue a new session for a user that has completed the Reddit OAuth flow.
+   * Only hashes of the tokens are stored, so a leaked database cannot be replayed.
+   */
+  static async createSession(redditId: string): Promise<SessionTokens> {
+    const user = await prisma.user.findUnique({ where: { redditId } });
+    if (!user) throw new Error('User not found');
+
+    const tokens = this.generateTokens();
+
+    await prisma.session.create({
+      data: {
+        userId: user.id,
+        tokenHash: this.hashToken(tokens.sessionToken),
+        refreshTokenHash: this.hashToken(tokens.refreshToken),
+        expiresAt: tokens.expiresAt,
+        refreshExpiresAt: tokens.refreshExpiresAt
+      }
+    });
+
+    return tokens;
+  }
+
+  /**
+   * Resolve a bearer token to its user, or null if the session is unknown, expired or revoked
+   */
+  static async verifySession(sessionToken: string): Promise<SessionUser | null> {
+    const session = await prisma.session.findUnique({
+      where: { tokenHash: this.hashToken(sessionToken) },
+      include: { user: { select: { redditId: true, username: true } } }
+    });
+
+    if (!session || session.revokedAt || session.expiresAt.getTime() <= Date.now()) {
+      return null;
+    }
+
+    return {
+      sessionId: session.id,
+      redditId: session.user.redditId,
+      username: session.user.username
+    };
+  }
+
+  /**
+   * Exchange a refresh token for a fresh token pair. The old session is revoked
+   * so each refresh token can only be used once.
+   */
+  static async rotateSession(refreshToken: string): Promise<SessionTokens | null> {
+    const session = await prisma.session.findUnique({
+      where: { refreshTokenHash: this.hashToken(refreshToken) }
+    });
+
+    if (!session || session.revokedAt || session.refreshExpiresAt.getTime() <= Date.now()) {
+      return null;
+    }
+
+    // Guard against two concurrent refreshes both succeeding
+    const revoked = await prisma.session.updateMany({
+      where: { id: session.id, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+    if (revoked.count === 0) return null;
+
+    const tokens = this.generateTokens();
+
+    await prisma.session.create({
+      data: {
+        userId: session.userId,
+        tokenHash: this.hashToken(tokens.sessionToken),
+        refreshTokenHash: this.hashToken(tokens.refreshToken),
+        expiresAt: tokens.expiresAt,
+        refreshExpiresAt: tokens.refreshExpiresAt
+      }
+    });
+
+    return tokens;
+  }
+
+  static async revokeSession(sessionId: string): Promise<void> {
+    await prisma.session.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+  }
+
+  private static generateTokens(): SessionTokens {
+    const now = Date.now();
+    return {
+      sessionToken: crypto.randomBytes(32).toString('base64url'),
+      refreshToken: crypto.randomBytes(32).toString('base64url'),
+      expiresAt: new Date(now + SESSION_TTL),
+      refreshExpiresAt: new Date(now + REFRESH_TTL)
+    };
+  }
+
+  private static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
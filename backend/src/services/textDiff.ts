@@ -0,0 +1,77 @@
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Past this many word pairs the changed middle is shown as replaced wholesale
+const MAX_DIFF_CELLS = 1000000;
+
+/**
+ * Word-level diff of two texts. Whitespace is kept as its own tokens, so joining the same
+ * and removed parts gives back `before` exactly, and the same and added parts `after`.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // Edits are usually local, so only the changed middle goes through the quadratic step
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let end = 0;
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) end++;
+
+  const parts: DiffPart[] = [];
+  append(parts, 'same', a.slice(0, start));
+
+  const removed = a.slice(start, a.length - end);
+  const added = b.slice(start, b.length - end);
+  if (removed.length * added.length > MAX_DIFF_CELLS) {
+    append(parts, 'removed', removed);
+    append(parts, 'added', added);
+  } else {
+    diffMiddle(parts, removed, added);
+  }
+
+  append(parts, 'same', a.slice(a.length - end));
+  return parts;
+}
+
+// Longest common subsequence, filled from the end so the walk can go front to back
+function diffMiddle(parts: DiffPart[], a: string[], b: string[]): void {
+  const width = b.length + 1;
+  const common = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i * width + j] = a[i] === b[j]
+        ? common[(i + 1) * width + j + 1] + 1
+        : Math.max(common[(i + 1) * width + j], common[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      append(parts, 'same', [a[i++]]);
+      j++;
+    } else if (j === b.length || (i < a.length && common[(i + 1) * width + j] >= common[i * width + j + 1])) {
+      append(parts, 'removed', [a[i++]]);
+    } else {
+      append(parts, 'added', [b[j++]]);
+    }
+  }
+}
+
+function tokenize(text: string): string[] {
+  return text.match(/\s+|\S+/g) || [];
+}
+
+function append(parts: DiffPart[], type: DiffPart['type'], tokens: string[]): void {
+  if (tokens.length === 0) return;
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.text += tokens.join('');
+  } else {
+    parts.push({ type, text: tokens.join('') });
+  }
+}
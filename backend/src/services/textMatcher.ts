@@ -0,0 +1,145 @@
+interface Term {
+  words: string[];
+  exact: boolean;
+  negated: boolean;
+}
+
+// Letters, digits, underscores and hyphens count as part of a word, so "art" doesn't match
+// inside "startup" and "game" doesn't match "game-changer"
+const BOUNDARY_BEFORE = '(?<![\\p{L}\\p{N}_-])';
+const BOUNDARY_AFTER = '(?![\\p{L}\\p{N}_-])';
+
+/**
+ * A filter keyword, exclude word or intent pattern compiled to regular expressions.
+ * It matches when all of its positive terms appear and none of its negated ones do.
+ */
+export class CompiledPattern {
+  constructor(
+    readonly source: string,
+    private readonly positives: RegExp[],
+    private readonly negatives: RegExp[]
+  ) {}
+
+  /**
+   * True for patterns made only of negations (`-crypto`), which can veto a post but never match one
+   */
+  get isNegationOnly(): boolean {
+    return this.positives.length === 0 && this.negatives.length > 0;
+  }
+
+  get isEmpty(): boolean {
+    return this.positives.length === 0 && this.negatives.length === 0;
+  }
+
+  matches(text: string): boolean {
+    if (this.positives.length === 0) return false;
+    return this.positives.every(regex => regex.test(text)) && !this.hitsNegation(text);
+  }
+
+  hitsNegation(text: string): boolean {
+    return this.negatives.some(regex => regex.test(text));
+  }
+}
+
+/**
+ * Compiles the small pattern language used by content filters:
+ *
+ *   growth             whole word, singular or plural ("growth", "growths")
+ *   looking for        bare words next to each other form a phrase; the last word may be plural
+ *   "design system"    quoted phrase, matched exactly (no plural forms)
+ *   rules -"business rules"
+ *                      `-` negates the next word or quoted phrase
+ *
+ * Matching is case-insensitive. Compile once and reuse; the text is not lowercased per call.
+ */
+export class TextMatcher {
+  static compile(pattern: string): CompiledPattern {
+    const terms = this.tokenize(pattern);
+    return new CompiledPattern(
+      pattern,
+      terms.filter(term => !term.negated).map(term => this.toRegex(term)),
+      terms.filter(term => term.negated).map(term => this.toRegex(term))
+    );
+  }
+
+  static compileAll(patterns: string[]): CompiledPattern[] {
+    return patterns.map(pattern => this.compile(pattern));
+  }
+
+  private static tokenize(pattern: string): Term[] {
+    const terms: Term[] = [];
+    let phrase: string[] = [];
+    let i = 0;
+
+    const endPhrase = () => {
+      if (phrase.length > 0) terms.push({ words: phrase, exact: false, negated: false });
+      phrase = [];
+    };
+
+    while (i < pattern.length) {
+      if (/\s/.test(pattern[i])) {
+        i++;
+        continue;
+      }
+
+      const negated = pattern[i] === '-' && i + 1 < pattern.length && !/\s/.test(pattern[i + 1]);
+      if (negated) i++;
+
+      if (pattern[i] === '"') {
+        const close = pattern.indexOf('"', i + 1);
+        const end = close === -1 ? pattern.length : close;
+        const words = pattern.slice(i + 1, end).split(/\s+/).filter(Boolean);
+        endPhrase();
+        if (words.length > 0) terms.push({ words, exact: true, negated });
+        i = end + 1;
+        continue;
+      }
+
+      const match = /^[^\s"]+/.exec(pattern.slice(i));
+      const word = match ? match[0] : pattern[i];
+      i += word.length;
+
+      if (negated) {
+        endPhrase();
+        terms.push({ words: [word], exact: false, negated: true });
+      } else {
+        phrase.push(word);
+      }
+    }
+
+    endPhrase();
+    return terms;
+  }
+
+  private static toRegex(term: Term): RegExp {
+    const last = term.words.length - 1;
+    const body = term.words
+      .map((word, index) => (index === last && !term.exact ? this.withPlurals(word) : this.escape(word.toLowerCase())))
+      .join('\\s+');
+
+    return new RegExp(`${BOUNDARY_BEFORE}${body}${BOUNDARY_AFTER}`, 'iu');
+  }
+
+  /**
+   * Regex source matching a word in singular or plural form, whichever form it was written in
+   */
+  private static withPlurals(word: string): string {
+    const stem = this.singular(word.toLowerCase());
+
+    if (/[^aeiou]y$/.test(stem)) {
+      return `${this.escape(stem.slice(0, -1))}(?:y|ies)`;
+    }
+    return `${this.escape(stem)}(?:s|es)?`;
+  }
+
+  private static singular(word: string): string {
+    if (/[^aeiou]ies$/.test(word)) return word.slice(0, -3) + 'y';
+    if (/(ch|sh|x|ss|z)es$/.test(word)) return word.slice(0, -2);
+    if (word.length > 3 && /[^sui]s$/.test(word)) return word.slice(0, -1);
+    return word;
+  }
+
+  private static escape(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+  }
+}
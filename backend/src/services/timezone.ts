@@ -0,0 +1,64 @@
+/**
+ * IANA time zone helpers built on Intl, so a wall-clock time in a user's or subreddit's
+ * zone can be turned into an instant and back.
+ */
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The wall-clock date and time of an instant in a zone. `weekday` is 0 for Sunday.
+ */
+export function zonedParts(date: Date, timeZone: string): {
+  year: number; month: number; day: number; hour: number; minute: number; second: number; weekday: number;
+} {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    weekday: 'short'
+  }).formatToParts(date);
+  const get = (type: string) => parts.find(part => part.type === type)?.value || '';
+
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    hour: Number(get('hour')),
+    minute: Number(get('minute')),
+    second: Number(get('second')),
+    weekday: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(get('weekday'))
+  };
+}
+
+// How far the zone's wall clock is ahead of UTC at an instant, in milliseconds
+function zoneOffset(timestamp: number, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = zonedParts(new Date(timestamp), timeZone);
+  return Date.UTC(year, month - 1, day, hour, minute, second) - Math.floor(timestamp / 1000) * 1000;
+}
+
+/**
+ * Turn a wall-clock time like "2024-03-10T09:00" in a zone into the instant it names.
+ * Returns null for text that isn't a date and time.
+ */
+export function zonedTimeToUtc(local: string, timeZone: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/.exec(local);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second] = match.map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second || 0);
+  // The offset can change between the guess and the answer around DST switches, so check again
+  const guess = wallClock - zoneOffset(wallClock, timeZone);
+  return new Date(wallClock - zoneOffset(guess, timeZone));
+}
@@ -0,0 +1,106 @@
+import { PrismaClient } from '@prisma/client';
+import { RedditService } from './reddit';
+
+const prisma = new PrismaClient();
+
+// Refresh this long before Reddit's one-hour expiry so in-flight requests never carry a dead token
+const REFRESH_MARGIN = 5 * 60 * 1000;
+
+/**
+ * Thrown when Reddit rejects the stored refresh token (revoked app access,
+ * password change, etc.). The user has to go through the OAuth flow again.
+ */
+export class RedditReauthRequiredError extends Error {
+  constructor(public readonly redditId: string, reason?: string) {
+    super(`Reddit re-authentication required${reason ? `: ${reason}` : ''}`);
+    this.name = 'RedditReauthRequiredError';
+  }
+}
+
+export interface ActiveToken {
+  accessToken: string;
+  expiresAt: Date | null;
+}
+
+export class RedditTokenManager {
+  // One refresh per user at a time; concurrent callers share the same promise
+  private static inflightRefreshes = new Map<string, Promise<ActiveToken>>();
+
+  /**
+   * Get an access token that is valid for at least REFRESH_MARGIN, refreshing and persisting it if needed
+   */
+  static async getAccessToken(redditId: string): Promise<ActiveToken> {
+    const user = await prisma.user.findUnique({ where: { redditId } });
+    if (!user) throw new Error('User not found');
+
+    const expiresAt = user.tokenExpiresAt;
+    const isFresh = expiresAt && expiresAt.getTime() - Date.now() > REFRESH_MARGIN;
+
+    if (isFresh) {
+      return { accessToken: RedditService.decryptToken(user.accessToken), expiresAt };
+    }
+
+    if (!user.refreshToken) {
+      // Tokens saved before expiry tracking have no expiresAt; let Reddit decide if they still work
+      if (!expiresAt) {
+        return { accessToken: RedditService.decryptToken(user.accessToken), expiresAt: null };
+      }
+      throw new RedditReauthRequiredError(redditId, 'access token expired and no refresh token is stored');
+    }
+
+    return this.refresh(redditId, user.username, RedditService.decryptToken(user.refreshToken));
+  }
+
+  private static refresh(redditId: string, username: string, refreshToken: string): Promise<ActiveToken> {
+    const inflight = this.inflightRefreshes.get(redditId);
+    if (inflight) return inflight;
+
+    const refresh = this.requestRefresh(redditId, username, refreshToken)
+      .finally(() => this.inflightRefreshes.delete(redditId));
+
+    this.inflightRefreshes.set(redditId, refresh);
+    return refresh;
+  }
+
+  private static async requestRefresh(redditId: string, username: string, refreshToken: string): Promise<ActiveToken> {
+    const response = await fetch('https://www.reddit.com/api/v1/access_token', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${Buffer.from(`${process.env.REDDIT_CLIENT_ID}:${process.env.REDDIT_CLIENT_SECRET}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'User-Agent': 'RedditCopilot/1.0.0'
+      },
+      body: new URLSearchParams({
+        grant_type: 'refresh_token',
+        refresh_token: refreshToken
+      })
+    });
+
+    const data = await response.json().catch(() => ({})) as any;
+
+    // Reddit answers revoked or unknown refresh tokens with invalid_grant (sometimes as a 200)
+    if (data.error === 'invalid_grant') {
+      throw new RedditReauthRequiredError(redditId, data.error_description || data.error || `HTTP ${response.status}`);
+    }
+
+    if (!response.ok || !data.access_token) {
+      throw new Error(`Failed to refresh Reddit access token: ${data.error_description || data.error || response.status}`);
+    }
+
+    // Reddit usually keeps the same refresh token; only replace it if a new one was issued
+    await RedditService.saveUserTokens(
+      redditId,
+      username,
+      data.access_token,
+      data.refresh_token || refreshToken,
+      data.expires_in
+    );
+
+    console.log(`Refreshed Reddit access token for ${redditId}`);
+
+    return {
+      accessToken: data.access_token,
+      expiresAt: new Date(Date.now() + data.expires_in * 1000)
+    };
+  }
+}
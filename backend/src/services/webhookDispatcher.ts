@@ -0,0 +1,161 @@
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { RedditService } from './reddit';
+import { assertPublicUrl, BlockedUrlError } from './outboundUrl';
+
+const prisma = new PrismaClient();
+
+const RUN_INTERVAL = 30 * 1000;
+const REQUEST_TIMEOUT = 10 * 1000;
+// Wait before each retry; a delivery gives up after the last one fails
+const RETRY_DELAYS = [60 * 1000, 5 * 60 * 1000, 30 * 60 * 1000, 2 * 60 * 60 * 1000, 8 * 60 * 60 * 1000];
+// How long an attempt holds a delivery before another run may pick it up again
+const CLAIM_TTL = 2 * 60 * 1000;
+const DELIVERY_RETENTION = 30 * 24 * 60 * 60 * 1000;
+const BATCH_SIZE = 50;
+
+export const SIGNATURE_HEADER = 'X-Copilot-Signature';
+
+export interface SignedRequest {
+  deliveryId: string;
+  event: string;
+  payload: string;
+}
+
+/**
+ * Sends queued webhook deliveries, signing each request with the endpoint's secret,
+ * and retries failures with backoff until they succeed or run out of attempts.
+ */
+export class WebhookDispatcher {
+  private static timer: NodeJS.Timeout | null = null;
+  private static running = false;
+
+  static start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.runDue(), RUN_INTERVAL);
+    this.runDue();
+  }
+
+  static async runDue(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const due = await prisma.webhookDelivery.findMany({
+        where: { status: 'pending', nextAttemptAt: { lte: new Date() } },
+        orderBy: { nextAttemptAt: 'asc' },
+        select: { id: true },
+        take: BATCH_SIZE
+      });
+      await this.dispatch(due.map(delivery => delivery.id));
+
+      await prisma.webhookDelivery.deleteMany({
+        where: { createdAt: { lt: new Date(Date.now() - DELIVERY_RETENTION) } }
+      });
+    } catch (error) {
+      console.error('Webhook dispatch run failed:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Attempt the given deliveries now. Deliveries that aren't due or are being sent
+   * by another run are skipped.
+   */
+  static async dispatch(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      const now = new Date();
+      const { count } = await prisma.webhookDelivery.updateMany({
+        where: { id, status: 'pending', nextAttemptAt: { lte: now } },
+        data: { nextAttemptAt: new Date(now.getTime() + CLAIM_TTL) }
+      });
+      if (count === 0) continue;
+
+      await this.attempt(id);
+    }
+  }
+
+  /**
+   * HMAC-SHA256 over `<timestamp>.<body>`, hex encoded
+   */
+  static sign(secret: string, timestamp: number, body: string): string {
+    return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  }
+
+  /**
+   * POST a payload to an endpoint. The signature header is `t=<unix seconds>,v1=<hex>`;
+   * receivers recompute it with their secret and should reject stale timestamps.
+   * Resolves with the HTTP status, rejects on network errors, timeouts and URLs that resolve
+   * to internal addresses. Redirects aren't followed.
+   */
+  static async send(url: string, secret: string, request: SignedRequest, timeoutMs: number = REQUEST_TIMEOUT): Promise<number> {
+    await assertPublicUrl(url);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'RedditCopilot/1.0.0',
+        'X-Copilot-Event': request.event,
+        'X-Copilot-Delivery': request.deliveryId,
+        [SIGNATURE_HEADER]: `t=${timestamp},v1=${this.sign(secret, timestamp, request.payload)}`
+      },
+      body: request.payload,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(timeoutMs)
+    });
+    return response.status;
+  }
+
+  /**
+   * Delay before the next attempt after `attempts` failed ones, or null once they're used up
+   */
+  static retryDelay(attempts: number): number | null {
+    return attempts <= RETRY_DELAYS.length ? RETRY_DELAYS[attempts - 1] : null;
+  }
+
+  private static async attempt(id: string): Promise<void> {
+    const delivery = await prisma.webhookDelivery.findUnique({
+      where: { id },
+      include: { endpoint: true }
+    });
+    if (!delivery) return;
+
+    const attempts = delivery.attempts + 1;
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+    let retryable = true;
+
+    if (!delivery.endpoint.active) {
+      error = 'Endpoint is disabled';
+    } else {
+      try {
+        responseStatus = await this.send(
+          delivery.endpoint.url,
+          RedditService.decryptToken(delivery.endpoint.secret),
+          { deliveryId: delivery.id, event: delivery.event, payload: delivery.payload }
+        );
+        if (responseStatus < 200 || responseStatus >= 300) {
+          error = `Endpoint responded with ${responseStatus}`;
+        }
+      } catch (sendError) {
+        error = sendError instanceof Error ? sendError.message : String(sendError);
+        retryable = !(sendError instanceof BlockedUrlError);
+      }
+    }
+
+    const delay = error && delivery.endpoint.active && retryable ? this.retryDelay(attempts) : null;
+    await prisma.webhookDelivery.update({
+      where: { id },
+      data: {
+        attempts,
+        lastAttemptAt: new Date(),
+        responseStatus,
+        error,
+        status: !error ? 'succeeded' : delay !== null ? 'pending' : 'failed',
+        nextAttemptAt: delay !== null ? new Date(Date.now() + delay) : null
+      }
+    });
+  }
+}
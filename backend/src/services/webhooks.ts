@@ -0,0 +1,184 @@
+import crypto from 'crypto';
+import { PrismaClient, WebhookEndpoint as WebhookEndpointRow, WebhookDelivery } from '@prisma/client';
+import { RedditService } from './reddit';
+import { WebhookDispatcher } from './webhookDispatcher';
+
+const prisma = new PrismaClient();
+
+/**
+ * Every event a webhook endpoint can subscribe to, with a short description for the API
+ */
+export const WEBHOOK_EVENTS = {
+  'post.matched': 'A post newly matched one of your saved searches',
+  'comment.posted': 'A comment was posted through the home feed',
+  'research.completed': 'An intelligent research run finished'
+} as const;
+
+export type WebhookEvent = keyof typeof WEBHOOK_EVENTS;
+
+export interface WebhookEndpoint {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+  description: string;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WebhookEndpointInput {
+  url: string;
+  events: WebhookEvent[];
+  description?: string;
+  active?: boolean;
+}
+
+/**
+ * Per-user webhook endpoints and the log of events delivered to them. Deliveries are
+ * queued here and sent by the WebhookDispatcher.
+ */
+export class WebhookService {
+  static async listEndpoints(redditId: string): Promise<WebhookEndpoint[]> {
+    const rows = await prisma.webhookEndpoint.findMany({
+      where: { user: { redditId } },
+      orderBy: { createdAt: 'asc' }
+    });
+    return rows.map(row => this.toEndpoint(row));
+  }
+
+  /**
+   * Register an endpoint. The signing secret is only ever returned here and from rotateSecret.
+   */
+  static async createEndpoint(redditId: string, input: WebhookEndpointInput): Promise<{ endpoint: WebhookEndpoint; secret: string }> {
+    const user = await prisma.user.findUnique({ where: { redditId } });
+    if (!user) throw new Error('User not found');
+
+    const secret = this.generateSecret();
+    const row = await prisma.webhookEndpoint.create({
+      data: {
+        userId: user.id,
+        url: input.url,
+        secret: RedditService.encryptToken(secret),
+        events: JSON.stringify(input.events),
+        description: input.description ?? '',
+        active: input.active ?? true
+      }
+    });
+    return { endpoint: this.toEndpoint(row), secret };
+  }
+
+  static async updateEndpoint(redditId: string, id: string, input: Partial<WebhookEndpointInput>): Promise<WebhookEndpoint | null> {
+    const existing = await prisma.webhookEndpoint.findFirst({ where: { id, user: { redditId } } });
+    if (!existing) return null;
+
+    const row = await prisma.webhookEndpoint.update({
+      where: { id },
+      data: {
+        ...(input.url !== undefined && { url: input.url }),
+        ...(input.events !== undefined && { events: JSON.stringify(input.events) }),
+        ...(input.description !== undefined && { description: input.description }),
+        ...(input.active !== undefined && { active: input.active })
+      }
+    });
+    return this.toEndpoint(row);
+  }
+
+  static async rotateSecret(redditId: string, id: string): Promise<string | null> {
+    const existing = await prisma.webhookEndpoint.findFirst({ where: { id, user: { redditId } } });
+    if (!existing) return null;
+
+    const secret = this.generateSecret();
+    await prisma.webhookEndpoint.update({
+      where: { id },
+      data: { secret: RedditService.encryptToken(secret) }
+    });
+    return secret;
+  }
+
+  static async deleteEndpoint(redditId: string, id: string): Promise<boolean> {
+    const { count } = await prisma.webhookEndpoint.deleteMany({ where: { id, user: { redditId } } });
+    return count > 0;
+  }
+
+  /**
+   * Queue an event for every active endpoint of the user that subscribes to it and
+   * try to send it right away. Failed sends are retried by the dispatcher.
+   */
+  static async emit(redditId: string, event: WebhookEvent, data: object): Promise<void> {
+    const endpoints = (await prisma.webhookEndpoint.findMany({
+      where: { active: true, user: { redditId } }
+    })).filter(row => (JSON.parse(row.events) as string[]).includes(event));
+
+    if (endpoints.length === 0) return;
+
+    const payload = JSON.stringify({
+      id: `evt_${crypto.randomBytes(12).toString('hex')}`,
+      event,
+      createdAt: new Date().toISOString(),
+      data
+    });
+
+    const deliveries = await prisma.$transaction(endpoints.map(endpoint =>
+      prisma.webhookDelivery.create({
+        data: { endpointId: endpoint.id, event, payload, nextAttemptAt: new Date() }
+      })
+    ));
+
+    await WebhookDispatcher.dispatch(deliveries.map(delivery => delivery.id));
+  }
+
+  static async listDeliveries(
+    redditId: string,
+    options: { endpointId?: string; status?: string; limit: number }
+  ): Promise<WebhookDelivery[]> {
+    return prisma.webhookDelivery.findMany({
+      where: {
+        endpoint: { user: { redditId } },
+        ...(options.endpointId && { endpointId: options.endpointId }),
+        ...(options.status && { status: options.status })
+      },
+      orderBy: { createdAt: 'desc' },
+      take: options.limit
+    });
+  }
+
+  /**
+   * Send a logged delivery again as a new delivery with the same payload, so the
+   * receiver sees the same event id. Returns the new delivery after its first attempt.
+   */
+  static async replayDelivery(redditId: string, id: string): Promise<WebhookDelivery | null> {
+    const original = await prisma.webhookDelivery.findFirst({
+      where: { id, endpoint: { user: { redditId } } }
+    });
+    if (!original) return null;
+
+    const replay = await prisma.webhookDelivery.create({
+      data: {
+        endpointId: original.endpointId,
+        event: original.event,
+        payload: original.payload,
+        replayOfId: original.id,
+        nextAttemptAt: new Date()
+      }
+    });
+
+    await WebhookDispatcher.dispatch([replay.id]);
+    return prisma.webhookDelivery.findUnique({ where: { id: replay.id } });
+  }
+
+  private static generateSecret(): string {
+    return `whsec_${crypto.randomBytes(24).toString('base64url')}`;
+  }
+
+  private static toEndpoint(row: WebhookEndpointRow): WebhookEndpoint {
+    return {
+      id: row.id,
+      url: row.url,
+      events: JSON.parse(row.events),
+      description: row.description,
+      active: row.active,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt
+    };
+  }
+}
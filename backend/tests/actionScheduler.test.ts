@@ -0,0 +1,94 @@
+const scheduledAction = {
+  findMany: jest.fn(),
+  updateMany: jest.fn(),
+  findUniqueOrThrow: jest.fn(),
+  update: jest.fn()
+};
+
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn().mockImplementation(() => ({ scheduledAction }))
+}));
+
+import { ActionScheduler } from '../src/services/actionScheduler';
+import { ActionService } from '../src/services/actions';
+import { RedditActionValidationError } from '../src/services/reddit';
+import { RedditReauthRequiredError } from '../src/services/tokenManager';
+import { zonedTimeToUtc } from '../src/services/timezone';
+
+describe('ActionScheduler', () => {
+  describe('isRetryable', () => {
+    it('should retry errors raised before Reddit accepted anything', () => {
+      expect(ActionScheduler.isRetryable(new Error('Failed to execute action: RATELIMIT: you are doing that too much'))).toBe(true);
+      expect(ActionScheduler.isRetryable(new Error('connect ECONNREFUSED 151.101.1.140:443'))).toBe(true);
+      expect(ActionScheduler.isRetryable(new RedditReauthRequiredError('user_1'))).toBe(true);
+    });
+
+    it('should not retry errors that may have posted or never will', () => {
+      expect(ActionScheduler.isRetryable(new Error('Failed to execute action: socket hang up'))).toBe(false);
+      expect(ActionScheduler.isRetryable(new RedditActionValidationError(['r/SaaS requires post flair']))).toBe(false);
+    });
+  });
+
+  it('should give up after the last retry delay', () => {
+    expect(ActionScheduler.retryDelay(1)).toBe(60 * 1000);
+    expect(ActionScheduler.retryDelay(4)).toBe(60 * 60 * 1000);
+    expect(ActionScheduler.retryDelay(5)).toBeNull();
+  });
+
+  describe('runDue', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+      scheduledAction.findMany.mockResolvedValue([{ id: 'scheduled_1' }]);
+      scheduledAction.updateMany.mockResolvedValue({ count: 1 });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should fail an action that cannot be loaded instead of leaving it posting', async () => {
+      const execute = jest.spyOn(ActionService, 'execute');
+      scheduledAction.findUniqueOrThrow.mockResolvedValue({
+        id: 'scheduled_1',
+        action: '{"type":"comment",',
+        suggestion: null,
+        attempts: 1,
+        user: { redditId: 'user_1' }
+      });
+
+      await ActionScheduler.runDue();
+
+      expect(execute).not.toHaveBeenCalled();
+      expect(scheduledAction.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 'scheduled_1', status: 'posting' },
+        data: { status: 'failed', nextAttemptAt: null, error: expect.stringContaining('JSON') }
+      });
+    });
+
+    it('should fail an action whose row disappeared with the lookup error', async () => {
+      scheduledAction.findUniqueOrThrow.mockRejectedValue(new Error('No ScheduledAction found'));
+
+      await ActionScheduler.runDue();
+
+      expect(scheduledAction.updateMany).toHaveBeenLastCalledWith(expect.objectContaining({
+        data: { status: 'failed', nextAttemptAt: null, error: 'No ScheduledAction found' }
+      }));
+    });
+  });
+});
+
+describe('zonedTimeToUtc', () => {
+  it('should read a wall-clock time in the given zone', () => {
+    expect(zonedTimeToUtc('2024-01-15T09:00', 'America/New_York')).toEqual(new Date('2024-01-15T14:00:00Z'));
+    expect(zonedTimeToUtc('2024-07-15T09:00:30', 'Europe/Berlin')).toEqual(new Date('2024-07-15T07:00:30Z'));
+  });
+
+  it('should use the offset in effect after a DST switch', () => {
+    // US clocks moved forward at 2am on 2024-03-10
+    expect(zonedTimeToUtc('2024-03-10T09:00', 'America/New_York')).toEqual(new Date('2024-03-10T13:00:00Z'));
+  });
+
+  it('should reject text that is not a date and time', () => {
+    expect(zonedTimeToUtc('next tuesday', 'UTC')).toBeNull();
+  });
+});
@@ -0,0 +1,173 @@
+const created: any[] = [];
+const stored = new Map<string, any>();
+
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn().mockImplementation(() => ({
+    user: { findUnique: jest.fn(async () => ({ id: 'db_user_1' })) },
+    action: {
+      findFirst: jest.fn(async ({ where }) => stored.get(where.id) || null),
+      create: jest.fn(async ({ data }) => {
+        const row = { id: `row_${created.length + 1}`, ...blankRow, ...data };
+        created.push(row);
+        return row;
+      }),
+      update: jest.fn(async ({ where, data }) => Object.assign(stored.get(where.id), data))
+    }
+  }))
+}));
+
+// The real module is only read once it has finished loading; reddit.ts imports itself indirectly
+jest.mock('../src/services/reddit', () => ({
+  ...jest.requireActual('../src/services/reddit'),
+  RedditService: {
+    executeAction: jest.fn(),
+    parseParentId: (id: string) => jest.requireActual('../src/services/reddit').RedditService.parseParentId(id)
+  }
+}));
+
+import { ActionService } from '../src/services/actions';
+import { RedditService, RedditActionValidationError } from '../src/services/reddit';
+
+const blankRow = {
+  thingId: null,
+  targetId: null,
+  parentId: null,
+  title: '',
+  content: '',
+  originalContent: null,
+  url: '',
+  linkUrl: null,
+  crosspostOf: null,
+  error: null,
+  suggestion: null,
+  suggestionType: null,
+  userEdited: false,
+  visibility: null,
+  visibilityCheckedAt: null,
+  editedAt: null,
+  deletedAt: null,
+  createdAt: new Date('2024-01-15T10:30:00Z')
+};
+
+const executeAction = RedditService.executeAction as jest.Mock;
+
+const posted = (overrides: object = {}) => {
+  const row = {
+    ...blankRow,
+    id: 'action_1',
+    type: 'comment',
+    status: 'posted',
+    thingId: 't1_kx9z1a',
+    subreddit: 'SaaS',
+    parentId: 't3_abc123',
+    content: 'We had the same problem with churn',
+    url: 'https://reddit.com/r/SaaS/comments/abc123/_/kx9z1a/',
+    ...overrides
+  };
+  stored.set(row.id, row);
+  return row;
+};
+
+describe('ActionService edits and deletes', () => {
+  beforeEach(() => {
+    created.length = 0;
+    stored.clear();
+    executeAction.mockReset().mockResolvedValue({ success: true });
+  });
+
+  it('should log an edit as its own entry pointing at the original', async () => {
+    posted();
+
+    const action = await ActionService.editAction('user_1', 'action_1', 'We fixed churn by calling customers');
+
+    expect(action!.content).toBe('We fixed churn by calling customers');
+    expect(executeAction).toHaveBeenCalledWith('user_1', expect.objectContaining({ type: 'edit', thingId: 't1_kx9z1a' }));
+    expect(created).toEqual([expect.objectContaining({
+      type: 'edit',
+      status: 'posted',
+      targetId: 'action_1',
+      thingId: null,
+      content: 'We fixed churn by calling customers',
+      error: null
+    })]);
+  });
+
+  it('should keep the text as first posted across edits', async () => {
+    posted();
+
+    await ActionService.editAction('user_1', 'action_1', 'First rewrite');
+    const action = await ActionService.editAction('user_1', 'action_1', 'Second rewrite');
+
+    expect(action!.content).toBe('Second rewrite');
+    expect(action!.originalContent).toBe('We had the same problem with churn');
+    expect(created.map(row => row.content)).toEqual(['First rewrite', 'Second rewrite']);
+  });
+
+  it('should log a rejected edit without sending it', async () => {
+    posted({ type: 'link', thingId: 't3_def456', parentId: null, content: '' });
+
+    await expect(ActionService.editAction('user_1', 'action_1', 'New text')).rejects.toThrow(RedditActionValidationError);
+
+    expect(executeAction).not.toHaveBeenCalled();
+    expect(created).toEqual([expect.objectContaining({
+      type: 'edit',
+      status: 'failed',
+      targetId: 'action_1',
+      error: 'A link has no text to edit; delete it and submit again instead'
+    })]);
+  });
+
+  it('should log a delete that Reddit refused and rethrow', async () => {
+    posted();
+    executeAction.mockRejectedValue(new Error('Failed to execute action: 403 Forbidden'));
+
+    await expect(ActionService.deleteAction('user_1', 'action_1')).rejects.toThrow('403 Forbidden');
+
+    expect(stored.get('action_1').deletedAt).toBeNull();
+    expect(created).toEqual([expect.objectContaining({
+      type: 'delete',
+      status: 'failed',
+      targetId: 'action_1',
+      error: 'Failed to execute action: 403 Forbidden'
+    })]);
+  });
+
+  it('should not log deleting something already deleted', async () => {
+    posted({ deletedAt: new Date() });
+
+    await ActionService.deleteAction('user_1', 'action_1');
+
+    expect(executeAction).not.toHaveBeenCalled();
+    expect(created).toHaveLength(0);
+  });
+});
+
+describe('ActionService.recordAction', () => {
+  const submission = { id: 'action_1', title: 'We open-sourced our invoicing engine', targetSubreddit: 'SaaS' };
+
+  beforeEach(() => {
+    created.length = 0;
+  });
+
+  it('should record where a link post pointed', async () => {
+    const action = await ActionService.recordAction('user_1', {
+      ...submission,
+      type: 'link',
+      content: '',
+      url: 'https://github.com/example/invoicing'
+    }, { result: { success: true, actionId: 'action_1', redditId: 'def456', message: 'Posted' } });
+
+    expect(action).toMatchObject({ thingId: 't3_def456', linkUrl: 'https://github.com/example/invoicing', crosspostOf: null });
+  });
+
+  it('should record which post was crossposted, even when the attempt failed', async () => {
+    const action = await ActionService.recordAction('user_1', {
+      ...submission,
+      type: 'crosspost',
+      content: '',
+      crosspostOf: 'ABC123'
+    }, { error: 'r/SaaS only allows text posts' });
+
+    expect(action).toMatchObject({ status: 'failed', linkUrl: null, crosspostOf: 't3_abc123' });
+  });
+});
@@ -0,0 +1,80 @@
+import request from 'supertest';
+import express from 'express';
+import { authenticateUser, AuthenticatedRequest } from '../src/middleware/auth';
+import { SessionService } from '../src/services/session';
+
+// Mock the SessionService
+jest.mock('../src/services/session');
+const mockSessionService = SessionService as jest.Mocked<typeof SessionService>;
+
+const app = express();
+app.get('/protected', authenticateUser, (req: AuthenticatedRequest, res) => {
+  res.json({ user: req.user, sessionId: req.sessionId });
+});
+
+describe('authenticateUser middleware', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should attach the session user for a valid bearer token', async () => {
+    mockSessionService.verifySession.mockResolvedValueOnce({
+      sessionId: 'session_1',
+      redditId: 'test_user_123',
+      username: 'testuser'
+    });
+
+    const response = await request(app)
+      .get('/protected')
+      .set('Authorization', 'Bearer valid_token')
+      .expect(200);
+
+    expect(response.body).toEqual({
+      user: { redditId: 'test_user_123', username: 'testuser' },
+      sessionId: 'session_1'
+    });
+    expect(mockSessionService.verifySession).toHaveBeenCalledWith('valid_token');
+  });
+
+  it('should return 401 when the Authorization header is missing', async () => {
+    const response = await request(app)
+      .get('/protected')
+      .expect(401);
+
+    expect(response.body).toEqual({
+      error: 'Session token required in Authorization header'
+    });
+    expect(mockSessionService.verifySession).not.toHaveBeenCalled();
+  });
+
+  it('should no longer accept a bare x-reddit-id header', async () => {
+    await request(app)
+      .get('/protected')
+      .set('x-reddit-id', 'test_user_123')
+      .expect(401);
+
+    expect(mockSessionService.verifySession).not.toHaveBeenCalled();
+  });
+
+  it('should return 401 when the session is expired or revoked', async () => {
+    mockSessionService.verifySession.mockResolvedValueOnce(null);
+
+    const response = await request(app)
+      .get('/protected')
+      .set('Authorization', 'Bearer stale_token')
+      .expect(401);
+
+    expect(response.body).toEqual({ error: 'Session expired or revoked' });
+  });
+
+  it('should return 500 when session lookup fails', async () => {
+    mockSessionService.verifySession.mockRejectedValueOnce(new Error('Database unavailable'));
+
+    const response = await request(app)
+      .get('/protected')
+      .set('Authorization', 'Bearer valid_token')
+      .expect(500);
+
+    expect(response.body).toEqual({ error: 'Authentication failed' });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,94 @@
+import { CommentTree } from '../src/services/commentTree';
+
+const comment = (id: string, parentId: string, extra: Record<string, any> = {}) => ({
+  kind: 't1',
+  data: {
+    id,
+    parent_id: parentId,
+    author: `user_${id}`,
+    body: `Comment ${id}`,
+    score: 1,
+    created_utc: 1700000000,
+    permalink: `/r/SaaS/comments/abc123/_/${id}/`,
+    depth: 0,
+    ...extra
+  }
+});
+
+const more = (parentId: string, children: string[], count = children.length) => ({
+  kind: 'more',
+  data: { id: children[0] || '_', parent_id: parentId, count, children }
+});
+
+describe('CommentTree', () => {
+  describe('fromListing', () => {
+    it('should nest replies and keep their order', () => {
+      const { comments, more: topMore } = CommentTree.fromListing([
+        comment('c1', 't3_abc123', {
+          is_submitter: true,
+          replies: {
+            kind: 'Listing',
+            data: { children: [comment('c2', 't1_c1', { depth: 1 }), comment('c3', 't1_c1', { depth: 1 })] }
+          }
+        }),
+        comment('c4', 't3_abc123', { replies: '' })
+      ]);
+
+      expect(comments.map(c => c.id)).toEqual(['c1', 'c4']);
+      expect(comments[0].replies.map(c => c.id)).toEqual(['c2', 'c3']);
+      expect(comments[0].isSubmitter).toBe(true);
+      expect(comments[0].created).toEqual(new Date(1700000000 * 1000));
+      expect(comments[1].replies).toEqual([]);
+      expect(topMore).toBeNull();
+    });
+
+    it('should attach "more" placeholders to the comment they belong to', () => {
+      const { comments, more: topMore } = CommentTree.fromListing([
+        comment('c1', 't3_abc123', {
+          replies: { kind: 'Listing', data: { children: [comment('c2', 't1_c1'), more('t1_c1', ['c5', 'c6'])] } }
+        }),
+        more('t3_abc123', ['c7'], 12)
+      ]);
+
+      expect(comments[0].more).toEqual({ parentId: 't1_c1', count: 2, children: ['c5', 'c6'] });
+      expect(topMore).toEqual({ parentId: 't3_abc123', count: 12, children: ['c7'] });
+    });
+
+    it('should report threads that continue past the depth limit with no children', () => {
+      const { comments } = CommentTree.fromListing([
+        comment('c1', 't3_abc123', {
+          replies: { kind: 'Listing', data: { children: [more('t1_c1', [], 0)] } }
+        })
+      ]);
+
+      expect(comments[0].replies).toEqual([]);
+      expect(comments[0].more).toEqual({ parentId: 't1_c1', count: 0, children: [] });
+    });
+  });
+
+  describe('fromFlat', () => {
+    it('should rebuild the tree from a flat morechildren list', () => {
+      const { comments, more: topMore } = CommentTree.fromFlat([
+        comment('c5', 't1_c1'),
+        comment('c8', 't1_c5'),
+        more('t1_c8', ['c9']),
+        comment('c6', 't1_c1'),
+        more('t1_c1', ['c10', 'c11'])
+      ]);
+
+      expect(comments.map(c => c.id)).toEqual(['c5', 'c6']);
+      expect(comments[0].replies.map(c => c.id)).toEqual(['c8']);
+      expect(comments[0].replies[0].more).toEqual({ parentId: 't1_c8', count: 1, children: ['c9'] });
+      expect(topMore).toEqual({ parentId: 't1_c1', count: 2, children: ['c10', 'c11'] });
+    });
+
+    it('should merge placeholders that share a parent', () => {
+      const { more: topMore } = CommentTree.fromFlat([
+        more('t1_c1', ['c10']),
+        more('t1_c1', ['c11', 'c12'])
+      ]);
+
+      expect(topMore).toEqual({ parentId: 't1_c1', count: 3, children: ['c10', 'c11', 'c12'] });
+    });
+  });
+});
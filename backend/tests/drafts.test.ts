@@ -0,0 +1,58 @@
+import { DraftService } from '../src/services/drafts';
+import { diffWords } from '../src/services/textDiff';
+
+describe('DraftService', () => {
+  describe('foldsInto', () => {
+    const createdAt = new Date('2024-01-15T10:00:00Z');
+    const minutesLater = (minutes: number) => new Date(createdAt.getTime() + minutes * 60 * 1000);
+
+    it('should fold autosaves into the user revision being typed', () => {
+      expect(DraftService.foldsInto({ source: 'user', createdAt }, 'user', minutesLater(2))).toBe(true);
+    });
+
+    it('should start a new revision once the editing session is old', () => {
+      expect(DraftService.foldsInto({ source: 'user', createdAt }, 'user', minutesLater(6))).toBe(false);
+    });
+
+    it('should never overwrite AI-refined or suggested text', () => {
+      expect(DraftService.foldsInto({ source: 'ai_refined', createdAt }, 'user', minutesLater(1))).toBe(false);
+      expect(DraftService.foldsInto({ source: 'suggestion', createdAt }, 'user', minutesLater(1))).toBe(false);
+      expect(DraftService.foldsInto({ source: 'user', createdAt }, 'ai_refined', minutesLater(1))).toBe(false);
+    });
+
+    it('should add the first revision', () => {
+      expect(DraftService.foldsInto(undefined, 'user', minutesLater(1))).toBe(false);
+    });
+  });
+});
+
+describe('diffWords', () => {
+  const join = (parts: ReturnType<typeof diffWords>, skip: string) =>
+    parts.filter(part => part.type !== skip).map(part => part.text).join('');
+
+  it('should mark changed words', () => {
+    expect(diffWords('We use Stripe for billing', 'We use Paddle for all billing')).toEqual([
+      { type: 'same', text: 'We use ' },
+      { type: 'removed', text: 'Stripe' },
+      { type: 'added', text: 'Paddle' },
+      { type: 'same', text: ' for' },
+      { type: 'added', text: ' all' },
+      { type: 'same', text: ' billing' }
+    ]);
+  });
+
+  it('should give back both texts exactly', () => {
+    const before = 'Great question!\n\nWe tried three tools before settling.';
+    const after = 'Good question.\n\nWe tried  four tools before settling on one.';
+    const parts = diffWords(before, after);
+
+    expect(join(parts, 'added')).toBe(before);
+    expect(join(parts, 'removed')).toBe(after);
+  });
+
+  it('should handle empty texts', () => {
+    expect(diffWords('', 'New draft')).toEqual([{ type: 'added', text: 'New draft' }]);
+    expect(diffWords('Same', 'Same')).toEqual([{ type: 'same', text: 'Same' }]);
+    expect(diffWords('', '')).toEqual([]);
+  });
+});
@@ -0,0 +1,107 @@
+import { FeedQueryService, FeedQuerySyntaxError } from '../src/services/feedQuery';
+import { RedditPost } from '../src/services/reddit';
+
+const hour = 60 * 60 * 1000;
+
+const makePost = (overrides: Partial<RedditPost> = {}): RedditPost => ({
+  id: 'abc123',
+  title: 'Looking for a tool for invoicing',
+  content: 'We need something simple for a small team',
+  author: 'someone',
+  subreddit: 'SaaS',
+  score: 25,
+  commentCount: 12,
+  created: new Date(Date.now() - 5 * hour),
+  url: 'https://reddit.com/r/SaaS/abc123',
+  permalink: '/r/SaaS/comments/abc123/',
+  mediaType: 'text',
+  flair: 'Question',
+  isNSFW: false,
+  upvoteRatio: 0.9,
+  ...overrides
+});
+
+const matches = (query: string, post: RedditPost = makePost()) => FeedQueryService.compile(query)(post);
+
+const syntaxError = (query: string): FeedQuerySyntaxError => {
+  try {
+    FeedQueryService.compile(query);
+  } catch (error) {
+    if (error instanceof FeedQuerySyntaxError) return error;
+    throw error;
+  }
+  throw new Error(`Expected "${query}" to be rejected`);
+};
+
+describe('FeedQueryService', () => {
+  it('should evaluate the full example query', () => {
+    const query = 'subreddit:(saas OR startups) AND intent:TOOL_REQUESTS AND score>10 AND NOT flair:Meme AND age<2d';
+
+    expect(matches(query)).toBe(true);
+    expect(matches(query, makePost({ flair: 'Meme' }))).toBe(false);
+    expect(matches(query, makePost({ subreddit: 'webdev' }))).toBe(false);
+    expect(matches(query, makePost({ score: 3 }))).toBe(false);
+    expect(matches(query, makePost({ created: new Date(Date.now() - 72 * hour) }))).toBe(false);
+  });
+
+  it('should compare numeric fields', () => {
+    expect(matches('comments>=12')).toBe(true);
+    expect(matches('comments>12')).toBe(false);
+    expect(matches('ratio<0.95')).toBe(true);
+    expect(matches('score:25')).toBe(true);
+  });
+
+  it('should match string and boolean fields case-insensitively', () => {
+    expect(matches('subreddit:r/saas')).toBe(true);
+    expect(matches('type:TEXT')).toBe(true);
+    expect(matches('nsfw:false')).toBe(true);
+    expect(matches('nsfw:yes')).toBe(false);
+  });
+
+  it('should compare created dates', () => {
+    expect(matches('created>2020-01-01')).toBe(true);
+    expect(matches('created<2020-01-01')).toBe(false);
+  });
+
+  it('should match categories by subreddit', () => {
+    expect(matches('category:tech_development')).toBe(true);
+    expect(matches('category:INVESTMENT_FINANCE')).toBe(false);
+  });
+
+  it('should treat adjacent terms as AND and bind AND tighter than OR', () => {
+    expect(matches('invoicing team')).toBe(true);
+    expect(matches('invoicing payroll')).toBe(false);
+    expect(matches('payroll OR invoicing score>10')).toBe(true);
+    expect(matches('(payroll OR invoicing) score>100')).toBe(false);
+  });
+
+  it('should support negation with NOT and a leading dash', () => {
+    expect(matches('-flair:Meme')).toBe(true);
+    expect(matches('NOT "small team"')).toBe(false);
+    expect(matches('score>-5')).toBe(true);
+  });
+
+  it('should report unknown fields with their position', () => {
+    const error = syntaxError('score>10 AND colour:red');
+
+    expect(error.message).toMatch(/Unknown field "colour"/);
+    expect(error.position).toBe(13);
+    expect(error.toJSON()).toEqual({ message: error.message, position: 13, token: 'colour' });
+  });
+
+  it('should report malformed queries', () => {
+    expect(syntaxError('').message).toBe('Query is empty');
+    expect(syntaxError('(score>10').message).toBe('Missing closing parenthesis');
+    expect(syntaxError('score>10)').message).toBe('Unexpected ")"');
+    expect(syntaxError('score>').message).toBe('Expected a value after "score>"');
+    expect(syntaxError('"unterminated').position).toBe(0);
+    expect(syntaxError('score AND').message).toBe('Unexpected end of query');
+  });
+
+  it('should reject invalid values for known fields', () => {
+    expect(syntaxError('score>lots').message).toMatch(/score needs a number/);
+    expect(syntaxError('age<soon').message).toMatch(/age needs a duration/);
+    expect(syntaxError('intent:BUYING').message).toMatch(/Unknown intent "BUYING"/);
+    expect(syntaxError('flair>Meme').message).toMatch(/flair only supports ":"/);
+  });
+});
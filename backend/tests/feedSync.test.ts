@@ -0,0 +1,110 @@
+import { FeedSubscription } from '@prisma/client';
+import {
+  FeedSyncService,
+  SubscriptionWeight,
+  SUBREDDITS_PER_SYNC,
+  UNPINNED_SYNC_SLOTS,
+  BOOSTED_SYNC_FACTOR
+} from '../src/services/feedSync';
+import { RedditPost } from '../src/services/reddit';
+
+const MINUTE = 60 * 1000;
+
+// `waited` is minutes since the last sync; null means never synced
+const subscription = (subreddit: string, weight: SubscriptionWeight, waited: number | null): FeedSubscription => ({
+  id: `sub_${subreddit}`,
+  userId: 'user_1',
+  subreddit,
+  weight,
+  beforeCursor: null,
+  cursorAdvancedAt: null,
+  lastSyncedAt: waited === null ? null : new Date(Date.now() - waited * MINUTE),
+  createdAt: new Date('2024-01-01T00:00:00Z')
+} as FeedSubscription);
+
+const names = (subscriptions: FeedSubscription[]) => subscriptions.map(sub => sub.subreddit);
+
+describe('FeedSyncService.pickForSync', () => {
+  it('should sync at most SUBREDDITS_PER_SYNC subreddits, longest waiting first', () => {
+    const subscriptions = [5, 40, 10, 30, 20, 60, 50, 1].map(waited => subscription(`sub${waited}`, 'normal', waited));
+
+    expect(names(FeedSyncService.pickForSync(subscriptions)))
+      .toEqual(['sub60', 'sub50', 'sub40', 'sub30', 'sub20', 'sub10'].slice(0, SUBREDDITS_PER_SYNC));
+  });
+
+  it('should keep slots for unpinned subscriptions when more are pinned than fit', () => {
+    const pinned = Array.from({ length: SUBREDDITS_PER_SYNC + 2 }, (_, i) => subscription(`pinned${i}`, 'pinned', i + 1));
+    const unpinned = [subscription('normal1', 'normal', 5), subscription('normal2', 'normal', 15), subscription('normal3', 'normal', 10)];
+
+    const picked = FeedSyncService.pickForSync([...pinned, ...unpinned]);
+
+    expect(picked).toHaveLength(SUBREDDITS_PER_SYNC);
+    expect(picked.filter(sub => sub.weight === 'pinned')).toHaveLength(SUBREDDITS_PER_SYNC - UNPINNED_SYNC_SLOTS);
+    // The longest-waiting of each group get the slots
+    expect(names(picked.slice(-UNPINNED_SYNC_SLOTS))).toEqual(['normal2', 'normal3']);
+    expect(names(picked)[0]).toBe(`pinned${SUBREDDITS_PER_SYNC + 1}`);
+  });
+
+  it('should give unused unpinned slots to pinned subscriptions', () => {
+    const pinned = Array.from({ length: SUBREDDITS_PER_SYNC }, (_, i) => subscription(`pinned${i}`, 'pinned', i + 1));
+
+    const picked = FeedSyncService.pickForSync([...pinned, subscription('normal1', 'normal', 5)]);
+
+    expect(picked.filter(sub => sub.weight === 'pinned')).toHaveLength(SUBREDDITS_PER_SYNC - 1);
+    expect(names(picked)).toContain('normal1');
+  });
+
+  it('should sync never-synced subscriptions first', () => {
+    const subscriptions = [
+      ...[10, 20, 30, 40, 50, 60].map(waited => subscription(`old${waited}`, 'boosted', waited)),
+      subscription('new', 'normal', null)
+    ];
+
+    expect(names(FeedSyncService.pickForSync(subscriptions))[0]).toBe('new');
+  });
+
+  it('should treat a boosted subscription as BOOSTED_SYNC_FACTOR times as overdue', () => {
+    const fillers = Array.from({ length: SUBREDDITS_PER_SYNC - 1 }, (_, i) => subscription(`filler${i}`, 'normal', 1000 + i));
+    const normal = subscription('normal', 'normal', 30);
+    const boosted = (waited: number) => subscription('boosted', 'boosted', waited);
+
+    // Just past a third of the normal one's wait is enough...
+    expect(names(FeedSyncService.pickForSync([...fillers, normal, boosted(30 / BOOSTED_SYNC_FACTOR + 1)]))).toContain('boosted');
+    // ...and just short of it isn't
+    expect(names(FeedSyncService.pickForSync([...fillers, normal, boosted(30 / BOOSTED_SYNC_FACTOR - 1)]))).toContain('normal');
+  });
+
+  it('should never sync muted subscriptions', () => {
+    const picked = FeedSyncService.pickForSync([
+      subscription('muted', 'muted', null),
+      subscription('normal', 'normal', 5)
+    ]);
+
+    expect(names(picked)).toEqual(['normal']);
+  });
+});
+
+describe('FeedSyncService.orderByWeight', () => {
+  const post = (id: string, subreddit: string, relevanceScore: number) =>
+    ({ id, subreddit, relevanceScore } as RedditPost & { relevanceScore: number });
+
+  it('should rank posts by relevance plus their subreddit weight', () => {
+    const weights = new Map<string, SubscriptionWeight>([['SaaS', 'pinned'], ['startups', 'boosted'], ['webdev', 'normal']]);
+    const posts = [post('p1', 'webdev', 12), post('p2', 'startups', 8), post('p3', 'SaaS', 4), post('p4', 'SaaS', 1)];
+
+    expect(FeedSyncService.orderByWeight(posts, weights).map(p => p.id)).toEqual(['p3', 'p2', 'p1', 'p4']);
+  });
+
+  it('should treat subreddits without a subscription as normal', () => {
+    const posts = [post('p1', 'unknown', 4), post('p2', 'webdev', 6)];
+
+    expect(FeedSyncService.orderByWeight(posts, new Map()).map(p => p.id)).toEqual(['p2', 'p1']);
+  });
+
+  it('should leave the input untouched', () => {
+    const posts = [post('p1', 'webdev', 1), post('p2', 'webdev', 2)];
+
+    FeedSyncService.orderByWeight(posts, new Map());
+    expect(posts.map(p => p.id)).toEqual(['p1', 'p2']);
+  });
+});
@@ -0,0 +1,159 @@
+import http from 'http';
+import net from 'net';
+import { AddressInfo } from 'net';
+import { WebhookNotifier, SmtpNotifier, AlertNotification } from '../src/services/notifiers';
+import { BlockedUrlError } from '../src/services/outboundUrl';
+
+const notification: AlertNotification = {
+  searchName: 'Tool requests',
+  username: 'testuser',
+  alerts: [{
+    postId: 'abc123',
+    title: 'Looking for a tool for invoicing',
+    subreddit: 'SaaS',
+    url: 'https://reddit.com/r/SaaS/comments/abc123/',
+    relevanceScore: 21
+  }]
+};
+
+const listen = (server: http.Server | net.Server): Promise<number> =>
+  new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port)));
+
+const close = (server: http.Server | net.Server): Promise<void> =>
+  new Promise(resolve => server.close(() => resolve()));
+
+describe('WebhookNotifier', () => {
+  let server: http.Server;
+  let port: number;
+  let received: { body: any; contentType?: string } | null;
+  let status: number;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received = { body: JSON.parse(body), contentType: req.headers['content-type'] };
+        res.writeHead(status).end();
+      });
+    });
+    port = await listen(server);
+  });
+
+  afterAll(() => close(server));
+
+  beforeEach(() => {
+    received = null;
+    status = 200;
+    process.env.OUTBOUND_ALLOWED_HOSTS = '127.0.0.1';
+  });
+
+  afterEach(() => {
+    delete process.env.OUTBOUND_ALLOWED_HOSTS;
+  });
+
+  it('should POST the notification as JSON', async () => {
+    await new WebhookNotifier().send(`http://127.0.0.1:${port}/hook`, notification);
+
+    expect(received!.contentType).toBe('application/json');
+    expect(received!.body).toEqual({ event: 'saved_search.matched', ...notification });
+  });
+
+  it('should throw when the endpoint rejects the delivery', async () => {
+    status = 500;
+
+    await expect(new WebhookNotifier().send(`http://127.0.0.1:${port}/hook`, notification))
+      .rejects.toThrow('Webhook responded with 500');
+  });
+
+  it('should refuse internal addresses that are not allowed', async () => {
+    delete process.env.OUTBOUND_ALLOWED_HOSTS;
+
+    await expect(new WebhookNotifier().send(`http://127.0.0.1:${port}/hook`, notification))
+      .rejects.toBeInstanceOf(BlockedUrlError);
+    expect(received).toBeNull();
+  });
+
+  it('should not follow redirects', async () => {
+    status = 302;
+
+    await expect(new WebhookNotifier().send(`http://127.0.0.1:${port}/hook`, notification))
+      .rejects.toThrow('Webhook responded with 302');
+  });
+});
+
+describe('SmtpNotifier', () => {
+  let server: net.Server;
+  let port: number;
+  let messages: Array<{ from: string; to: string[]; data: string }>;
+
+  // Just enough SMTP to accept a message without TLS or auth
+  beforeAll(async () => {
+    server = net.createServer(socket => {
+      let buffer = '';
+      let inData = false;
+      let message = { from: '', to: [] as string[], data: '' };
+
+      socket.write('220 localhost ESMTP stand-in\r\n');
+      socket.on('data', chunk => {
+        buffer += chunk.toString();
+        let index;
+        while ((index = buffer.indexOf('\r\n')) !== -1) {
+          const line = buffer.slice(0, index);
+          buffer = buffer.slice(index + 2);
+
+          if (inData) {
+            if (line === '.') {
+              inData = false;
+              messages.push(message);
+              message = { from: '', to: [], data: '' };
+              socket.write('250 OK queued\r\n');
+            } else {
+              message.data += line + '\n';
+            }
+            continue;
+          }
+
+          const command = line.slice(0, 4).toUpperCase();
+          if (command === 'EHLO' || command === 'HELO') socket.write('250 localhost\r\n');
+          else if (command === 'MAIL') { message.from = line; socket.write('250 OK\r\n'); }
+          else if (command === 'RCPT') { message.to.push(line); socket.write('250 OK\r\n'); }
+          else if (command === 'DATA') { inData = true; socket.write('354 End data with <CR><LF>.<CR><LF>\r\n'); }
+          else if (command === 'QUIT') { socket.write('221 Bye\r\n'); socket.end(); }
+          else socket.write('250 OK\r\n');
+        }
+      });
+    });
+    port = await listen(server);
+  });
+
+  afterAll(() => close(server));
+
+  beforeEach(() => {
+    messages = [];
+  });
+
+  it('should send an email listing the new posts', async () => {
+    const notifier = new SmtpNotifier({
+      host: '127.0.0.1',
+      port,
+      secure: false,
+      from: 'Reddit Copilot <alerts@example.com>'
+    });
+
+    await notifier.send('me@example.com', notification);
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0].from).toContain('alerts@example.com');
+    expect(messages[0].to[0]).toContain('me@example.com');
+    // Nodemailer encodes the quotes in the subject line
+    expect(messages[0].data).toMatch(/^Subject: .*1_new_post_for_=22Tool_requests=22/m);
+    expect(messages[0].data).toContain('New posts matched your saved search "Tool requests"');
+    expect(messages[0].data).toContain('[r/SaaS] Looking for a tool for invoicing');
+  });
+
+  it('should not be configured without SMTP_HOST', () => {
+    delete process.env.SMTP_HOST;
+    expect(SmtpNotifier.fromEnv()).toBeNull();
+  });
+});
@@ -0,0 +1,86 @@
+import crypto from 'crypto';
+
+// In-memory stand-in for the oauth_states table
+const rows = new Map<string, { state: string; verifierHash: string; expiresAt: Date; usedAt: Date | null }>();
+
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn().mockImplementation(() => ({
+    oAuthState: {
+      findUnique: jest.fn(async ({ where }) => (rows.has(where.state) ? { ...rows.get(where.state)! } : null)),
+      updateMany: jest.fn(async ({ where, data }) => {
+        const row = rows.get(where.state);
+        if (!row || row.usedAt !== where.usedAt) return { count: 0 };
+        Object.assign(row, data);
+        return { count: 1 };
+      })
+    }
+  }))
+}));
+
+import { OAuthStateService } from '../src/services/oauthState';
+
+const hash = (verifier: string) => crypto.createHash('sha256').update(verifier).digest('hex');
+const issue = (state: string, verifier: string, overrides: { expiresAt?: Date; usedAt?: Date | null } = {}) => {
+  rows.set(state, {
+    state,
+    verifierHash: hash(verifier),
+    expiresAt: new Date(Date.now() + 60 * 1000),
+    usedAt: null,
+    ...overrides
+  });
+};
+
+describe('OAuthStateService.consumeState', () => {
+  beforeEach(() => {
+    rows.clear();
+  });
+
+  it('should accept a fresh state from the browser that started the flow, once', async () => {
+    issue('state_1', 'verifier_1');
+
+    await expect(OAuthStateService.consumeState('state_1', 'verifier_1')).resolves.toBe('valid');
+    expect(rows.get('state_1')!.usedAt).toBeInstanceOf(Date);
+  });
+
+  it('should report a missing state', async () => {
+    await expect(OAuthStateService.consumeState(undefined, 'verifier_1')).resolves.toBe('missing');
+    await expect(OAuthStateService.consumeState('', 'verifier_1')).resolves.toBe('missing');
+  });
+
+  it('should report a state that was never issued', async () => {
+    await expect(OAuthStateService.consumeState('forged', 'verifier_1')).resolves.toBe('unknown');
+  });
+
+  it('should report an expired state', async () => {
+    issue('state_1', 'verifier_1', { expiresAt: new Date(Date.now() - 1000) });
+
+    await expect(OAuthStateService.consumeState('state_1', 'verifier_1')).resolves.toBe('expired');
+  });
+
+  it('should report a state that was already used', async () => {
+    issue('state_1', 'verifier_1');
+
+    await OAuthStateService.consumeState('state_1', 'verifier_1');
+    await expect(OAuthStateService.consumeState('state_1', 'verifier_1')).resolves.toBe('reused');
+  });
+
+  it('should reject a callback from another browser', async () => {
+    issue('state_1', 'verifier_1');
+
+    await expect(OAuthStateService.consumeState('state_1', 'someone_else')).resolves.toBe('browser_mismatch');
+    await expect(OAuthStateService.consumeState('state_1', undefined)).resolves.toBe('browser_mismatch');
+    // A mismatched attempt doesn't burn the state for the real browser
+    await expect(OAuthStateService.consumeState('state_1', 'verifier_1')).resolves.toBe('valid');
+  });
+
+  it('should let only one of two concurrent callbacks claim a state', async () => {
+    issue('state_1', 'verifier_1');
+
+    const results = await Promise.all([
+      OAuthStateService.consumeState('state_1', 'verifier_1'),
+      OAuthStateService.consumeState('state_1', 'verifier_1')
+    ]);
+
+    expect(results.sort()).toEqual(['reused', 'valid']);
+  });
+});
@@ -0,0 +1,47 @@
+import { assertPublicUrl, isPrivateAddress, BlockedUrlError } from '../src/services/outboundUrl';
+
+describe('isPrivateAddress', () => {
+  it('should flag loopback, private and link-local addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.5', '192.168.1.1', '169.254.169.254', '0.0.0.0', '100.64.0.1']) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+    for (const address of ['::1', '::', 'fd12:3456::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:10.0.0.1']) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+  });
+
+  it('should pass public addresses', () => {
+    for (const address of ['93.184.216.34', '172.32.0.1', '8.8.8.8', '2606:4700::1111', '::ffff:8.8.8.8']) {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  });
+});
+
+describe('assertPublicUrl', () => {
+  afterEach(() => {
+    delete process.env.OUTBOUND_ALLOWED_HOSTS;
+  });
+
+  it('should refuse URLs pointing at internal addresses', async () => {
+    await expect(assertPublicUrl('http://127.0.0.1:3001/api')).rejects.toBeInstanceOf(BlockedUrlError);
+    await expect(assertPublicUrl('http://169.254.169.254/latest/meta-data/')).rejects.toBeInstanceOf(BlockedUrlError);
+    await expect(assertPublicUrl('http://[::1]/hook')).rejects.toBeInstanceOf(BlockedUrlError);
+    await expect(assertPublicUrl('http://localhost/hook')).rejects.toBeInstanceOf(BlockedUrlError);
+  });
+
+  it('should refuse other protocols', async () => {
+    await expect(assertPublicUrl('file:///etc/passwd')).rejects.toThrow('only http(s) URLs');
+  });
+
+  it('should pass public addresses', async () => {
+    await expect(assertPublicUrl('https://93.184.216.34/hook')).resolves.toBeUndefined();
+  });
+
+  it('should let allowed hosts through', async () => {
+    process.env.OUTBOUND_ALLOWED_HOSTS = 'localhost, 127.0.0.1';
+
+    await expect(assertPublicUrl('http://localhost:4000/hook')).resolves.toBeUndefined();
+    await expect(assertPublicUrl('http://127.0.0.1:4000/hook')).resolves.toBeUndefined();
+    await expect(assertPublicUrl('http://10.0.0.1/hook')).rejects.toBeInstanceOf(BlockedUrlError);
+  });
+});
@@ -0,0 +1,41 @@
+import { PerformanceService } from '../src/services/performance';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('PerformanceService', () => {
+  describe('dueCheckpoint', () => {
+    const createdAt = new Date('2024-01-15T10:00:00Z');
+    const at = (hours: number) => new Date(createdAt.getTime() + hours * HOUR);
+
+    it('should wait for the first checkpoint', () => {
+      expect(PerformanceService.dueCheckpoint(createdAt, [], at(0.5))).toBeNull();
+      expect(PerformanceService.dueCheckpoint(createdAt, [], at(1))).toBe('1h');
+    });
+
+    it('should not take a checkpoint twice', () => {
+      expect(PerformanceService.dueCheckpoint(createdAt, ['1h'], at(3))).toBeNull();
+      expect(PerformanceService.dueCheckpoint(createdAt, ['1h'], at(6))).toBe('6h');
+    });
+
+    it('should skip checkpoints missed while the tracker was down', () => {
+      expect(PerformanceService.dueCheckpoint(createdAt, ['1h'], at(30))).toBe('24h');
+      expect(PerformanceService.dueCheckpoint(createdAt, ['1h', '24h'], at(200))).toBe('7d');
+      expect(PerformanceService.dueCheckpoint(createdAt, ['7d'], at(200))).toBeNull();
+    });
+  });
+
+  describe('removalStatus', () => {
+    it('should treat visible content as up', () => {
+      expect(PerformanceService.removalStatus({ body: 'Great point!', author: 'me' })).toBeNull();
+      expect(PerformanceService.removalStatus({ selftext: '', author: 'me', removed_by_category: null })).toBeNull();
+    });
+
+    it('should tell moderator removals from deletions', () => {
+      expect(PerformanceService.removalStatus({ removed_by_category: 'moderator' })).toBe('removed');
+      expect(PerformanceService.removalStatus({ removed_by_category: 'automod_filtered' })).toBe('removed');
+      expect(PerformanceService.removalStatus({ body: '[removed]', author: 'me' })).toBe('removed');
+      expect(PerformanceService.removalStatus({ removed_by_category: 'deleted' })).toBe('deleted');
+      expect(PerformanceService.removalStatus({ body: '[deleted]', author: '[deleted]' })).toBe('deleted');
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { PostTimingService, TimingSample } from '../src/services/postTiming';
+
+const now = new Date('2024-01-22T00:00:00Z');
+const post = (id: string, created: string, score: number, commentCount: number): TimingSample => ({
+  id, created: new Date(created), score, commentCount
+});
+
+// One post an hour for the week before `now`, with the given engagement by UTC hour
+const week = (engagement: (hour: number) => [number, number]) => {
+  const posts: TimingSample[] = [];
+  for (let day = 15; day <= 21; day++) {
+    for (let hour = 0; hour < 24; hour++) {
+      const [score, comments] = engagement(hour);
+      posts.push(post(`p${day}_${hour}`, `2024-01-${day}T${String(hour).padStart(2, '0')}:00:00Z`, score, comments));
+    }
+  }
+  return posts;
+};
+
+describe('PostTimingService', () => {
+  describe('analyze', () => {
+    it('should bucket posts by weekday and hour in UTC and the user\'s zone', () => {
+      const timing = PostTimingService.analyze([
+        post('a', '2024-01-15T14:30:00Z', 10, 2),
+        post('b', '2024-01-15T02:00:00Z', 10, 2)
+      ], [], 'America/New_York', now);
+
+      expect(timing.utc.byHour[14].posts).toBe(1);
+      expect(timing.utc.byWeekday[1].posts).toBe(2);
+      expect(timing.local.byHour[9].posts).toBe(1);
+      // 02:00 on Monday in UTC is still Sunday evening in New York
+      expect(timing.local.byHour[21].posts).toBe(1);
+      expect(timing.local.byWeekday[0].posts).toBe(1);
+    });
+
+    it('should recommend the hours where posts do best', () => {
+      const timing = PostTimingService.analyze(
+        week(hour => (hour >= 14 && hour < 17 ? [200, 60] : [10, 5])),
+        [],
+        'UTC',
+        now
+      );
+
+      expect(timing.windows[0]).toMatchObject({ startHour: 14, endHour: 17 });
+      expect(timing.windows[0].scoreIndex).toBeGreaterThan(1);
+      for (const window of timing.windows.slice(1)) {
+        expect(Math.abs(window.startHour - 14)).toBeGreaterThanOrEqual(3);
+      }
+    });
+
+    it('should weigh engagement against how many posts go up', () => {
+      const posts = week(hour => (hour === 9 || hour === 20 ? [200, 60] : [10, 5]));
+      // Twice as many posts compete at 09:00
+      const crowded = posts.filter(p => p.created.getUTCHours() === 9).map(p => ({ ...p, id: `${p.id}_again` }));
+      const timing = PostTimingService.analyze([...posts, ...crowded], [], 'UTC', now);
+
+      expect(timing.utc.byHour[9].volumeIndex).toBeGreaterThan(timing.utc.byHour[20].volumeIndex);
+      expect(timing.utc.byHour[20].opportunity).toBeGreaterThan(timing.utc.byHour[9].opportunity);
+    });
+
+    it('should count top posts toward engagement but not volume', () => {
+      const timing = PostTimingService.analyze(
+        [post('a', '2024-01-20T10:00:00Z', 10, 2)],
+        [post('a', '2024-01-20T10:00:00Z', 10, 2), post('b', '2024-01-18T10:00:00Z', 900, 300)],
+        'UTC',
+        now
+      );
+
+      expect(timing.sampleSize).toBe(2);
+      expect(timing.utc.byHour[10]).toMatchObject({ posts: 1, sampled: 2 });
+    });
+
+    it('should leave posts too young to have settled out of engagement', () => {
+      const timing = PostTimingService.analyze(
+        [post('a', '2024-01-21T23:00:00Z', 1, 0)],
+        [],
+        'UTC',
+        now
+      );
+
+      expect(timing.utc.byHour[23]).toMatchObject({ posts: 1, sampled: 0, scoreIndex: 1 });
+      expect(timing.windows).toEqual([]);
+    });
+  });
+});
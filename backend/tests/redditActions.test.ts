@@ -0,0 +1,259 @@
+import { RedditService, RedditAction, RedditActionValidationError } from '../src/services/reddit';
+import { RedditClientPool } from '../src/services/redditClientPool';
+
+jest.mock('../src/services/redditClientPool');
+const mockPool = RedditClientPool as jest.Mocked<typeof RedditClientPool>;
+
+describe('RedditService comment actions', () => {
+  const reply = jest.fn();
+  const client = {
+    getSubmission: jest.fn(() => ({ reply })),
+    getComment: jest.fn(() => ({ reply }))
+  };
+
+  const comment = (parentId?: string) => ({
+    id: 'action_1',
+    type: 'comment' as const,
+    title: '',
+    content: 'Great point!',
+    targetSubreddit: '',
+    parentId
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPool.acquire.mockResolvedValue(client as any);
+    reply.mockResolvedValue({ id: 'newcomment', permalink: '/r/SaaS/comments/abc123/_/newcomment/' });
+  });
+
+  it('should reply to a post for a t3_ fullname', async () => {
+    const result = await RedditService.executeAction('user_1', comment('t3_abc123'));
+
+    expect(client.getSubmission).toHaveBeenCalledWith('abc123');
+    expect(client.getComment).not.toHaveBeenCalled();
+    expect(reply).toHaveBeenCalledWith('Great point!');
+    expect(result).toMatchObject({
+      success: true,
+      redditId: 'newcomment',
+      url: 'https://reddit.com/r/SaaS/comments/abc123/_/newcomment/'
+    });
+  });
+
+  it('should reply to a comment for a t1_ fullname', async () => {
+    await RedditService.executeAction('user_1', comment('t1_kx9z1a'));
+
+    expect(client.getComment).toHaveBeenCalledWith('kx9z1a');
+    expect(client.getSubmission).not.toHaveBeenCalled();
+  });
+
+  it('should treat a bare ID as a post', async () => {
+    await RedditService.executeAction('user_1', comment('abc123'));
+
+    expect(client.getSubmission).toHaveBeenCalledWith('abc123');
+  });
+
+  it('should reject a parent that is neither a post nor a comment', async () => {
+    await expect(RedditService.executeAction('user_1', comment('t2_someuser')))
+      .rejects.toThrow('parentId must be a post (t3_) or comment (t1_) fullname');
+    await expect(RedditService.executeAction('user_1', comment()))
+      .rejects.toThrow('parentId must be a post (t3_) or comment (t1_) fullname');
+    expect(reply).not.toHaveBeenCalled();
+  });
+});
+
+describe('RedditService edit and delete actions', () => {
+  const thing = { edit: jest.fn(), delete: jest.fn() };
+  const client = {
+    getSubmission: jest.fn(() => thing),
+    getComment: jest.fn(() => thing)
+  };
+
+  const change = (type: 'edit' | 'delete', thingId: string, content = ''): RedditAction => ({
+    id: 'action_1',
+    type,
+    title: '',
+    content,
+    targetSubreddit: 'SaaS',
+    thingId
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPool.acquire.mockResolvedValue(client as any);
+  });
+
+  it('should edit a comment by its t1_ fullname', async () => {
+    const result = await RedditService.executeAction('user_1', change('edit', 't1_kx9z1a', 'Fixed the typo'));
+
+    expect(client.getComment).toHaveBeenCalledWith('kx9z1a');
+    expect(thing.edit).toHaveBeenCalledWith('Fixed the typo');
+    expect(result).toMatchObject({ success: true, redditId: 'kx9z1a' });
+  });
+
+  it('should delete a post by its t3_ fullname', async () => {
+    await RedditService.executeAction('user_1', change('delete', 't3_abc123'));
+
+    expect(client.getSubmission).toHaveBeenCalledWith('abc123');
+    expect(thing.delete).toHaveBeenCalled();
+  });
+
+  it('should require a fullname and, for edits, new text', async () => {
+    await expect(RedditService.validateAction('user_1', change('edit', 'abc123', '  ')))
+      .resolves.toEqual(['content is required', 'thingId must be a post (t3_) or comment (t1_) fullname']);
+    await expect(RedditService.executeAction('user_1', change('delete', 't2_someuser')))
+      .rejects.toThrow(RedditActionValidationError);
+    expect(thing.delete).not.toHaveBeenCalled();
+  });
+});
+
+describe('RedditService submission actions', () => {
+  let submissionType: string;
+  let flairRequired: boolean;
+  const submission = { id: 'newpost', permalink: '/r/SaaS/comments/newpost/title/', fetch: jest.fn() };
+  const subreddit = {
+    fetch: jest.fn(),
+    getRules: jest.fn().mockResolvedValue([]),
+    getLinkFlairTemplates: jest.fn().mockResolvedValue([]),
+    submitSelfpost: jest.fn().mockResolvedValue(submission),
+    submitLink: jest.fn().mockResolvedValue(submission),
+    submitCrosspost: jest.fn().mockResolvedValue(submission)
+  };
+  const client = { getSubreddit: jest.fn(() => subreddit) };
+
+  const submit = (extra: Partial<RedditAction>): RedditAction => ({
+    id: 'action_1',
+    type: 'post',
+    title: 'Launching our invoicing tool',
+    content: '',
+    targetSubreddit: 'SaaS',
+    ...extra
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    submissionType = 'any';
+    flairRequired = false;
+    mockPool.acquire.mockResolvedValue(client as any);
+    subreddit.fetch.mockImplementation(async () => ({ ...subreddit, submission_type: submissionType }));
+    subreddit.getLinkFlairTemplates.mockResolvedValue([]);
+    global.fetch = jest.fn(async () => ({
+      ok: true,
+      status: 200,
+      headers: new Headers(),
+      json: async () => ({ is_flair_required: flairRequired })
+    })) as any;
+  });
+
+  it('should submit a text post with its flags', async () => {
+    const result = await RedditService.executeAction('user_1', submit({ content: 'Details inside', spoiler: true, sendReplies: false }));
+
+    expect(subreddit.submitSelfpost).toHaveBeenCalledWith({
+      title: 'Launching our invoicing tool',
+      text: 'Details inside',
+      sendReplies: false,
+      nsfw: false,
+      spoiler: true,
+      flairId: undefined,
+      flairText: undefined
+    });
+    expect(result).toMatchObject({ success: true, redditId: 'newpost' });
+  });
+
+  it('should submit a link post', async () => {
+    await RedditService.executeAction('user_1', submit({ type: 'link', url: 'https://example.com/launch', nsfw: true }));
+
+    expect(subreddit.submitLink).toHaveBeenCalledWith({
+      title: 'Launching our invoicing tool',
+      url: 'https://example.com/launch',
+      sendReplies: true,
+      nsfw: true,
+      spoiler: false,
+      flairId: undefined,
+      flairText: undefined
+    });
+  });
+
+  it('should crosspost an existing submission', async () => {
+    await RedditService.executeAction('user_1', submit({ type: 'crosspost', crosspostOf: 'abc123' }));
+
+    expect(subreddit.submitCrosspost).toHaveBeenCalledWith(expect.objectContaining({ originalPost: 't3_abc123' }));
+  });
+
+  it('should reject a link post aimed at a self-only subreddit before submitting', async () => {
+    submissionType = 'self';
+
+    await expect(RedditService.executeAction('user_1', submit({ type: 'link', url: 'https://example.com/launch' })))
+      .rejects.toThrow(RedditActionValidationError);
+    await expect(RedditService.validateAction('user_1', submit({ type: 'crosspost', crosspostOf: 'abc123' })))
+      .resolves.toEqual(['r/SaaS only allows text posts']);
+    expect(subreddit.submitLink).not.toHaveBeenCalled();
+  });
+
+  it('should reject a text post aimed at a link-only subreddit', async () => {
+    submissionType = 'link';
+
+    await expect(RedditService.validateAction('user_1', submit({ content: 'Details inside' })))
+      .resolves.toEqual(['r/SaaS only allows link posts']);
+  });
+
+  describe('flair', () => {
+    const templates = [
+      { flair_template_id: 'flair_launch', flair_text: 'Launch', flair_text_editable: false, flair_mod_only: false },
+      { flair_template_id: 'flair_custom', flair_text: 'Other', flair_text_editable: true, flair_mod_only: false },
+      { flair_template_id: 'flair_official', flair_text: 'Official', flair_text_editable: false, flair_mod_only: true }
+    ];
+
+    beforeEach(() => {
+      subreddit.getLinkFlairTemplates.mockResolvedValue(templates);
+    });
+
+    it('should submit with the chosen flair template', async () => {
+      await RedditService.executeAction('user_1', submit({ flairId: 'flair_custom', flairText: 'Feedback wanted' }));
+
+      expect(subreddit.submitSelfpost).toHaveBeenCalledWith(expect.objectContaining({
+        flairId: 'flair_custom',
+        flairText: 'Feedback wanted'
+      }));
+    });
+
+    it('should reject a post without flair when the subreddit requires it', async () => {
+      flairRequired = true;
+
+      await expect(RedditService.validateAction('user_1', submit({})))
+        .resolves.toEqual(['r/SaaS requires post flair. Choose one of: Launch, Other']);
+    });
+
+    it('should not require flair just because templates exist', async () => {
+      await expect(RedditService.validateAction('user_1', submit({}))).resolves.toEqual([]);
+    });
+
+    it('should only warn about flair when Reddit cannot say whether it is required', async () => {
+      (global.fetch as jest.Mock).mockRejectedValue(new Error('network down'));
+
+      await expect(RedditService.validateAction('user_1', submit({}))).resolves.toEqual([]);
+      const rules = await RedditService.getSubredditRules('user_1', 'SaaS');
+      expect(rules.postRequirements).toMatchObject({ flairRequired: false, flairLikelyRequired: true });
+    });
+
+    it('should reject mod-only and unknown templates', async () => {
+      await expect(RedditService.validateAction('user_1', submit({ flairId: 'flair_official' })))
+        .resolves.toEqual(['Flair "Official" can only be set by r/SaaS moderators']);
+      await expect(RedditService.validateAction('user_1', submit({ flairId: 'flair_gone' })))
+        .resolves.toEqual(['r/SaaS has no flair template "flair_gone"']);
+    });
+
+    it('should only accept custom text for editable templates', async () => {
+      await expect(RedditService.validateAction('user_1', submit({ flairId: 'flair_launch', flairText: 'Big launch' })))
+        .resolves.toEqual(['flairText can only be set with a flair template whose text is editable']);
+      await expect(RedditService.validateAction('user_1', submit({ flairId: 'flair_custom', flairText: 'x'.repeat(65) })))
+        .resolves.toEqual(['flairText must be at most 64 characters']);
+    });
+  });
+
+  it('should report missing fields without looking up the subreddit', async () => {
+    const errors = await RedditService.validateAction('user_1', submit({ type: 'link', title: '', url: 'ftp://example.com' }));
+
+    expect(errors).toEqual(['title is required', 'url must be an http(s) URL']);
+    expect(client.getSubreddit).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,67 @@
+const update = jest.fn();
+
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn().mockImplementation(() => ({
+    action: { update: (...args: unknown[]) => update(...args) }
+  }))
+}));
+
+import { RemovalChecker } from '../src/services/removalChecker';
+import { RedditService } from '../src/services/reddit';
+
+describe('RemovalChecker.classify', () => {
+  const comment = (extra: Record<string, any> = {}) => ({
+    name: 't1_kx9z1a',
+    author: 'copilot_user',
+    body: 'We had the same problem with churn.',
+    removed_by_category: null,
+    ...extra
+  });
+
+  it('should report content both views can see as visible', () => {
+    expect(RemovalChecker.classify(comment(), comment())).toBe('visible');
+  });
+
+  it('should catch a removal only the logged-out view shows', () => {
+    expect(RemovalChecker.classify(comment(), comment({ body: '[removed]' }))).toBe('removed');
+  });
+
+  it('should flag content missing from the logged-out view as invisible', () => {
+    expect(RemovalChecker.classify(comment(), null)).toBe('invisible');
+  });
+
+  it('should trust the logged-in view for mod removals and deletions', () => {
+    expect(RemovalChecker.classify(comment({ removed_by_category: 'moderator' }), null)).toBe('removed');
+    expect(RemovalChecker.classify(comment({ body: '[deleted]', author: '[deleted]' }), null)).toBe('deleted');
+    expect(RemovalChecker.classify(undefined, null)).toBe('deleted');
+  });
+});
+
+describe('RemovalChecker.checkAction', () => {
+  const action = { id: 'action_1', thingId: 't1_kx9z1a', url: 'https://reddit.com/r/SaaS/comments/abc123/_/kx9z1a/' };
+
+  beforeEach(() => {
+    update.mockReset();
+    jest.spyOn(RedditService, 'getThings').mockResolvedValue([{ name: 't1_kx9z1a', author: 'copilot_user' }]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should give the logged-out page load a timeout', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({ ok: false, status: 429 });
+    global.fetch = fetchMock as any;
+
+    await RemovalChecker.checkAction('user_1', action);
+
+    expect(fetchMock.mock.calls[0][1].signal).toBeInstanceOf(AbortSignal);
+  });
+
+  it('should store nothing when the logged-out page load times out', async () => {
+    global.fetch = jest.fn().mockRejectedValue(new DOMException('The operation was aborted due to timeout', 'TimeoutError')) as any;
+
+    await expect(RemovalChecker.checkAction('user_1', action)).resolves.toBeNull();
+    expect(update).not.toHaveBeenCalled();
+  });
+});
@@ -16,7 +16,8 @@ jest.mock('../src/middleware/auth', () => ({
     } else {
       res.status(401).json({ error: 'Reddit ID required in x-reddit-id header' });
     }
-  }
+  },
+  respondIfReauthRequired: () => false
 }));
 
 const app = express();
@@ -0,0 +1,100 @@
+import { TextMatcher } from '../src/services/textMatcher';
+import { ContentFilterService, ContentFilter, EXCLUDE_PATTERNS } from '../src/services/contentFilter';
+import { RedditPost } from '../src/services/reddit';
+
+const matches = (pattern: string, text: string) => TextMatcher.compile(pattern).matches(text);
+
+describe('TextMatcher', () => {
+  it('should only match whole words', () => {
+    expect(matches('art', 'I love this art piece')).toBe(true);
+    expect(matches('art', 'Launching my startup today')).toBe(false);
+    expect(matches('art', 'Check out this chart')).toBe(false);
+  });
+
+  it('should treat hyphenated words as one word', () => {
+    expect(matches('game', 'This tool is a game-changer')).toBe(false);
+    expect(matches('game', 'What game should I play?')).toBe(true);
+  });
+
+  it('should match singular and plural forms either way', () => {
+    expect(matches('lead', 'How do you qualify leads?')).toBe(true);
+    expect(matches('leads', 'Qualifying a lead')).toBe(true);
+    expect(matches('strategy', 'Pricing strategies that work')).toBe(true);
+    expect(matches('business', 'Small businesses need this')).toBe(true);
+  });
+
+  it('should be case-insensitive', () => {
+    expect(matches('saas', 'Building a SaaS in public')).toBe(true);
+    expect(matches('API', 'Which api should I use?')).toBe(true);
+  });
+
+  it('should match bare multi-word patterns as phrases', () => {
+    expect(matches('looking for', 'I am looking   for a CRM')).toBe(true);
+    expect(matches('looking for', 'Looking at options for a CRM')).toBe(false);
+    expect(matches('tech stack', 'Share your tech stacks')).toBe(true);
+  });
+
+  it('should match quoted phrases exactly', () => {
+    expect(matches('"design system"', 'Our design system is open source')).toBe(true);
+    expect(matches('"design system"', 'Comparing design systems')).toBe(false);
+  });
+
+  it('should reject text containing a negated term', () => {
+    const pattern = 'rules -"business rules"';
+    expect(matches(pattern, 'Please read the rules before posting')).toBe(true);
+    expect(matches(pattern, 'Encoding business rules in a workflow engine')).toBe(false);
+  });
+
+  it('should never match with negations alone but report hits', () => {
+    const pattern = TextMatcher.compile('-crypto');
+    expect(pattern.isNegationOnly).toBe(true);
+    expect(pattern.matches('Nothing to see here')).toBe(false);
+    expect(pattern.hitsNegation('Is crypto dead?')).toBe(true);
+  });
+
+  it('should treat regex characters literally', () => {
+    expect(matches('c++', 'Learning c++ this year')).toBe(true);
+    expect(matches('node.js', 'Deploying nodexjs')).toBe(false);
+  });
+});
+
+describe('ContentFilterService.scorePost', () => {
+  const post: RedditPost = {
+    id: 'abc123',
+    title: 'Our design systems and startup charts',
+    content: 'How to keep components consistent across teams',
+    author: 'someone',
+    subreddit: 'webdev',
+    score: 1,
+    commentCount: 0,
+    created: new Date(),
+    url: 'https://reddit.com/r/webdev/abc123',
+    permalink: '/r/webdev/comments/abc123/',
+    mediaType: 'text',
+    isNSFW: false,
+    upvoteRatio: 1
+  };
+
+  const filter: ContentFilter = {
+    categories: [],
+    keywords: ['component', '-crypto'],
+    excludeKeywords: EXCLUDE_PATTERNS,
+    minScore: 0,
+    contentTypes: ['text'],
+    intentFilters: ['ASKING_QUESTIONS']
+  };
+
+  it('should not penalize substrings or excluded phrases', () => {
+    const breakdown = ContentFilterService.scorePost(post, filter);
+
+    expect(breakdown.excludes).toEqual([]);
+    expect(breakdown.keywords).toEqual([{ keyword: 'component', points: 2 }]);
+    expect(breakdown.intents).toEqual([{ intent: 'ASKING_QUESTIONS', pattern: 'how to', points: 8 }]);
+  });
+
+  it('should penalize negation-only keywords like exclude words', () => {
+    const breakdown = ContentFilterService.scorePost({ ...post, content: 'Should I accept crypto?' }, filter);
+
+    expect(breakdown.excludes).toEqual([{ pattern: '-crypto', points: -10 }]);
+  });
+});
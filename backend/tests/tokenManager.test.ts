@@ -0,0 +1,123 @@
+const findUnique = jest.fn();
+
+jest.mock('@prisma/client', () => ({
+  PrismaClient: jest.fn().mockImplementation(() => ({
+    user: { findUnique: (...args: unknown[]) => findUnique(...args) }
+  }))
+}));
+
+jest.mock('../src/services/reddit', () => ({
+  RedditService: {
+    decryptToken: jest.fn((token: string) => token.replace(/^encrypted:/, '')),
+    saveUserTokens: jest.fn().mockResolvedValue(undefined)
+  }
+}));
+
+import { RedditTokenManager, RedditReauthRequiredError } from '../src/services/tokenManager';
+import { RedditService } from '../src/services/reddit';
+
+const MINUTE = 60 * 1000;
+
+const user = (expiresIn: number | null, refreshToken: string | null = 'encrypted:refresh_1') => ({
+  redditId: 'user_1',
+  username: 'tester',
+  accessToken: 'encrypted:access_old',
+  refreshToken,
+  tokenExpiresAt: expiresIn === null ? null : new Date(Date.now() + expiresIn)
+});
+
+const tokenResponse = (body: object, status = 200) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  json: async () => body
+});
+
+describe('RedditTokenManager.getAccessToken', () => {
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    global.fetch = fetchMock as any;
+  });
+
+  it('should use the stored token while it has more than the refresh margin left', async () => {
+    findUnique.mockResolvedValue(user(6 * MINUTE));
+
+    const token = await RedditTokenManager.getAccessToken('user_1');
+
+    expect(token.accessToken).toBe('access_old');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should refresh ahead of expiry and save the new token', async () => {
+    findUnique.mockResolvedValue(user(4 * MINUTE));
+    fetchMock.mockResolvedValue(tokenResponse({ access_token: 'access_new', expires_in: 3600 }));
+
+    const token = await RedditTokenManager.getAccessToken('user_1');
+
+    expect(token.accessToken).toBe('access_new');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(String(fetchMock.mock.calls[0][1].body)).toContain('refresh_token=refresh_1');
+    // Reddit didn't send a new refresh token, so the old one is kept
+    expect(RedditService.saveUserTokens).toHaveBeenCalledWith('user_1', 'tester', 'access_new', 'refresh_1', 3600);
+  });
+
+  it('should share one refresh between concurrent callers', async () => {
+    findUnique.mockResolvedValue(user(-MINUTE));
+    let respond: (value: unknown) => void = () => {};
+    fetchMock.mockReturnValue(new Promise(resolve => { respond = resolve; }));
+
+    const pending = Promise.all([
+      RedditTokenManager.getAccessToken('user_1'),
+      RedditTokenManager.getAccessToken('user_1'),
+      RedditTokenManager.getAccessToken('user_1')
+    ]);
+    await new Promise(resolve => setImmediate(resolve));
+    respond(tokenResponse({ access_token: 'access_new', expires_in: 3600 }));
+
+    const tokens = await pending;
+    expect(tokens.map(token => token.accessToken)).toEqual(['access_new', 'access_new', 'access_new']);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refresh again once the previous refresh has finished', async () => {
+    findUnique.mockResolvedValue(user(-MINUTE));
+    fetchMock.mockResolvedValue(tokenResponse({ access_token: 'access_new', expires_in: 3600 }));
+
+    await RedditTokenManager.getAccessToken('user_1');
+    await RedditTokenManager.getAccessToken('user_1');
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should require re-authentication when Reddit answers invalid_grant', async () => {
+    findUnique.mockResolvedValue(user(-MINUTE));
+    fetchMock.mockResolvedValue(tokenResponse({ error: 'invalid_grant' }, 400));
+
+    await expect(RedditTokenManager.getAccessToken('user_1')).rejects.toBeInstanceOf(RedditReauthRequiredError);
+  });
+
+  it('should require re-authentication for invalid_grant sent with a 200', async () => {
+    findUnique.mockResolvedValue(user(-MINUTE));
+    fetchMock.mockResolvedValue(tokenResponse({ error: 'invalid_grant' }));
+
+    await expect(RedditTokenManager.getAccessToken('user_1')).rejects.toBeInstanceOf(RedditReauthRequiredError);
+    expect(RedditService.saveUserTokens).not.toHaveBeenCalled();
+  });
+
+  it('should treat other refresh failures as ordinary errors', async () => {
+    findUnique.mockResolvedValue(user(-MINUTE));
+    fetchMock.mockResolvedValue(tokenResponse({}, 503));
+
+    const error = await RedditTokenManager.getAccessToken('user_1').catch(caught => caught);
+    expect(error).toBeInstanceOf(Error);
+    expect(error).not.toBeInstanceOf(RedditReauthRequiredError);
+  });
+
+  it('should require re-authentication when an expired token has no refresh token', async () => {
+    findUnique.mockResolvedValue(user(-MINUTE, null));
+
+    await expect(RedditTokenManager.getAccessToken('user_1')).rejects.toBeInstanceOf(RedditReauthRequiredError);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,91 @@
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebhookDispatcher } from '../src/services/webhookDispatcher';
+import { BlockedUrlError } from '../src/services/outboundUrl';
+
+describe('WebhookDispatcher', () => {
+  let server: http.Server;
+  let port: number;
+  let received: { headers: http.IncomingHttpHeaders; body: string } | null;
+  let status: number;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received = { headers: req.headers, body };
+        res.writeHead(status).end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  beforeEach(() => {
+    received = null;
+    status = 200;
+    process.env.OUTBOUND_ALLOWED_HOSTS = '127.0.0.1';
+  });
+
+  afterEach(() => {
+    delete process.env.OUTBOUND_ALLOWED_HOSTS;
+  });
+
+  const request = {
+    deliveryId: 'delivery_1',
+    event: 'comment.posted',
+    payload: JSON.stringify({ id: 'evt_1', event: 'comment.posted', data: { postId: 'abc123' } })
+  };
+
+  it('should sign the timestamp and body with the secret', () => {
+    const expected = crypto.createHmac('sha256', 'whsec_test').update('1700000000.{"a":1}').digest('hex');
+
+    expect(WebhookDispatcher.sign('whsec_test', 1700000000, '{"a":1}')).toBe(expected);
+    expect(WebhookDispatcher.sign('whsec_other', 1700000000, '{"a":1}')).not.toBe(expected);
+  });
+
+  it('should send the payload unchanged with a verifiable signature', async () => {
+    const responseStatus = await WebhookDispatcher.send(`http://127.0.0.1:${port}/hook`, 'whsec_test', request);
+
+    expect(responseStatus).toBe(200);
+    expect(received!.body).toBe(request.payload);
+    expect(received!.headers['content-type']).toBe('application/json');
+    expect(received!.headers['x-copilot-event']).toBe('comment.posted');
+    expect(received!.headers['x-copilot-delivery']).toBe('delivery_1');
+
+    const match = /^t=(\d+),v1=([0-9a-f]{64})$/.exec(received!.headers['x-copilot-signature'] as string);
+    expect(match).not.toBeNull();
+    expect(match![2]).toBe(WebhookDispatcher.sign('whsec_test', parseInt(match![1]), received!.body));
+  });
+
+  it('should resolve with the status of a rejected delivery', async () => {
+    status = 503;
+
+    await expect(WebhookDispatcher.send(`http://127.0.0.1:${port}/hook`, 'whsec_test', request)).resolves.toBe(503);
+  });
+
+  it('should refuse endpoints on internal addresses that are not allowed', async () => {
+    delete process.env.OUTBOUND_ALLOWED_HOSTS;
+
+    await expect(WebhookDispatcher.send(`http://127.0.0.1:${port}/hook`, 'whsec_test', request))
+      .rejects.toBeInstanceOf(BlockedUrlError);
+    expect(received).toBeNull();
+  });
+
+  it('should report a redirect instead of following it', async () => {
+    status = 307;
+
+    await expect(WebhookDispatcher.send(`http://127.0.0.1:${port}/hook`, 'whsec_test', request)).resolves.toBe(307);
+  });
+
+  it('should back off between retries and give up after the last one', () => {
+    const delays = [1, 2, 3, 4, 5].map(attempts => WebhookDispatcher.retryDelay(attempts)!);
+
+    delays.slice(1).forEach((delay, index) => expect(delay).toBeGreaterThan(delays[index]));
+    expect(WebhookDispatcher.retryDelay(6)).toBeNull();
+  });
+});
@@ -4,11 +4,30 @@ import { useState, useEffect } from 'react'
 import Dashboard from '@/components/Dashboard'
 
 export default function Home() {
-  const [redditId, setRedditId] = useState<string>('')
+  const [tokenInput, setTokenInput] = useState<string>('')
+  const [sessionToken, setSessionToken] = useState<string>('')
+
+  const signInWithReddit = () => {
+    // Full-page navigation so the backend can bind the OAuth state to this browser
+    window.location.href = 'http://localhost:3001/auth/reddit/login'
+  }
+
+  const logout = async () => {
+    try {
+      await fetch('http://localhost:3001/auth/logout', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${sessionToken}` }
+      })
+    } catch (error) {
+      console.error('Failed to revoke session:', error)
+    }
+    setSessionToken('')
+    setTokenInput('')
+  }
 
   return (
     <main className="min-h-screen bg-slate-50">
-      {!redditId ? (
+      {!sessionToken ? (
         // Minimal login screen - no giant header
         <div className="min-h-screen flex items-center justify-center">
           <div className="w-full max-w-md mx-auto bg-white rounded-2xl shadow-xl p-8">
@@ -22,27 +41,30 @@ export default function Home() {
             </div>
             
             <div className="space-y-4">
+              <button
+                onClick={signInWithReddit}
+                className="w-full bg-orange-600 text-white py-3 rounded-xl font-semibold hover:bg-orange-700 transition-all duration-200"
+              >
+                Sign in with Reddit
+              </button>
+
               <div>
-                <label className="block text-sm font-semibold text-slate-700 mb-2">Reddit ID</label>
+                <label className="block text-sm font-semibold text-slate-700 mb-2">Session Token</label>
                 <p className="text-slate-600 mb-3 text-xs">
-                  Use: <code className="bg-slate-100 px-2 py-1 rounded font-mono">1bixji3jmy</code>
+                  Paste the <code className="bg-slate-100 px-2 py-1 rounded font-mono">sessionToken</code> returned after signing in
                 </p>
                 <input
-                  type="text"
-                  placeholder="Enter Reddit ID"
+                  type="password"
+                  placeholder="Enter session token"
                   className="w-full p-3 border border-slate-200 rounded-xl focus:ring-2 focus:ring-violet-500 focus:border-violet-500 bg-slate-50 transition-all"
-                  value={redditId}
-                  onChange={(e) => setRedditId(e.target.value)}
+                  value={tokenInput}
+                  onChange={(e) => setTokenInput(e.target.value)}
                 />
               </div>
               
               <button
-                onClick={() => {
-                  if (redditId.trim()) {
-                    // Reddit ID is set, Dashboard will load
-                  }
-                }}
-                disabled={!redditId.trim()}
+                onClick={() => setSessionToken(tokenInput.trim())}
+                disabled={!tokenInput.trim()}
                 className="w-full bg-gradient-to-r from-violet-600 to-indigo-600 text-white py-3 rounded-xl font-semibold hover:from-violet-700 hover:to-indigo-700 disabled:from-slate-400 disabled:to-slate-500 transition-all duration-200 shadow-lg shadow-violet-600/25"
               >
                 Load Dashboard
@@ -52,7 +74,7 @@ export default function Home() {
         </div>
       ) : (
         // Full-width dashboard - no container constraints
-        <Dashboard redditId={redditId} />
+        <Dashboard sessionToken={sessionToken} onLogout={logout} />
       )}
     </main>
   )
@@ -0,0 +1,325 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+
+interface PostedAction {
+  id: string
+  type: 'post' | 'link' | 'crosspost' | 'comment'
+  thingId: string
+  subreddit: string
+  title: string
+  content: string
+  url: string
+  suggestion: string | null
+  userEdited: boolean
+  visibility: 'visible' | 'removed' | 'invisible' | 'deleted' | null
+  editable: boolean
+  editedAt: string | null
+  deletedAt: string | null
+  createdAt: string
+}
+
+interface ScheduledAction {
+  id: string
+  action: { type: string; title: string; content: string; targetSubreddit: string }
+  runAt: string
+  timeZone: string | null
+  status: 'scheduled' | 'posting' | 'posted' | 'failed' | 'cancelled'
+  error: string | null
+}
+
+interface ActionHistoryProps {
+  sessionToken: string
+}
+
+export default function ActionHistory({ sessionToken }: ActionHistoryProps) {
+  const [actions, setActions] = useState<PostedAction[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editText, setEditText] = useState('')
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [scheduled, setScheduled] = useState<ScheduledAction[]>([])
+  const [reschedulingId, setReschedulingId] = useState<string | null>(null)
+  const [rescheduleAt, setRescheduleAt] = useState('')
+
+  useEffect(() => {
+    fetchActions()
+    fetchScheduled()
+  }, [])
+
+  const fetchScheduled = async () => {
+    try {
+      const response = await fetch('http://localhost:3001/api/actions/scheduled?status=scheduled,posting,failed', {
+        headers: { 'Authorization': `Bearer ${sessionToken}` }
+      })
+      if (!response.ok) return
+
+      const data = await response.json()
+      setScheduled(data.scheduled || [])
+    } catch (error) {
+      console.error('Failed to fetch scheduled actions:', error)
+    }
+  }
+
+  const cancelScheduled = async (item: ScheduledAction) => {
+    if (!confirm('Cancel this scheduled post?')) return
+
+    const response = await fetch(`http://localhost:3001/api/actions/scheduled/${item.id}`, {
+      method: 'DELETE',
+      headers: { 'Authorization': `Bearer ${sessionToken}` }
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      alert(`❌ ${data.error || 'Failed to cancel'}`)
+    }
+    fetchScheduled()
+  }
+
+  const saveReschedule = async (item: ScheduledAction) => {
+    const response = await fetch(`http://localhost:3001/api/actions/scheduled/${item.id}`, {
+      method: 'PATCH',
+      headers: {
+        'Authorization': `Bearer ${sessionToken}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ runAt: rescheduleAt, timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone })
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      alert(`❌ ${data.details?.join('\n') || data.error || 'Failed to reschedule'}`)
+      return
+    }
+    setReschedulingId(null)
+    fetchScheduled()
+  }
+
+  const fetchActions = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch('http://localhost:3001/api/actions?limit=50', {
+        headers: { 'Authorization': `Bearer ${sessionToken}` }
+      })
+      if (!response.ok) {
+        setError('Failed to load your posts')
+        return
+      }
+
+      const data = await response.json()
+      setActions(data.actions || [])
+    } catch (error) {
+      console.error('Failed to fetch actions:', error)
+      setError('Failed to load your posts')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const replaceAction = (updated: PostedAction) => {
+    setActions(prev => prev.map(action => action.id === updated.id ? updated : action))
+  }
+
+  const saveEdit = async (action: PostedAction) => {
+    setBusyId(action.id)
+    try {
+      const response = await fetch(`http://localhost:3001/api/actions/${action.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Authorization': `Bearer ${sessionToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ content: editText })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        alert(`❌ ${data.details?.join('\n') || data.error || 'Failed to edit'}`)
+        return
+      }
+
+      replaceAction(data.action)
+      setEditingId(null)
+    } catch (error) {
+      console.error('Failed to edit action:', error)
+      alert('❌ Failed to edit. Please try again.')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const deleteAction = async (action: PostedAction) => {
+    if (!confirm(`Delete this ${action.type} from r/${action.subreddit}? This can't be undone.`)) return
+
+    setBusyId(action.id)
+    try {
+      const response = await fetch(`http://localhost:3001/api/actions/${action.id}`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${sessionToken}` }
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        alert(`❌ ${data.error || 'Failed to delete'}`)
+        return
+      }
+
+      replaceAction(data.action)
+    } catch (error) {
+      console.error('Failed to delete action:', error)
+      alert('❌ Failed to delete. Please try again.')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  if (loading) {
+    return <div className="max-w-3xl mx-auto px-6 text-sm text-gray-500">Loading your posts...</div>
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto px-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">Posted through Copilot</h2>
+        <button onClick={() => { fetchActions(); fetchScheduled() }} className="text-xs font-medium text-violet-600 hover:text-violet-800">
+          Refresh
+        </button>
+      </div>
+
+      {scheduled.length > 0 && (
+        <div className="notion-card space-y-3">
+          <h3 className="text-sm font-semibold text-gray-900">🕒 Scheduled</h3>
+          {scheduled.map(item => (
+            <div key={item.id} className="border-t border-gray-100 pt-3 first:border-0 first:pt-0">
+              <div className="flex items-center justify-between text-xs text-gray-500">
+                <span>
+                  {item.action.type} in r/{item.action.targetSubreddit} · {new Date(item.runAt).toLocaleString()}
+                  {item.status !== 'scheduled' && <span className={item.status === 'failed' ? 'text-red-600' : ''}> · {item.status}</span>}
+                </span>
+                {item.status !== 'posting' && (
+                  <div className="flex space-x-3 font-medium">
+                    <button
+                      onClick={() => { setReschedulingId(item.id); setRescheduleAt('') }}
+                      className="text-violet-600 hover:text-violet-800"
+                    >
+                      {item.status === 'failed' ? 'Retry at...' : 'Reschedule'}
+                    </button>
+                    {item.status === 'scheduled' && (
+                      <button onClick={() => cancelScheduled(item)} className="text-red-600 hover:text-red-800">
+                        Cancel
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+              <div className="text-sm text-gray-800 truncate mt-1">{item.action.title || item.action.content}</div>
+              {item.error && <div className="text-xs text-red-600 mt-1">{item.error}</div>}
+              {reschedulingId === item.id && (
+                <div className="flex items-center space-x-2 mt-2">
+                  <input
+                    type="datetime-local"
+                    value={rescheduleAt}
+                    onChange={(e) => setRescheduleAt(e.target.value)}
+                    className="text-sm border border-gray-200 rounded-md px-2 py-1"
+                  />
+                  <button
+                    onClick={() => saveReschedule(item)}
+                    disabled={!rescheduleAt}
+                    className="px-3 py-1 text-xs font-medium rounded-md bg-violet-600 text-white hover:bg-violet-700 disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                  <button
+                    onClick={() => setReschedulingId(null)}
+                    className="px-3 py-1 text-xs font-medium rounded-md text-gray-600 hover:bg-gray-100"
+                  >
+                    Close
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {!error && actions.length === 0 && (
+        <div className="notion-card text-center py-8 text-gray-500">
+          <div className="text-2xl mb-2">📤</div>
+          <p>Nothing posted yet. Comments and posts you send from the copilot show up here.</p>
+        </div>
+      )}
+
+      {actions.map(action => (
+        <div key={action.id} className={`notion-card ${action.deletedAt ? 'opacity-60' : ''}`}>
+          <div className="flex items-center justify-between text-xs text-gray-500 mb-2">
+            <span>
+              {action.type} in r/{action.subreddit} · {new Date(action.createdAt).toLocaleString()}
+              {action.suggestion && ` · AI-assisted${action.userEdited ? ', reworded' : ''}`}
+              {action.editedAt && ' · edited'}
+              {action.deletedAt && ' · deleted'}
+              {action.visibility === 'removed' && <span className="text-red-600"> · removed by moderators</span>}
+              {action.visibility === 'invisible' && <span className="text-red-600"> · hidden from other users</span>}
+            </span>
+            {action.url && (
+              <a href={action.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800">
+                View on Reddit
+              </a>
+            )}
+          </div>
+
+          {action.title && <div className="font-medium text-gray-900 text-sm mb-1">{action.title}</div>}
+
+          {editingId === action.id ? (
+            <div className="space-y-2">
+              <textarea
+                value={editText}
+                onChange={(e) => setEditText(e.target.value)}
+                rows={5}
+                className="w-full text-sm border border-gray-200 rounded-md p-2"
+              />
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => saveEdit(action)}
+                  disabled={busyId === action.id || !editText.trim()}
+                  className="px-3 py-1 text-xs font-medium rounded-md bg-violet-600 text-white hover:bg-violet-700 disabled:opacity-50"
+                >
+                  {busyId === action.id ? 'Saving...' : 'Save'}
+                </button>
+                <button
+                  onClick={() => setEditingId(null)}
+                  className="px-3 py-1 text-xs font-medium rounded-md text-gray-600 hover:bg-gray-100"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            action.content && <div className="text-sm text-gray-800 whitespace-pre-wrap">{action.content}</div>
+          )}
+
+          {!action.deletedAt && editingId !== action.id && (
+            <div className="flex space-x-3 mt-3 text-xs font-medium">
+              {action.editable && (
+                <button
+                  onClick={() => { setEditingId(action.id); setEditText(action.content) }}
+                  className="text-violet-600 hover:text-violet-800"
+                >
+                  Edit
+                </button>
+              )}
+              <button
+                onClick={() => deleteAction(action)}
+                disabled={busyId === action.id}
+                className="text-red-600 hover:text-red-800 disabled:opacity-50"
+              >
+                {busyId === action.id ? 'Deleting...' : 'Delete'}
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -6,9 +6,13 @@ import SubredditList from './SubredditList'
 import ResearchEngine from './ResearchEngine'
 import IntelligentResearch from './IntelligentResearch'
 import HomeFeed from './HomeFeed'
+import ActionHistory from './ActionHistory'
+import DraftsPanel from './DraftsPanel'
+import SuggestionsFeed from './SuggestionsFeed'
 
 interface DashboardProps {
-  redditId: string
+  sessionToken: string
+  onLogout: () => void
 }
 
 export interface RedditProfile {
@@ -48,17 +52,19 @@ export interface Suggestion {
   estimatedEngagement: string
 }
 
-export default function Dashboard({ redditId }: DashboardProps) {
+export default function Dashboard({ sessionToken, onLogout }: DashboardProps) {
   const [profile, setProfile] = useState<RedditProfile | null>(null)
   const [subreddits, setSubreddits] = useState<Subreddit[]>([])
   const [suggestions, setSuggestions] = useState<Suggestion[]>([])
   const [loading, setLoading] = useState(true)
-  const [activeTab, setActiveTab] = useState<'home' | 'overview' | 'subreddits' | 'research' | 'intelligent'>('home')
+  const [activeTab, setActiveTab] = useState<'home' | 'drafts' | 'posted' | 'overview' | 'subreddits' | 'research' | 'intelligent'>('home')
   const [showFiltersDropdown, setShowFiltersDropdown] = useState(false)
+  // Bumped to reload the drafts panel after a suggestion is saved as a draft
+  const [draftsVersion, setDraftsVersion] = useState(0)
 
   useEffect(() => {
     loadData()
-  }, [redditId])
+  }, [sessionToken])
 
   const loadData = async () => {
     try {
@@ -67,10 +73,10 @@ export default function Dashboard({ redditId }: DashboardProps) {
       // Load profile and subreddits in parallel
       const [profileRes, subredditsRes] = await Promise.all([
         fetch('/api/me', {
-          headers: { 'x-reddit-id': redditId }
+          headers: { 'Authorization': `Bearer ${sessionToken}` }
         }),
         fetch('/api/subreddits', {
-          headers: { 'x-reddit-id': redditId }
+          headers: { 'Authorization': `Bearer ${sessionToken}` }
         })
       ])
 
@@ -95,7 +101,7 @@ export default function Dashboard({ redditId }: DashboardProps) {
       const res = await fetch('/api/suggestions', {
         method: 'POST',
         headers: {
-          'x-reddit-id': redditId,
+          'Authorization': `Bearer ${sessionToken}`,
           'Content-Type': 'application/json'
         }
       })
@@ -119,13 +125,14 @@ export default function Dashboard({ redditId }: DashboardProps) {
         type: suggestion.type,
         title: suggestion.title,
         content: suggestion.content,
-        targetSubreddit: suggestion.targetSubreddit.replace('r/', '')
+        targetSubreddit: suggestion.targetSubreddit.replace('r/', ''),
+        suggestion: { content: suggestion.content }
       }
 
       const res = await fetch('/api/actions', {
         method: 'POST',
         headers: {
-          'x-reddit-id': redditId,
+          'Authorization': `Bearer ${sessionToken}`,
           'Content-Type': 'application/json'
         },
         body: JSON.stringify(action)
@@ -146,6 +153,37 @@ export default function Dashboard({ redditId }: DashboardProps) {
     }
   }
 
+  const saveSuggestionAsDraft = async (suggestion: Suggestion) => {
+    try {
+      const res = await fetch('http://localhost:3001/api/drafts', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${sessionToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          type: 'post',
+          subreddit: suggestion.targetSubreddit.replace('r/', ''),
+          title: suggestion.title,
+          content: suggestion.content,
+          suggestion: { content: suggestion.content },
+          source: 'suggestion'
+        })
+      })
+
+      if (res.ok) {
+        setSuggestions(prev => prev.filter(s => s.id !== suggestion.id))
+        setDraftsVersion(version => version + 1)
+      } else {
+        const error = await res.json()
+        alert(`Error: ${error.details?.join('\n') || error.error}`)
+      }
+    } catch (error) {
+      console.error('Error saving draft:', error)
+      alert('Error saving draft')
+    }
+  }
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -183,6 +221,12 @@ export default function Dashboard({ redditId }: DashboardProps) {
                   {profile ? profile.username[0].toUpperCase() : 'U'}
                 </span>
               </div>
+              <button
+                onClick={onLogout}
+                className="text-xs font-medium text-slate-500 hover:text-slate-900"
+              >
+                Log out
+              </button>
             </div>
           </div>
         </div>
@@ -194,6 +238,8 @@ export default function Dashboard({ redditId }: DashboardProps) {
           <div className="flex items-center py-2 gap-1">
             {[
               { key: 'home', label: 'Home', icon: '🏠' },
+              { key: 'drafts', label: 'Drafts', icon: '📝' },
+              { key: 'posted', label: 'Posted', icon: '📤' },
               { key: 'overview', label: 'Overview', icon: '📊' },
               { key: 'subreddits', label: 'Subreddits', icon: '📱' },
               { key: 'research', label: 'Research', icon: '🔍' },
@@ -234,7 +280,25 @@ export default function Dashboard({ redditId }: DashboardProps) {
 
       {/* Content */}
       {activeTab === 'home' && (
-        <HomeFeed redditId={redditId} />
+        <HomeFeed sessionToken={sessionToken} />
+      )}
+
+      {activeTab === 'drafts' && (
+        <div className="space-y-6">
+          <DraftsPanel sessionToken={sessionToken} refreshKey={draftsVersion} />
+          <div className="max-w-5xl mx-auto px-6">
+            <SuggestionsFeed
+              suggestions={suggestions}
+              onLoadSuggestions={loadSuggestions}
+              onExecuteAction={executeAction}
+              onSaveDraft={saveSuggestionAsDraft}
+            />
+          </div>
+        </div>
+      )}
+
+      {activeTab === 'posted' && (
+        <ActionHistory sessionToken={sessionToken} />
       )}
 
       {activeTab === 'overview' && (
@@ -334,11 +398,11 @@ export default function Dashboard({ redditId }: DashboardProps) {
       )}
 
       {activeTab === 'research' && (
-        <ResearchEngine redditId={redditId} />
+        <ResearchEngine sessionToken={sessionToken} />
       )}
 
       {activeTab === 'intelligent' && (
-        <IntelligentResearch redditId={redditId} />
+        <IntelligentResearch sessionToken={sessionToken} />
       )}
       </div>
     </div>
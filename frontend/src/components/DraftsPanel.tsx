@@ -0,0 +1,350 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+
+type RevisionSource = 'user' | 'ai_refined' | 'suggestion'
+
+interface DraftRevision {
+  id: string
+  source: RevisionSource
+  title: string
+  content: string
+  createdAt: string
+  updatedAt: string
+}
+
+interface Draft {
+  id: string
+  type: 'post' | 'comment'
+  subreddit: string
+  postId: string | null
+  parentId: string | null
+  title: string
+  content: string
+  status: 'draft' | 'publishing' | 'published'
+  actionId: string | null
+  revisionCount: number
+  revisions?: DraftRevision[]
+  updatedAt: string
+}
+
+interface DiffPart {
+  type: 'same' | 'added' | 'removed'
+  text: string
+}
+
+interface DraftsPanelProps {
+  sessionToken: string
+  refreshKey?: number
+}
+
+const SOURCE_LABELS: Record<RevisionSource, string> = {
+  user: '✍️ You',
+  ai_refined: '✨ AI refined',
+  suggestion: '💡 Suggestion'
+}
+
+export default function DraftsPanel({ sessionToken, refreshKey }: DraftsPanelProps) {
+  const [drafts, setDrafts] = useState<Draft[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showPublished, setShowPublished] = useState(false)
+  const [selected, setSelected] = useState<Draft | null>(null)
+  const [editTitle, setEditTitle] = useState('')
+  const [editText, setEditText] = useState('')
+  const [diffRevisionId, setDiffRevisionId] = useState<string | null>(null)
+  const [diff, setDiff] = useState<{ title: DiffPart[], content: DiffPart[] } | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  useEffect(() => {
+    fetchDrafts()
+  }, [showPublished, refreshKey])
+
+  const fetchDrafts = async () => {
+    setLoading(true)
+    try {
+      const status = showPublished ? 'draft,publishing,published' : 'draft,publishing'
+      const response = await fetch(`http://localhost:3001/api/drafts?status=${status}`, {
+        headers: { 'Authorization': `Bearer ${sessionToken}` }
+      })
+      if (!response.ok) return
+
+      const data = await response.json()
+      setDrafts(data.drafts || [])
+    } catch (error) {
+      console.error('Failed to fetch drafts:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openDraft = async (id: string) => {
+    try {
+      const response = await fetch(`http://localhost:3001/api/drafts/${id}`, {
+        headers: { 'Authorization': `Bearer ${sessionToken}` }
+      })
+      if (!response.ok) return
+
+      const data = await response.json()
+      setSelected(data.draft)
+      setEditTitle(data.draft.title)
+      setEditText(data.draft.content)
+      setDiffRevisionId(null)
+      setDiff(null)
+    } catch (error) {
+      console.error('Failed to open draft:', error)
+    }
+  }
+
+  const showDiff = async (revision: DraftRevision) => {
+    if (!selected) return
+    if (diffRevisionId === revision.id) {
+      setDiffRevisionId(null)
+      return
+    }
+
+    try {
+      const response = await fetch(`http://localhost:3001/api/drafts/${selected.id}/diff?to=${revision.id}`, {
+        headers: { 'Authorization': `Bearer ${sessionToken}` }
+      })
+      if (!response.ok) return
+
+      const data = await response.json()
+      setDiff({ title: data.title, content: data.content })
+      setDiffRevisionId(revision.id)
+    } catch (error) {
+      console.error('Failed to diff revisions:', error)
+    }
+  }
+
+  const saveDraft = async (title: string, content: string) => {
+    if (!selected) return
+
+    setBusy(true)
+    try {
+      const response = await fetch(`http://localhost:3001/api/drafts/${selected.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Authorization': `Bearer ${sessionToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ title, content, source: 'user' })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        alert(`❌ ${data.details?.join('\n') || data.error || 'Failed to save draft'}`)
+        return
+      }
+      setSelected(data.draft)
+      setEditTitle(data.draft.title)
+      setEditText(data.draft.content)
+      fetchDrafts()
+    } catch (error) {
+      console.error('Failed to save draft:', error)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const publishDraft = async () => {
+    if (!selected) return
+    if (editText !== selected.content || editTitle !== selected.title) {
+      alert('Save your changes before publishing.')
+      return
+    }
+    if (!confirm(`Post this ${selected.type} to r/${selected.subreddit}?\n\n"${selected.content.substring(0, 200)}..."`)) return
+
+    setBusy(true)
+    try {
+      const response = await fetch(`http://localhost:3001/api/drafts/${selected.id}/publish`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${sessionToken}` }
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        alert(`❌ ${Array.isArray(data.details) ? data.details.join('\n') : data.details || data.error}`)
+        return
+      }
+      alert(`Published! View at: ${data.url}`)
+      setSelected(null)
+      fetchDrafts()
+    } catch (error) {
+      console.error('Failed to publish draft:', error)
+      alert('❌ Failed to publish. Please try again.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const deleteDraft = async (draft: Draft) => {
+    if (!confirm('Discard this draft and its history?')) return
+
+    const response = await fetch(`http://localhost:3001/api/drafts/${draft.id}`, {
+      method: 'DELETE',
+      headers: { 'Authorization': `Bearer ${sessionToken}` }
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      alert(`❌ ${data.error || 'Failed to discard draft'}`)
+      return
+    }
+    if (selected?.id === draft.id) setSelected(null)
+    fetchDrafts()
+  }
+
+  const renderDiff = (parts: DiffPart[]) => parts.map((part, index) => (
+    <span
+      key={index}
+      className={part.type === 'added' ? 'bg-green-100 text-green-800' : part.type === 'removed' ? 'bg-red-100 text-red-700 line-through' : ''}
+    >
+      {part.text}
+    </span>
+  ))
+
+  return (
+    <div className="max-w-5xl mx-auto px-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">Drafts</h2>
+        <div className="flex items-center space-x-4 text-xs font-medium">
+          <label className="flex items-center space-x-1 text-gray-600">
+            <input type="checkbox" checked={showPublished} onChange={(e) => setShowPublished(e.target.checked)} />
+            <span>Show published</span>
+          </label>
+          <button onClick={fetchDrafts} className="text-violet-600 hover:text-violet-800">
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          {loading && <p className="text-sm text-gray-500">Loading drafts...</p>}
+          {!loading && drafts.length === 0 && (
+            <div className="notion-card text-center py-8 text-gray-500">
+              <div className="text-2xl mb-2">📝</div>
+              <p>No drafts. Comments you start writing in the feed are saved here.</p>
+            </div>
+          )}
+          {drafts.map(draft => (
+            <button
+              key={draft.id}
+              onClick={() => openDraft(draft.id)}
+              className={`notion-card w-full text-left ${selected?.id === draft.id ? 'ring-2 ring-violet-500' : ''}`}
+            >
+              <div className="text-xs text-gray-500 mb-1">
+                {draft.type} in r/{draft.subreddit} · {new Date(draft.updatedAt).toLocaleString()}
+                {draft.status !== 'draft' && ` · ${draft.status}`}
+              </div>
+              <div className="text-sm text-gray-800 truncate">{draft.title || draft.content || 'Empty draft'}</div>
+              <div className="text-xs text-gray-400 mt-1">{draft.revisionCount} revision{draft.revisionCount === 1 ? '' : 's'}</div>
+            </button>
+          ))}
+        </div>
+
+        <div className="lg:col-span-2">
+          {selected ? (
+            <div className="notion-card space-y-4">
+              <div className="flex items-center justify-between text-xs text-gray-500">
+                <span>
+                  {selected.type} in r/{selected.subreddit}
+                  {selected.postId && (
+                    <>
+                      {' · '}
+                      <a
+                        href={`https://reddit.com/comments/${selected.postId}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        View thread
+                      </a>
+                    </>
+                  )}
+                </span>
+                <button onClick={() => deleteDraft(selected)} className="font-medium text-red-600 hover:text-red-800">
+                  Discard
+                </button>
+              </div>
+
+              {selected.type === 'post' && (
+                <input
+                  value={editTitle}
+                  onChange={(e) => setEditTitle(e.target.value)}
+                  disabled={selected.status !== 'draft'}
+                  placeholder="Title"
+                  className="w-full text-sm font-medium border border-gray-200 rounded-md p-2"
+                />
+              )}
+              <textarea
+                value={editText}
+                onChange={(e) => setEditText(e.target.value)}
+                disabled={selected.status !== 'draft'}
+                rows={8}
+                className="w-full text-sm border border-gray-200 rounded-md p-2"
+              />
+
+              {selected.status === 'draft' && (
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => saveDraft(editTitle, editText)}
+                    disabled={busy || (editText === selected.content && editTitle === selected.title)}
+                    className="px-3 py-1 text-xs font-medium rounded-md bg-white border border-violet-600 text-violet-700 hover:bg-violet-50 disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                  <button
+                    onClick={publishDraft}
+                    disabled={busy || !editText.trim()}
+                    className="px-3 py-1 text-xs font-medium rounded-md bg-violet-600 text-white hover:bg-violet-700 disabled:opacity-50"
+                  >
+                    {busy ? 'Working...' : '🚀 Publish'}
+                  </button>
+                </div>
+              )}
+
+              <div>
+                <h3 className="text-sm font-semibold text-gray-900 mb-2">History</h3>
+                <div className="space-y-2">
+                  {[...(selected.revisions || [])].reverse().map(revision => (
+                    <div key={revision.id} className="border-t border-gray-100 pt-2 first:border-0 first:pt-0">
+                      <div className="flex items-center justify-between text-xs text-gray-500">
+                        <span>{SOURCE_LABELS[revision.source]} · {new Date(revision.updatedAt).toLocaleString()}</span>
+                        <div className="flex space-x-3 font-medium">
+                          <button onClick={() => showDiff(revision)} className="text-violet-600 hover:text-violet-800">
+                            {diffRevisionId === revision.id ? 'Hide changes' : 'Changes'}
+                          </button>
+                          {selected.status === 'draft' && revision.content !== selected.content && (
+                            <button
+                              onClick={() => saveDraft(revision.title, revision.content)}
+                              disabled={busy}
+                              className="text-violet-600 hover:text-violet-800 disabled:opacity-50"
+                            >
+                              Restore
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                      {diffRevisionId === revision.id && diff ? (
+                        <div className="text-sm text-gray-800 whitespace-pre-wrap mt-1">
+                          {revision.title && <div className="font-medium mb-1">{renderDiff(diff.title)}</div>}
+                          {renderDiff(diff.content)}
+                        </div>
+                      ) : (
+                        <div className="text-sm text-gray-700 truncate mt-1">{revision.content}</div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="notion-card text-center py-12 text-gray-500">
+              <p>Pick a draft to keep writing, compare its revisions or publish it.</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
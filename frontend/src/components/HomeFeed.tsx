@@ -1,7 +1,8 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import SubredditProfile from './SubredditProfile'
+import { useState, useEffect, useRef } from 'react'
+import SubredditProfile, { SubredditTiming, WEEKDAYS, formatWindow, nextWindowStart } from './SubredditProfile'
+import PostComments, { RedditComment } from './PostComments'
 
 export interface RedditPost {
   id: string
@@ -19,6 +20,41 @@ export interface RedditPost {
   flair?: string
   isNSFW: boolean
   upvoteRatio: number
+  relevanceScore?: number
+  scoreBreakdown?: ScoreBreakdown
+}
+
+export interface ScoreBreakdown {
+  total: number
+  recency: { bucket: 'day' | 'week' | 'month' | 'older' | 'over_a_year'; points: number }
+  categories: { category: string; points: number }[]
+  keywords: { keyword: string; points: number }[]
+  excludes: { pattern: string; points: number }[]
+  intents: { intent: string; pattern: string; points: number }[]
+  engagement: number
+  contentType: number
+}
+
+const RECENCY_LABELS: Record<ScoreBreakdown['recency']['bucket'], string> = {
+  day: 'Posted today',
+  week: 'Posted this week',
+  month: 'Posted this month',
+  older: 'Older than a month',
+  over_a_year: 'Older than a year'
+}
+
+// Flatten a score breakdown into labelled lines for "why this post"
+function describeScore(breakdown: ScoreBreakdown): { label: string; points: number }[] {
+  const reasons = [
+    { label: RECENCY_LABELS[breakdown.recency.bucket], points: breakdown.recency.points },
+    ...breakdown.categories.map(c => ({ label: `Category: ${c.category.toLowerCase().replace(/_/g, ' ')}`, points: c.points })),
+    ...breakdown.keywords.map(k => ({ label: `Keyword "${k.keyword}"`, points: k.points })),
+    ...breakdown.intents.map(i => ({ label: `Intent: ${i.intent.toLowerCase().replace(/_/g, ' ')} ("${i.pattern}")`, points: i.points })),
+    ...breakdown.excludes.map(e => ({ label: `Excluded word "${e.pattern}"`, points: e.points })),
+    { label: 'Engagement', points: breakdown.engagement },
+    { label: 'Content type', points: breakdown.contentType }
+  ]
+  return reasons.filter(reason => reason.points !== 0)
 }
 
 export interface EngagementSuggestion {
@@ -57,39 +93,69 @@ export interface SimpleSubredditRules {
   keyRules: string[]
 }
 
+// Server-side draft of the comment being written, so it survives closing the modal or reloading
+interface CommentDraft {
+  id: string
+  parentId: string
+  content: string
+  savedAt: Date
+}
+
 interface HomeFeedProps {
-  redditId: string
+  sessionToken: string
 }
 
 // Cache for feed data to prevent re-loading
-const feedCache = new Map<string, { posts: RedditPost[], stats: any, timestamp: number }>()
+const feedCache = new Map<string, { posts: RedditPost[], stats: any, nextAfter: string | null, timestamp: number }>()
 const CACHE_DURATION = 5 * 60 * 1000 // 5 minutes
+const PAGE_SIZE = 50
+const DRAFT_AUTOSAVE_DELAY = 1500
 
-export default function HomeFeed({ redditId }: HomeFeedProps) {
+export default function HomeFeed({ sessionToken }: HomeFeedProps) {
   const [posts, setPosts] = useState<RedditPost[]>([])
   const [selectedPost, setSelectedPost] = useState<RedditPost | null>(null)
   const [suggestions, setSuggestions] = useState<EngagementSuggestion[]>([])
   const [loading, setLoading] = useState(false)
   const [loadingSuggestions, setLoadingSuggestions] = useState(false)
   const [userInput, setUserInput] = useState('')
+  // The AI suggestion the comment started from, logged with it so edited suggestions can be told apart
+  const [usedSuggestion, setUsedSuggestion] = useState<EngagementSuggestion | null>(null)
+  // datetime-local value in the browser's time zone; empty posts right away
+  const [scheduleAt, setScheduleAt] = useState('')
+  const [draft, setDraft] = useState<CommentDraft | null>(null)
+  // Saves read the draft from here, since a delayed autosave would otherwise see the draft as
+  // it was when the timer started. A draft being created is kept too, so saves wait for it.
+  const draftRef = useRef<CommentDraft | null>(null)
+  const draftCreateRef = useRef<{ parentId: string, request: Promise<string | null> } | null>(null)
+  const [replyTo, setReplyTo] = useState<RedditComment | null>(null)
   const [voiceInput, setVoiceInput] = useState(false)
   const [showModal, setShowModal] = useState(false)
   const [activeFilter, setActiveFilter] = useState('')
   const [subscribedSubreddits, setSubscribedSubreddits] = useState<any[]>([])
   const [feedStats, setFeedStats] = useState<any>(null)
+  const [nextAfter, setNextAfter] = useState<string | null>(null)
+  const [queryInput, setQueryInput] = useState('')
+  const [feedQuery, setFeedQuery] = useState('')
+  const [queryError, setQueryError] = useState<{ message: string; position: number } | null>(null)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [leadPostIds, setLeadPostIds] = useState<Set<string>>(new Set())
+  const [savingLeadId, setSavingLeadId] = useState<string | null>(null)
   const [showSubredditProfile, setShowSubredditProfile] = useState(false)
   const [selectedSubreddit, setSelectedSubreddit] = useState<string>('')
   const [isInitialized, setIsInitialized] = useState(false)
   const [showSubredditsDropdown, setShowSubredditsDropdown] = useState(false)
   const [subredditRules, setSubredditRules] = useState<SimpleSubredditRules | null>(null)
   const [loadingRules, setLoadingRules] = useState(false)
-  const [selectedFlair, setSelectedFlair] = useState<string | null>(null)
+  // Set when the user's recent posts in the subreddit were removed or hidden
+  const [removalWarning, setRemovalWarning] = useState<string | null>(null)
+  // When posts in the subreddit do best, offered as times to schedule for
+  const [postingTimes, setPostingTimes] = useState<SubredditTiming | null>(null)
   const [ruleViolations, setRuleViolations] = useState<string[]>([])
   const [showRulesPanel, setShowRulesPanel] = useState(true)
 
-  const fetchHomeFeed = async (subredditFilter = activeFilter, forceRefresh = false) => {
+  const fetchHomeFeed = async (subredditFilter = activeFilter, forceRefresh = false, query = feedQuery) => {
     // Check cache first
-    const cacheKey = `${redditId}-${subredditFilter}`
+    const cacheKey = `${sessionToken}-${subredditFilter}-${query}`
     const cached = feedCache.get(cacheKey)
     const now = Date.now()
     
@@ -98,6 +164,7 @@ export default function HomeFeed({ redditId }: HomeFeedProps) {
       console.log('Using cached feed data')
       setPosts(cached.posts)
       setFeedStats(cached.stats)
+      setNextAfter(cached.nextAfter)
       return
     }
     
@@ -105,24 +172,29 @@ export default function HomeFeed({ redditId }: HomeFeedProps) {
     
     setLoading(true)
     try {
-      console.log('Fetching home feed with subreddit filter:', subredditFilter, 'for redditId:', redditId)
+      console.log('Fetching home feed with subreddit filter:', subredditFilter)
       
-      const url = subredditFilter 
-        ? `http://localhost:3001/api/homefeed?subreddit=${subredditFilter}&limit=300`
-        : `http://localhost:3001/api/homefeed?limit=300`
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) })
+      if (subredditFilter) params.set('subreddit', subredditFilter)
+      if (query) params.set('q', query)
       
-      const response = await fetch(url, {
+      const response = await fetch(`http://localhost:3001/api/homefeed?${params}`, {
         headers: {
-          'x-reddit-id': redditId
+          'Authorization': `Bearer ${sessionToken}`
         }
       })
       
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}))
+        if (response.status === 400 && errorData.details) {
+          setQueryError(errorData.details)
+          return
+        }
         throw new Error(errorData.message || `Failed to fetch home feed: ${response.status}`)
       }
       
       const data = await response.json()
+      setQueryError(null)
       
       if (!data.success || !data.posts) {
         throw new Error(data.message || 'Invalid response from server')
@@ -144,12 +216,14 @@ export default function HomeFeed({ redditId }: HomeFeedProps) {
         feedCache.set(cacheKey, {
           posts: processedPosts,
           stats,
+          nextAfter: data.nextAfter || null,
           timestamp: now
         })
       }
       
       setPosts(processedPosts)
       setFeedStats(stats)
+      setNextAfter(data.nextAfter || null)
       
       console.log(`Successfully loaded ${processedPosts.length} posts`)
     } catch (error) {
@@ -159,7 +233,8 @@ export default function HomeFeed({ redditId }: HomeFeedProps) {
       feedCache.delete(cacheKey)
       
       // Show more specific error messages
-      if (error.message?.includes('User not found') || error.message?.includes('access_token')) {
+      const message = error instanceof Error ? error.message : ''
+      if (message.includes('User not found') || message.includes('access_token') || message.includes('re-authentication')) {
         console.error('Authentication error - user may need to re-authenticate')
         setFeedStats({ totalScanned: 0, filtered: 0, efficiency: 0, error: 'Authentication required' })
       } else {
@@ -170,11 +245,50 @@ export default function HomeFeed({ redditId }: HomeFeedProps) {
     }
   }
 
+  const loadMorePosts = async () => {
+    if (!nextAfter || loadingMore) return
+
+    setLoadingMore(true)
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), after: nextAfter })
+      if (activeFilter) params.set('subreddit', activeFilter)
+      if (feedQuery) params.set('q', feedQuery)
+
+      const response = await fetch(`http://localhost:3001/api/homefeed?${params}`, {
+        headers: {
+          'Authorization': `Bearer ${sessionToken}`
+        }
+      })
+
+      if (!response.ok) {
+        throw new Error(`Failed to load more posts: ${response.status}`)
+      }
+
+      const data = await response.json()
+      const morePosts = (data.posts || []).map((post: any) => ({
+        ...post,
+        created: new Date(post.created)
+      }))
+
+      setPosts(prev => [...prev, ...morePosts.filter((post: RedditPost) => !prev.some(p => p.id === post.id))])
+      setNextAfter(data.nextAfter || null)
+      setFeedStats((prev: any) => prev && ({
+        ...prev,
+        totalScanned: prev.totalScanned + (data.totalScanned || 0),
+        filtered: prev.filtered + morePosts.length
+      }))
+    } catch (error) {
+      console.error('Failed to load more posts:', error)
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
   const fetchSubscribedSubreddits = async () => {
     try {
       const response = await fetch('http://localhost:3001/api/homefeed/subreddits', {
         headers: {
-          'x-reddit-id': redditId
+          'Authorization': `Bearer ${sessionToken}`
         }
       })
       
@@ -190,6 +304,76 @@ export default function HomeFeed({ redditId }: HomeFeedProps) {
     }
   }
 
+  const updateSubredditWeight = async (subredditName: string, weight: string) => {
+    try {
+      const response = await fetch(`http://localhost:3001/api/homefeed/subscriptions/${encodeURIComponent(subredditName)}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${sessionToken}`
+        },
+        body: JSON.stringify({ weight })
+      })
+
+      if (!response.ok) {
+        console.error('Failed to update subreddit weight')
+        return
+      }
+
+      setSubscribedSubreddits(prev => prev.map(sub => sub.name === subredditName ? { ...sub, weight } : sub))
+      fetchHomeFeed(activeFilter, true)
+    } catch (error) {
+      console.error('Failed to update subreddit weight:', error)
+    }
+  }
+
+  const fetchLeadPostIds = async () => {
+    try {
+      const response = await fetch('http://localhost:3001/api/leads?limit=200', {
+        headers: {
+          'Authorization': `Bearer ${sessionToken}`
+        }
+      })
+
+      if (!response.ok) {
+        console.error('Failed to fetch leads')
+        return
+      }
+
+      const data = await response.json()
+      setLeadPostIds(new Set((data.leads || []).map((lead: any) => lead.postId)))
+    } catch (error) {
+      console.error('Failed to fetch leads:', error)
+    }
+  }
+
+  const saveAsLead = async (post: RedditPost) => {
+    setSavingLeadId(post.id)
+    try {
+      const response = await fetch('http://localhost:3001/api/leads', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${sessionToken}`
+        },
+        body: JSON.stringify({ postId: post.id })
+      })
+
+      // 409 means the post was already saved
+      if (!response.ok && response.status !== 409) {
+        const data = await response.json().catch(() => ({}))
+        alert(`Failed to save lead: ${data.error || response.statusText}`)
+        return
+      }
+
+      setLeadPostIds(prev => new Set(prev).add(post.id))
+    } catch (error) {
+      console.error('Failed to save lead:', error)
+    } finally {
+      setSavingLeadId(null)
+    }
+  }
+
   const handleSubredditFilter = (subredditName: string) => {
     if (subredditName === activeFilter) return // Prevent unnecessary requests
     setActiveFilter(subredditName)
@@ -197,6 +381,20 @@ export default function HomeFeed({ redditId }: HomeFeedProps) {
     fetchHomeFeed(subredditName, true)
   }
 
+  const applyQuery = (e: React.FormEvent) => {
+    e.preventDefault()
+    const query = queryInput.trim()
+    setFeedQuery(query)
+    fetchHomeFeed(activeFilter, true, query)
+  }
+
+  const clearQuery = () => {
+    setQueryInput('')
+    setFeedQuery('')
+    setQueryError(null)
+    fetchHomeFeed(activeFilter, true, '')
+  }
+
   const clearFilter = () => {
     setActiveFilter('')
     // Force refresh to bypass cache when clearing filter
@@ -208,9 +406,139 @@ export default function HomeFeed({ redditId }: HomeFeedProps) {
     setShowModal(true)
     setSuggestions([])
     setUserInput('')
-    setSelectedFlair(null)
+    setUsedSuggestion(null)
+    setScheduleAt('')
+    setReplyTo(null)
     setRuleViolations([])
     fetchSubredditRules(post.subreddit)
+    fetchRemovalWarning(post.subreddit)
+    fetchPostingTimes(post.subreddit)
+    resumeDraft(post)
+  }
+
+  const updateDraft = (next: CommentDraft | null) => {
+    draftRef.current = next
+    setDraft(next)
+  }
+
+  const rememberDraft = (saved: any) => {
+    updateDraft({ id: saved.id, parentId: saved.parentId, content: saved.content, savedAt: new Date(saved.updatedAt) })
+  }
+
+  const resumeDraft = async (post: RedditPost) => {
+    updateDraft(null)
+    try {
+      const response = await fetch(`http://localhost:3001/api/drafts?status=draft&postId=${post.id}`, {
+        headers: { 'Authorization': `Bearer ${sessionToken}` }
+      })
+      if (!response.ok) return
+
+      // Replies to comments are resumed from the Drafts tab, since the comment isn't loaded here
+      const data = await response.json()
+      const saved = data.drafts.find((candidate: any) => candidate.parentId === `t3_${post.id}`)
+      if (!saved) return
+
+      rememberDraft(saved)
+      setUserInput(current => current || saved.content)
+    } catch (error) {
+      console.error('Failed to resume draft:', error)
+    }
+  }
+
+  /**
+   * Save text to the draft for the current post or reply, starting one if needed. Returns the draft ID.
+   */
+  const saveDraft = async (
+    content: string,
+    source: 'user' | 'ai_refined' | 'suggestion' = 'user',
+    suggestion?: EngagementSuggestion
+  ): Promise<string | null> => {
+    if (!selectedPost) return null
+
+    const parentId = replyTo ? `t1_${replyTo.id}` : `t3_${selectedPost.id}`
+    const creating = draftCreateRef.current
+    if (creating && creating.parentId === parentId) await creating.request
+
+    const current = draftRef.current
+    const existingId = current && current.parentId === parentId ? current.id : null
+    if (existingId && current?.content === content && source === 'user') return existingId
+
+    const request = sendDraft(existingId, parentId, content, source, suggestion)
+    if (!existingId) {
+      draftCreateRef.current = { parentId, request }
+      request.finally(() => {
+        if (draftCreateRef.current?.request === request) draftCreateRef.current = null
+      })
+    }
+    return request
+  }
+
+  const sendDraft = async (
+    existingId: string | null,
+    parentId: string,
+    content: string,
+    source: 'user' | 'ai_refined' | 'suggestion',
+    suggestion?: EngagementSuggestion
+  ): Promise<string | null> => {
+    if (!selectedPost) return null
+
+    try {
+      const response = await fetch(`http://localhost:3001/api/drafts${existingId ? `/${existingId}` : ''}`, {
+        method: existingId ? 'PATCH' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${sessionToken}`
+        },
+        body: JSON.stringify({
+          type: 'comment',
+          subreddit: selectedPost.subreddit,
+          postId: selectedPost.id,
+          parentId,
+          content,
+          source,
+          suggestion: suggestion ? { content: suggestion.content, type: suggestion.type } : undefined
+        })
+      })
+      if (!response.ok) return null
+
+      const data = await response.json()
+      rememberDraft(data.draft)
+      return data.draft.id
+    } catch (error) {
+      console.error('Failed to save draft:', error)
+      return null
+    }
+  }
+
+  const fetchRemovalWarning = async (subreddit: string) => {
+    setRemovalWarning(null)
+    try {
+      const response = await fetch(`http://localhost:3001/api/actions/removals?subreddit=${encodeURIComponent(subreddit)}`, {
+        headers: { 'Authorization': `Bearer ${sessionToken}` }
+      })
+      if (!response.ok) return
+
+      const data = await response.json()
+      setRemovalWarning(data.warning)
+    } catch (error) {
+      console.error('Failed to fetch removal warning:', error)
+    }
+  }
+
+  const fetchPostingTimes = async (subreddit: string) => {
+    setPostingTimes(null)
+    try {
+      const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone
+      const response = await fetch(`http://localhost:3001/api/subreddit/${subreddit}/timing?timeZone=${encodeURIComponent(timeZone)}`, {
+        headers: { 'Authorization': `Bearer ${sessionToken}` }
+      })
+      if (!response.ok) return
+
+      const data = await response.json()
+      setPostingTimes(data.timing)
+    } catch (error) {
+      console.error('Failed to fetch posting times:', error)
+    }
   }
 
   const fetchSubredditRules = async (subreddit: string) => {
@@ -218,7 +546,7 @@ export default function HomeFeed({ redditId }: HomeFeedProps) {
     try {
       const response = await fetch(`http://localhost:3001/api/homefeed/subreddit-rules/${subreddit}`, {
         headers: {
-          'x-reddit-id': redditId
+          'Authorization': `Bearer ${sessionToken}`
         }
       })
       
@@ -243,10 +571,6 @@ export default function HomeFeed({ redditId }: HomeFeedProps) {
       violations.push(`Comment must be at least ${subredditRules.minLength} characters`)
     }
     
-    if (subredditRules.flairRequired && !selectedFlair) {
-      violations.push('Flair selection is required for this subreddit')
-    }
-    
     return violations
   }
 
@@ -259,7 +583,7 @@ export default function HomeFeed({ redditId }: HomeFeedProps) {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'x-reddit-id': redditId
+          'Authorization': `Bearer ${sessionToken}`
         },
         body: JSON.stringify({ postId: selectedPost.id })
       })
@@ -281,22 +605,26 @@ export default function HomeFeed({ redditId }: HomeFeedProps) {
     setLoading(true)
     
     try {
+      // The server keeps both the text as written and the rewrite in the draft's history
+      const draftId = await saveDraft(userInput)
       const response = await fetch('http://localhost:3001/api/homefeed/improve-comment', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'x-reddit-id': redditId
+          'Authorization': `Bearer ${sessionToken}`
         },
         body: JSON.stringify({ 
           postId: selectedPost.id, 
-          userComment: userInput.trim()
+          userComment: userInput.trim(),
+          draftId
         })
       })
       
       if (!response.ok) throw new Error('Failed to improve comment')
       
       const data = await response.json()
-      setUserInput(data.improvedComment)
+      if (data.draft) rememberDraft(data.draft)
+      setUserInput(data.improvedComment.content)
     } catch (error) {
       console.error('Failed to improve comment:', error)
       alert('Failed to improve comment. Please try again.')
@@ -314,7 +642,8 @@ export default function HomeFeed({ redditId }: HomeFeedProps) {
       return
     }
     
-    const confirmMessage = `Post this comment to r/${selectedPost?.subreddit}?${selectedFlair ? `\nFlair: ${selectedFlair}` : ''}\n\n"${userInput.substring(0, 200)}..."`
+    const target = replyTo ? `this reply to u/${replyTo.author} in` : 'this comment to'
+    const confirmMessage = `Post ${target} r/${selectedPost?.subreddit}?\n\n"${userInput.substring(0, 200)}..."`
     const confirmed = window.confirm(confirmMessage)
     
     if (!confirmed) return
@@ -324,12 +653,14 @@ export default function HomeFeed({ redditId }: HomeFeedProps) {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'x-reddit-id': redditId
+          'Authorization': `Bearer ${sessionToken}`
         },
         body: JSON.stringify({ 
           postId: selectedPost?.id, 
+          parentId: replyTo ? `t1_${replyTo.id}` : undefined,
           content: userInput.trim(),
-          flair: selectedFlair || null
+          suggestion: usedSuggestion ? { content: usedSuggestion.content, type: usedSuggestion.type } : undefined,
+          draftId: draftRef.current?.parentId === (replyTo ? `t1_${replyTo.id}` : `t3_${selectedPost.id}`) ? draftRef.current.id : undefined
         })
       })
       
@@ -340,7 +671,9 @@ export default function HomeFeed({ redditId }: HomeFeedProps) {
       setShowModal(false)
       setSuggestions([])
       setUserInput('')
-      setSelectedFlair(null)
+      setUsedSuggestion(null)
+      updateDraft(null)
+      setReplyTo(null)
       setRuleViolations([])
     } catch (error) {
       console.error('Failed to post comment:', error)
@@ -348,6 +681,61 @@ export default function HomeFeed({ redditId }: HomeFeedProps) {
     }
   }
 
+  const scheduleComment = async () => {
+    if (!selectedPost || !userInput.trim() || !scheduleAt) return
+
+    const violations = validateComment(userInput)
+    if (violations.length > 0) {
+      alert(`Cannot schedule comment due to rule violations:\n\n${violations.join('\n')}`)
+      return
+    }
+
+    try {
+      const response = await fetch('http://localhost:3001/api/actions/schedule', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${sessionToken}`
+        },
+        body: JSON.stringify({
+          type: 'comment',
+          title: '',
+          content: userInput.trim(),
+          targetSubreddit: selectedPost.subreddit,
+          parentId: replyTo ? `t1_${replyTo.id}` : `t3_${selectedPost.id}`,
+          suggestion: usedSuggestion ? { content: usedSuggestion.content, type: usedSuggestion.type } : undefined,
+          runAt: scheduleAt,
+          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        alert(`Failed to schedule comment:\n\n${data.details?.join('\n') || data.error}`)
+        return
+      }
+
+      alert(`Comment scheduled for ${new Date(data.scheduled.runAt).toLocaleString()}`)
+      // The scheduled comment holds the text now; a leftover draft would be resumed next time
+      if (draftRef.current) {
+        fetch(`http://localhost:3001/api/drafts/${draftRef.current.id}`, {
+          method: 'DELETE',
+          headers: { 'Authorization': `Bearer ${sessionToken}` }
+        }).catch(error => console.error('Failed to discard scheduled draft:', error))
+        updateDraft(null)
+      }
+      setShowModal(false)
+      setSuggestions([])
+      setUserInput('')
+      setUsedSuggestion(null)
+      setScheduleAt('')
+      setReplyTo(null)
+    } catch (error) {
+      console.error('Failed to schedule comment:', error)
+      alert('Failed to schedule comment. Please try again.')
+    }
+  }
+
   const startVoiceInput = () => {
     if (!('webkitSpeechRecognition' in window) && !('SpeechRecognition' in window)) {
       alert('Speech recognition not supported in this browser')
@@ -380,13 +768,25 @@ export default function HomeFeed({ redditId }: HomeFeedProps) {
     recognition.start()
   }
 
+  // Autosave the comment being written once typing pauses
   useEffect(() => {
-    if (!isInitialized && redditId) {
+    if (!showModal || !selectedPost || !userInput.trim()) return
+    const parentId = replyTo ? `t1_${replyTo.id}` : `t3_${selectedPost.id}`
+    const current = draftRef.current
+    if (current && current.parentId === parentId && current.content === userInput) return
+
+    const timer = setTimeout(() => saveDraft(userInput), DRAFT_AUTOSAVE_DELAY)
+    return () => clearTimeout(timer)
+  }, [userInput, replyTo, showModal])
+
+  useEffect(() => {
+    if (!isInitialized && sessionToken) {
       setIsInitialized(true)
       fetchSubscribedSubreddits()
+      fetchLeadPostIds()
       fetchHomeFeed()
     }
-  }, [redditId, isInitialized])
+  }, [sessionToken, isInitialized])
 
   const getRelativeTime = (date: Date) => {
     const now = new Date()
@@ -506,43 +906,55 @@ export default function HomeFeed({ redditId }: HomeFeedProps) {
                             const isActive = activeFilter === subreddit.name
                             
                             return (
-                              <button
-                                key={subreddit.name}
-                                onClick={() => {
-                                  handleSubredditFilter(subreddit.name)
-                                  setShowSubredditsDropdown(false)
-                                }}
-                                className={`w-full p-3 rounded-xl text-left transition-all duration-200 hover:scale-[1.01] ${
-                                  isActive 
-                                    ? 'bg-gradient-to-r from-violet-50 to-indigo-50 border-2 border-violet-200 shadow-md' 
-                                    : 'bg-white/60 border border-slate-200/60 hover:bg-slate-50/80 hover:border-slate-300/60'
-                                }`}
-                              >
-                                <div className="flex items-center space-x-3">
-                                  <div className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold ${
-                                    isActive ? 'bg-violet-100 text-violet-600' : 'bg-slate-100 text-slate-600'
-                                  }`}>
-                                    r/
-                                  </div>
-                                  <div className="flex-1">
-                                    <div className="flex items-center justify-between">
-                                      <span className={`font-medium text-sm ${
-                                        isActive ? 'text-violet-900' : 'text-slate-800'
+                              <div key={subreddit.name} className="flex items-center space-x-2">
+                                <button
+                                  onClick={() => {
+                                    handleSubredditFilter(subreddit.name)
+                                    setShowSubredditsDropdown(false)
+                                  }}
+                                  className={`flex-1 min-w-0 p-3 rounded-xl text-left transition-all duration-200 hover:scale-[1.01] ${
+                                    isActive 
+                                      ? 'bg-gradient-to-r from-violet-50 to-indigo-50 border-2 border-violet-200 shadow-md' 
+                                      : 'bg-white/60 border border-slate-200/60 hover:bg-slate-50/80 hover:border-slate-300/60'
+                                  }`}
+                                >
+                                  <div className="flex items-center space-x-3">
+                                    <div className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold ${
+                                      isActive ? 'bg-violet-100 text-violet-600' : 'bg-slate-100 text-slate-600'
+                                    }`}>
+                                      r/
+                                    </div>
+                                    <div className="flex-1">
+                                      <div className="flex items-center justify-between">
+                                        <span className={`font-medium text-sm ${
+                                          isActive ? 'text-violet-900' : 'text-slate-800'
+                                        }`}>
+                                          {subreddit.name}
+                                        </span>
+                                        <span className="text-xs text-slate-500">
+                                          {subreddit.subscribers ? `${Math.round(subreddit.subscribers/1000)}k` : ''}
+                                        </span>
+                                      </div>
+                                      <p className={`text-xs leading-relaxed mt-1 line-clamp-2 ${
+                                        isActive ? 'text-violet-700/80' : 'text-slate-500'
                                       }`}>
-                                        {subreddit.name}
-                                      </span>
-                                      <span className="text-xs text-slate-500">
-                                        {subreddit.subscribers ? `${Math.round(subreddit.subscribers/1000)}k` : ''}
-                                      </span>
+                                        {subreddit.title || subreddit.description || `Posts from r/${subreddit.name}`}
+                                      </p>
                                     </div>
-                                    <p className={`text-xs leading-relaxed mt-1 line-clamp-2 ${
-                                      isActive ? 'text-violet-700/80' : 'text-slate-500'
-                                    }`}>
-                                      {subreddit.title || subreddit.description || `Posts from r/${subreddit.name}`}
-                                    </p>
                                   </div>
-                                </div>
-                              </button>
+                                </button>
+                                <select
+                                  value={subreddit.weight || 'normal'}
+                                  onChange={(e) => updateSubredditWeight(subreddit.name, e.target.value)}
+                                  title="How much of this subreddit to show in your feed"
+                                  className="text-xs border border-slate-200 rounded-lg px-1.5 py-1 bg-white text-slate-600"
+                                >
+                                  <option value="pinned">📌 Pinned</option>
+                                  <option value="boosted">⬆️ Boosted</option>
+                                  <option value="normal">Normal</option>
+                                  <option value="muted">🔇 Muted</option>
+                                </select>
+                              </div>
                             )
                           })}
                           
@@ -579,6 +991,42 @@ export default function HomeFeed({ redditId }: HomeFeedProps) {
             </div>
           </div>
 
+          {/* Query Filter Bar */}
+          <div className="px-6 pt-4">
+            <form onSubmit={applyQuery} className="flex items-center space-x-2">
+              <input
+                type="text"
+                value={queryInput}
+                onChange={(e) => setQueryInput(e.target.value)}
+                placeholder='e.g. subreddit:(saas OR startups) AND intent:TOOL_REQUESTS AND score>10 AND age<2d'
+                className={`flex-1 px-3 py-2 text-sm font-mono border rounded-xl bg-white focus:outline-none focus:ring-2 ${
+                  queryError ? 'border-red-300 focus:ring-red-200' : 'border-slate-200 focus:ring-violet-200'
+                }`}
+              />
+              <button
+                type="submit"
+                disabled={loading}
+                className="px-4 py-2 bg-slate-800 text-white rounded-xl text-sm font-medium hover:bg-slate-900 disabled:opacity-50 transition-colors"
+              >
+                Filter
+              </button>
+              {feedQuery && (
+                <button
+                  type="button"
+                  onClick={clearQuery}
+                  className="px-3 py-2 text-sm text-slate-600 hover:text-slate-800"
+                >
+                  Clear
+                </button>
+              )}
+            </form>
+            {queryError && (
+              <p className="mt-1 text-xs text-red-600">
+                {queryError.message} (at character {queryError.position + 1})
+              </p>
+            )}
+          </div>
+
           {/* Posts Content */}
           <div className="px-6 py-4">
             <div>
@@ -673,12 +1121,41 @@ export default function HomeFeed({ redditId }: HomeFeedProps) {
                             <span>✨</span>
                             <span>Comment with AI</span>
                           </button>
+
+                          <button
+                            className={`w-full px-3 py-2 rounded-xl text-sm font-medium border transition-all duration-200 flex items-center justify-center space-x-1.5 ${
+                              leadPostIds.has(post.id)
+                                ? 'bg-emerald-50 border-emerald-200 text-emerald-700 cursor-default'
+                                : 'bg-white border-slate-200 text-slate-700 hover:bg-slate-50'
+                            }`}
+                            disabled={leadPostIds.has(post.id) || savingLeadId === post.id}
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              saveAsLead(post)
+                            }}
+                          >
+                            <span>{leadPostIds.has(post.id) ? '✓' : '📌'}</span>
+                            <span>
+                              {leadPostIds.has(post.id) ? 'Saved as lead' : savingLeadId === post.id ? 'Saving...' : 'Save as lead'}
+                            </span>
+                          </button>
                         </div>
                       </div>
                     </div>
                   ))}
                 </div>
               )}
+              {posts.length > 0 && nextAfter && (
+                <div className="flex justify-center mt-6">
+                  <button
+                    onClick={loadMorePosts}
+                    disabled={loadingMore}
+                    className="px-6 py-2 bg-white border border-slate-200 text-slate-700 rounded-xl text-sm font-medium hover:bg-slate-50 disabled:opacity-50 transition-colors"
+                  >
+                    {loadingMore ? 'Loading...' : 'Load more posts'}
+                  </button>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -705,6 +1182,7 @@ export default function HomeFeed({ redditId }: HomeFeedProps) {
                     setShowModal(false)
                     setSuggestions([])
                     setUserInput('')
+                    setUsedSuggestion(null)
                   }}
                   className="text-gray-400 hover:text-gray-600 p-1 rounded-lg hover:bg-gray-100 transition-colors"
                 >
@@ -760,6 +1238,9 @@ export default function HomeFeed({ redditId }: HomeFeedProps) {
                     )}
                   </div>
 
+                  {/* Existing comments, so replies don't repeat what's been said */}
+                  <PostComments postId={selectedPost.id} sessionToken={sessionToken} onReply={setReplyTo} />
+
                   {/* Opportunity Analysis */}
                   <div className="bg-gradient-to-r from-violet-50 to-indigo-50 rounded-lg p-4">
                     <h4 className="text-sm font-medium text-gray-700 mb-2 flex items-center">
@@ -781,6 +1262,21 @@ export default function HomeFeed({ redditId }: HomeFeedProps) {
                           </div>
                         </div>
                       </div>
+                      {selectedPost.scoreBreakdown && (
+                        <div className="mt-3 pt-3 border-t border-violet-100">
+                          <span className="text-xs text-gray-500">Why this post</span>
+                          <ul className="mt-1 space-y-1">
+                            {describeScore(selectedPost.scoreBreakdown).map((reason, index) => (
+                              <li key={index} className="flex justify-between text-xs">
+                                <span className="text-gray-700">{reason.label}</span>
+                                <span className={reason.points > 0 ? 'text-green-600 font-medium' : 'text-red-600 font-medium'}>
+                                  {reason.points > 0 ? `+${reason.points}` : reason.points}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -820,7 +1316,11 @@ export default function HomeFeed({ redditId }: HomeFeedProps) {
                             <p className="text-sm text-gray-800 mb-2">{suggestion.content}</p>
                             <p className="text-xs text-gray-600">{suggestion.reasoning}</p>
                             <button
-                              onClick={() => setUserInput(suggestion.content)}
+                              onClick={() => {
+                                setUserInput(suggestion.content)
+                                setUsedSuggestion(suggestion)
+                                saveDraft(suggestion.content, 'suggestion', suggestion)
+                              }}
                               className="mt-2 text-xs text-violet-600 hover:text-violet-800 font-medium"
                             >
                               Use This Suggestion →
@@ -838,6 +1338,13 @@ export default function HomeFeed({ redditId }: HomeFeedProps) {
                     )}
                   </div>
 
+                  {removalWarning && (
+                    <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-start space-x-2">
+                      <span className="text-red-500 text-sm">🚫</span>
+                      <p className="text-sm text-red-700">{removalWarning}</p>
+                    </div>
+                  )}
+
                   {/* Subreddit Rules Panel */}
                   {showRulesPanel && (
                     <div className="bg-gradient-to-r from-amber-50 to-orange-50 border border-amber-200 rounded-lg p-4">
@@ -861,30 +1368,6 @@ export default function HomeFeed({ redditId }: HomeFeedProps) {
                         </div>
                       ) : subredditRules ? (
                         <div className="space-y-3">
-                          {/* Flair Selection - Simplified */}
-                          {subredditRules.commonFlairs && subredditRules.commonFlairs.length > 0 && (
-                            <div className="space-y-2">
-                              <label className="text-xs font-medium text-gray-700">
-                                Select Flair {subredditRules.flairRequired && <span className="text-red-500">*</span>}
-                              </label>
-                              <div className="grid grid-cols-2 gap-2">
-                                {subredditRules.commonFlairs.slice(0, 4).map((flair, index) => (
-                                  <button
-                                    key={index}
-                                    onClick={() => setSelectedFlair(selectedFlair === flair ? null : flair)}
-                                    className={`px-3 py-2 text-xs rounded-lg border transition-all ${
-                                      selectedFlair === flair
-                                        ? 'bg-violet-100 border-violet-300 text-violet-700'
-                                        : 'bg-white border-gray-200 text-gray-700 hover:border-violet-200'
-                                    }`}
-                                  >
-                                    {flair}
-                                  </button>
-                                ))}
-                              </div>
-                            </div>
-                          )}
-                          
                           {/* Key Rules - Simplified */}
                           <div className="space-y-2">
                             <label className="text-xs font-medium text-gray-700">Key Rules</label>
@@ -916,12 +1399,29 @@ export default function HomeFeed({ redditId }: HomeFeedProps) {
                   <div>
                     <h4 className="text-sm font-medium text-gray-700 mb-3 flex items-center">
                       <span className="mr-2">💬</span>
-                      Write Your Comment
+                      {replyTo ? 'Write Your Reply' : 'Write Your Comment'}
                       {userInput && (
                         <span className="ml-2 text-xs text-gray-500">({userInput.length} chars)</span>
                       )}
+                      {draft && draft.content === userInput && (
+                        <span className="ml-2 text-xs text-gray-400">· Draft saved {draft.savedAt.toLocaleTimeString()}</span>
+                      )}
                     </h4>
                     <div className="space-y-3">
+                      {replyTo && (
+                        <div className="flex items-start justify-between bg-violet-50 border border-violet-200 rounded-lg p-3">
+                          <div className="text-xs text-gray-700 min-w-0">
+                            <span className="font-medium text-violet-700">Replying to u/{replyTo.author}</span>
+                            <p className="mt-1 text-gray-600 line-clamp-2">{replyTo.body}</p>
+                          </div>
+                          <button
+                            onClick={() => setReplyTo(null)}
+                            className="ml-3 text-xs text-gray-500 hover:text-gray-700 flex-shrink-0"
+                          >
+                            Reply to post instead
+                          </button>
+                        </div>
+                      )}
                       <textarea
                         value={userInput}
                         onChange={(e) => {
@@ -981,6 +1481,39 @@ export default function HomeFeed({ redditId }: HomeFeedProps) {
                           {loading ? 'Posting...' : '🚀 Post Comment'}
                         </button>
                       </div>
+                      <div className="flex items-center space-x-2">
+                        <input
+                          type="datetime-local"
+                          value={scheduleAt}
+                          onChange={(e) => setScheduleAt(e.target.value)}
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700"
+                        />
+                        <button
+                          onClick={scheduleComment}
+                          disabled={!userInput.trim() || !scheduleAt || loading || ruleViolations.length > 0}
+                          className="px-4 py-2 bg-white border border-emerald-600 text-emerald-700 text-sm rounded-lg hover:bg-emerald-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                          🕒 Schedule
+                        </button>
+                      </div>
+                      {postingTimes && postingTimes.windows.length > 0 && (
+                        <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600">
+                          <span>
+                            Best times in r/{selectedPost.subreddit}
+                            {postingTimes.bestWeekdays.length > 0 && ` (${postingTimes.bestWeekdays.map((day) => WEEKDAYS[day]).join(', ')})`}:
+                          </span>
+                          {postingTimes.windows.map((window) => (
+                            <button
+                              key={window.startHour}
+                              onClick={() => setScheduleAt(nextWindowStart(window, postingTimes.bestWeekdays))}
+                              title={`${window.scoreIndex}× score and ${window.velocityIndex}× comment velocity for ${window.volumeIndex}× the posts`}
+                              className="px-2 py-1 bg-emerald-50 text-emerald-700 rounded-full hover:bg-emerald-100"
+                            >
+                              {formatWindow(window)}
+                            </button>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -994,7 +1527,7 @@ export default function HomeFeed({ redditId }: HomeFeedProps) {
       {showSubredditProfile && selectedSubreddit && (
         <SubredditProfile
           subredditName={selectedSubreddit}
-          redditId={redditId}
+          sessionToken={sessionToken}
           onClose={() => {
             setShowSubredditProfile(false)
             setSelectedSubreddit('')
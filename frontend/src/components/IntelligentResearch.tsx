@@ -79,10 +79,10 @@ interface IntelligentResearchResponse {
 }
 
 interface IntelligentResearchProps {
-  redditId: string
+  sessionToken: string
 }
 
-export default function IntelligentResearch({ redditId }: IntelligentResearchProps) {
+export default function IntelligentResearch({ sessionToken }: IntelligentResearchProps) {
   const [input, setInput] = useState('')
   const [isResearching, setIsResearching] = useState(false)
   const [results, setResults] = useState<IntelligentResearchResponse | null>(null)
@@ -101,7 +101,7 @@ export default function IntelligentResearch({ redditId }: IntelligentResearchPro
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'x-reddit-id': redditId
+          'Authorization': `Bearer ${sessionToken}`
         },
         body: JSON.stringify({ input: input.trim() })
       })
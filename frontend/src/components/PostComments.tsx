@@ -0,0 +1,240 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+
+interface MoreComments {
+  parentId: string
+  count: number
+  children: string[]
+}
+
+export interface RedditComment {
+  id: string
+  parentId: string
+  author: string
+  body: string
+  score: number
+  created: Date
+  permalink: string
+  depth: number
+  isSubmitter: boolean
+  stickied: boolean
+  distinguished: string | null
+  edited: boolean
+  replies: RedditComment[]
+  more: MoreComments | null
+}
+
+interface PostCommentsProps {
+  postId: string
+  sessionToken: string
+  onReply?: (comment: RedditComment) => void
+}
+
+const SORT_OPTIONS = [
+  { value: 'confidence', label: 'Best' },
+  { value: 'top', label: 'Top' },
+  { value: 'new', label: 'New' },
+  { value: 'controversial', label: 'Controversial' },
+  { value: 'old', label: 'Old' },
+  { value: 'qa', label: 'Q&A' }
+]
+const DEPTH = 4
+// The API loads at most this many comments behind a "more" link per request
+const MORE_BATCH = 100
+
+const parseComments = (comments: any[]): RedditComment[] =>
+  comments.map(comment => ({
+    ...comment,
+    created: new Date(comment.created),
+    replies: parseComments(comment.replies || [])
+  }))
+
+// Apply `update` to the comment with the given fullname, wherever it is in the tree
+const updateComment = (
+  comments: RedditComment[],
+  fullname: string,
+  update: (comment: RedditComment) => RedditComment
+): RedditComment[] =>
+  comments.map(comment =>
+    `t1_${comment.id}` === fullname
+      ? update(comment)
+      : { ...comment, replies: updateComment(comment.replies, fullname, update) }
+  )
+
+export default function PostComments({ postId, sessionToken, onReply }: PostCommentsProps) {
+  const [comments, setComments] = useState<RedditComment[]>([])
+  const [more, setMore] = useState<MoreComments | null>(null)
+  const [sort, setSort] = useState('confidence')
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [loadingMoreFor, setLoadingMoreFor] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchComments()
+  }, [postId, sort])
+
+  const fetchComments = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({ sort, depth: String(DEPTH), limit: '100' })
+      const response = await fetch(`http://localhost:3001/api/posts/${postId}/comments?${params}`, {
+        headers: { 'Authorization': `Bearer ${sessionToken}` }
+      })
+
+      if (!response.ok) {
+        setError(response.status === 404 ? 'Post not found' : 'Failed to load comments')
+        return
+      }
+
+      const data = await response.json()
+      setComments(parseComments(data.comments || []))
+      setMore(data.more)
+    } catch (error) {
+      console.error('Failed to fetch comments:', error)
+      setError('Failed to load comments')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const loadMore = async (placeholder: MoreComments) => {
+    setLoadingMoreFor(placeholder.parentId)
+    try {
+      // No children means the thread goes deeper than DEPTH: reload it from its parent comment
+      if (placeholder.children.length === 0) {
+        const params = new URLSearchParams({ sort, depth: String(DEPTH), comment: placeholder.parentId })
+        const response = await fetch(`http://localhost:3001/api/posts/${postId}/comments?${params}`, {
+          headers: { 'Authorization': `Bearer ${sessionToken}` }
+        })
+        if (!response.ok) return
+
+        const data = await response.json()
+        const [parent] = parseComments(data.comments || [])
+        if (!parent) return
+        setComments(prev => updateComment(prev, placeholder.parentId, comment => ({
+          ...comment,
+          replies: parent.replies,
+          more: parent.more
+        })))
+        return
+      }
+
+      const batch = placeholder.children.slice(0, MORE_BATCH)
+      const remaining = placeholder.children.slice(MORE_BATCH)
+      const params = new URLSearchParams({ sort, depth: String(DEPTH), children: batch.join(',') })
+      const response = await fetch(`http://localhost:3001/api/posts/${postId}/comments/more?${params}`, {
+        headers: { 'Authorization': `Bearer ${sessionToken}` }
+      })
+      if (!response.ok) return
+
+      const data = await response.json()
+      const loaded = parseComments(data.comments || [])
+      const nextMore = remaining.length > 0
+        ? { parentId: placeholder.parentId, count: Math.max(placeholder.count - batch.length, remaining.length), children: remaining }
+        : data.more
+
+      if (placeholder.parentId.startsWith('t3_')) {
+        setComments(prev => [...prev, ...loaded])
+        setMore(nextMore)
+      } else {
+        setComments(prev => updateComment(prev, placeholder.parentId, comment => ({
+          ...comment,
+          replies: [...comment.replies, ...loaded],
+          more: nextMore
+        })))
+      }
+    } catch (error) {
+      console.error('Failed to load more comments:', error)
+    } finally {
+      setLoadingMoreFor(null)
+    }
+  }
+
+  const getRelativeTime = (date: Date) => {
+    const now = new Date()
+    const diffInSeconds = Math.floor((now.getTime() - date.getTime()) / 1000)
+
+    if (diffInSeconds < 60) return `${diffInSeconds}s ago`
+    if (diffInSeconds < 3600) return `${Math.floor(diffInSeconds / 60)}m ago`
+    if (diffInSeconds < 86400) return `${Math.floor(diffInSeconds / 3600)}h ago`
+    if (diffInSeconds < 604800) return `${Math.floor(diffInSeconds / 86400)}d ago`
+    return `${Math.floor(diffInSeconds / 604800)}w ago`
+  }
+
+  const renderMore = (placeholder: MoreComments) => (
+    <button
+      onClick={() => loadMore(placeholder)}
+      disabled={loadingMoreFor === placeholder.parentId}
+      className="mt-2 text-xs font-medium text-blue-600 hover:text-blue-800 disabled:opacity-50"
+    >
+      {loadingMoreFor === placeholder.parentId
+        ? 'Loading...'
+        : placeholder.children.length === 0
+          ? 'Continue this thread →'
+          : `Load ${placeholder.count} more ${placeholder.count === 1 ? 'reply' : 'replies'}`}
+    </button>
+  )
+
+  const renderComment = (comment: RedditComment) => (
+    <div key={comment.id} className="mt-3">
+      <div className="flex items-center space-x-2 text-xs text-gray-500">
+        <span className={`font-medium ${comment.isSubmitter ? 'text-blue-600' : 'text-gray-700'}`}>
+          u/{comment.author}{comment.isSubmitter && ' (OP)'}
+        </span>
+        <span>↑ {comment.score}</span>
+        <span>{getRelativeTime(comment.created)}</span>
+        {comment.stickied && <span className="text-emerald-600">pinned</span>}
+        {onReply && (
+          <button
+            onClick={() => onReply(comment)}
+            className="font-medium text-violet-600 hover:text-violet-800"
+          >
+            Reply
+          </button>
+        )}
+      </div>
+      <div className="text-sm text-gray-800 whitespace-pre-wrap mt-1">{comment.body}</div>
+      {(comment.replies.length > 0 || comment.more) && (
+        <div className="ml-3 pl-3 border-l-2 border-gray-200">
+          {comment.replies.map(renderComment)}
+          {comment.more && renderMore(comment.more)}
+        </div>
+      )}
+    </div>
+  )
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-medium text-gray-700 flex items-center">
+          <span className="mr-2">💬</span>
+          Existing Discussion
+        </h4>
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value)}
+          className="text-xs border border-gray-200 rounded-md px-2 py-1 bg-white text-gray-700"
+        >
+          {SORT_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading comments...</p>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : comments.length === 0 ? (
+        <p className="text-sm text-gray-500 italic">No comments yet. You'd be the first to reply.</p>
+      ) : (
+        <div>
+          {comments.map(renderComment)}
+          {more && renderMore(more)}
+        </div>
+      )}
+    </div>
+  )
+}
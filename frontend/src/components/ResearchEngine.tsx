@@ -16,10 +16,10 @@ interface PainPoint {
 }
 
 interface ResearchEngineProps {
-  redditId: string
+  sessionToken: string
 }
 
-export default function ResearchEngine({ redditId }: ResearchEngineProps) {
+export default function ResearchEngine({ sessionToken }: ResearchEngineProps) {
   const [niche, setNiche] = useState('')
   const [isResearching, setIsResearching] = useState(false)
   const [painPoints, setPainPoints] = useState<PainPoint[]>([])
@@ -34,7 +34,7 @@ export default function ResearchEngine({ redditId }: ResearchEngineProps) {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'x-reddit-id': redditId
+          'Authorization': `Bearer ${sessionToken}`
         },
         body: JSON.stringify({ 
           niche: niche.trim(),
@@ -21,17 +21,67 @@ interface SubredditInfo {
   icon?: string
 }
 
+interface TimingBucket {
+  key: number
+  posts: number
+  sampled: number
+  medianScore: number
+  medianCommentsPerHour: number
+  volumeIndex: number
+  scoreIndex: number
+  velocityIndex: number
+  opportunity: number
+}
+
+export interface PostingWindow extends Omit<TimingBucket, 'key'> {
+  startHour: number
+  endHour: number
+}
+
+export interface SubredditTiming {
+  timeZone: string
+  sampleSize: number
+  utc: { byWeekday: TimingBucket[], byHour: TimingBucket[] }
+  local: { byWeekday: TimingBucket[], byHour: TimingBucket[] }
+  bestWeekdays: number[]
+  windows: PostingWindow[]
+}
+
+export const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, '0')}:00`
+
+export const formatWindow = (window: PostingWindow) => `${formatHour(window.startHour)}–${formatHour(window.endHour)}`
+
+/**
+ * The next time a posting window opens, as a datetime-local value in the browser's time
+ * zone, preferring the subreddit's best weekdays
+ */
+export function nextWindowStart(window: PostingWindow, bestWeekdays: number[]): string {
+  const now = new Date()
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate(), window.startHour)
+  if (start <= now) start.setDate(start.getDate() + 1)
+  for (let day = 0; day < 7 && bestWeekdays.length > 0 && !bestWeekdays.includes(start.getDay()); day++) {
+    start.setDate(start.getDate() + 1)
+  }
+
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${start.getFullYear()}-${pad(start.getMonth() + 1)}-${pad(start.getDate())}T${pad(start.getHours())}:00`
+}
+
 interface SubredditProfileProps {
   subredditName: string
-  redditId: string
+  sessionToken: string
   onClose: () => void
 }
 
-export default function SubredditProfile({ subredditName, redditId, onClose }: SubredditProfileProps) {
+export default function SubredditProfile({ subredditName, sessionToken, onClose }: SubredditProfileProps) {
   const [subredditInfo, setSubredditInfo] = useState<SubredditInfo | null>(null)
   const [latestPosts, setLatestPosts] = useState<RedditPost[]>([])
   const [loading, setLoading] = useState(true)
-  const [activeTab, setActiveTab] = useState<'posts' | 'rules'>('posts')
+  const [timing, setTiming] = useState<SubredditTiming | null>(null)
+  const [timingZone, setTimingZone] = useState<'local' | 'utc'>('local')
+  const [activeTab, setActiveTab] = useState<'posts' | 'rules' | 'timing'>('posts')
 
   useEffect(() => {
     fetchSubredditData()
@@ -41,12 +91,16 @@ export default function SubredditProfile({ subredditName, redditId, onClose }: S
     setLoading(true)
     try {
       // Fetch subreddit info and rules
-      const [infoResponse, postsResponse] = await Promise.all([
+      const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone
+      const [infoResponse, postsResponse, timingResponse] = await Promise.all([
         fetch(`http://localhost:3001/api/subreddit/${subredditName}`, {
-          headers: { 'x-reddit-id': redditId }
+          headers: { 'Authorization': `Bearer ${sessionToken}` }
         }),
         fetch(`http://localhost:3001/api/subreddit/${subredditName}/posts?limit=20`, {
-          headers: { 'x-reddit-id': redditId }
+          headers: { 'Authorization': `Bearer ${sessionToken}` }
+        }),
+        fetch(`http://localhost:3001/api/subreddit/${subredditName}/timing?timeZone=${encodeURIComponent(timeZone)}`, {
+          headers: { 'Authorization': `Bearer ${sessionToken}` }
         })
       ])
 
@@ -62,6 +116,11 @@ export default function SubredditProfile({ subredditName, redditId, onClose }: S
           created: new Date(post.created)
         })))
       }
+
+      if (timingResponse.ok) {
+        const timingData = await timingResponse.json()
+        setTiming(timingData.timing)
+      }
     } catch (error) {
       console.error('Failed to fetch subreddit data:', error)
     }
@@ -158,6 +217,16 @@ export default function SubredditProfile({ subredditName, redditId, onClose }: S
             >
               📋 Rules ({subredditInfo?.rules?.length || 0})
             </button>
+            <button
+              onClick={() => setActiveTab('timing')}
+              className={`py-4 px-2 border-b-2 font-medium text-sm transition-colors ${
+                activeTab === 'timing'
+                  ? 'border-orange-500 text-orange-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              ⏰ Best Times
+            </button>
           </div>
         </div>
 
@@ -246,6 +315,90 @@ export default function SubredditProfile({ subredditName, redditId, onClose }: S
               )}
             </div>
           )}
+
+          {activeTab === 'timing' && (
+            <div className="p-6">
+              {timing && timing.sampleSize > 0 ? (
+                <div className="space-y-6">
+                  <div className="p-4 bg-orange-50 border border-orange-200 rounded-lg">
+                    <h3 className="font-semibold text-gray-900 mb-2">Recommended posting windows</h3>
+                    {timing.windows.length > 0 ? (
+                      <div className="space-y-1 text-sm text-gray-700">
+                        {timing.windows.map((window) => (
+                          <p key={window.startHour}>
+                            <span className="font-medium">{formatWindow(window)}</span>
+                            {' '}· {window.scoreIndex}× score, {window.velocityIndex}× comment velocity, {window.volumeIndex}× post volume
+                          </p>
+                        ))}
+                        {timing.bestWeekdays.length > 0 && (
+                          <p className="pt-1">Best days: {timing.bestWeekdays.map((day) => WEEKDAYS[day]).join(', ')}</p>
+                        )}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-gray-600">No time of day clearly beats the rest in this sample.</p>
+                    )}
+                    <p className="text-xs text-gray-500 mt-2">
+                      Times are in {timing.timeZone}, from {timing.sampleSize} recent and top posts. 1× is the subreddit average.
+                    </p>
+                  </div>
+
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <h3 className="font-semibold text-gray-900">Engagement for the competition, by hour</h3>
+                      <div className="flex text-xs border border-gray-200 rounded-md overflow-hidden">
+                        {(['local', 'utc'] as const).map((zone) => (
+                          <button
+                            key={zone}
+                            onClick={() => setTimingZone(zone)}
+                            className={`px-2 py-1 ${timingZone === zone ? 'bg-orange-500 text-white' : 'text-gray-600 hover:bg-gray-50'}`}
+                          >
+                            {zone === 'local' ? 'Your time' : 'UTC'}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="flex items-end h-32 space-x-1">
+                      {timing[timingZone].byHour.map((bucket) => (
+                        <div
+                          key={bucket.key}
+                          title={`${formatHour(bucket.key)}: ${bucket.posts} new posts, median score ${bucket.medianScore}, ${bucket.medianCommentsPerHour} comments/h`}
+                          className={`flex-1 rounded-t ${bucket.opportunity > 1 ? 'bg-orange-500' : 'bg-gray-300'}`}
+                          style={{ height: `${Math.min(bucket.opportunity / 2, 1) * 100}%` }}
+                        />
+                      ))}
+                    </div>
+                    <div className="flex justify-between text-xs text-gray-500 mt-1">
+                      <span>00:00</span>
+                      <span>06:00</span>
+                      <span>12:00</span>
+                      <span>18:00</span>
+                      <span>23:00</span>
+                    </div>
+                  </div>
+
+                  <div>
+                    <h3 className="font-semibold text-gray-900 mb-2">By weekday</h3>
+                    <div className="grid grid-cols-7 gap-2">
+                      {timing[timingZone].byWeekday.map((bucket) => (
+                        <div
+                          key={bucket.key}
+                          className={`p-2 rounded-lg text-center text-sm ${bucket.opportunity > 1 ? 'bg-orange-100 text-orange-800' : 'bg-gray-50 text-gray-600'}`}
+                        >
+                          <div className="font-medium">{WEEKDAYS[bucket.key]}</div>
+                          <div className="text-xs">{bucket.opportunity}×</div>
+                          <div className="text-xs text-gray-500">{bucket.posts} posts</div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              ) : (
+                <div className="text-center py-12 text-gray-500">
+                  <p>Not enough posts in r/{subredditName} to find the best times</p>
+                </div>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </div>
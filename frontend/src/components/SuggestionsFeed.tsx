@@ -5,12 +5,14 @@ interface SuggestionsFeedProps {
   suggestions: Suggestion[]
   onLoadSuggestions: () => Promise<void>
   onExecuteAction: (suggestion: Suggestion) => Promise<void>
+  onSaveDraft?: (suggestion: Suggestion) => Promise<void>
 }
 
 export default function SuggestionsFeed({ 
   suggestions, 
   onLoadSuggestions, 
-  onExecuteAction 
+  onExecuteAction,
+  onSaveDraft
 }: SuggestionsFeedProps) {
   const [loading, setLoading] = useState(false)
   const [executingId, setExecutingId] = useState<string | null>(null)
@@ -119,6 +121,15 @@ export default function SuggestionsFeed({
                       '✅ Approve & Execute'
                     )}
                   </button>
+                  {/* Only posts can be drafted here; comments need a thread to reply in */}
+                  {onSaveDraft && suggestion.type === 'post' && (
+                    <button
+                      onClick={() => onSaveDraft(suggestion)}
+                      className="bg-white border border-blue-600 text-blue-700 px-3 py-1 rounded text-sm hover:bg-blue-50"
+                    >
+                      📝 Save Draft
+                    </button>
+                  )}
                   <button className="bg-gray-500 text-white px-3 py-1 rounded text-sm hover:bg-gray-600">
                     ❌ Dismiss
                   </button>